@@ -14,6 +14,7 @@ export default tseslint.config(
       "fledgling/assets/js/**",
       "vscode-ragelang/**",
       "**/*.test.ts",
+      "**/*.bench.ts",
     ],
   },
   {
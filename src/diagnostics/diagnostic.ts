@@ -0,0 +1,67 @@
+/**
+ * Diagnostics for Ragelang
+ *
+ * Structured problems found in a program, so editors can show every problem
+ * at once instead of only the first error thrown.
+ */
+
+import type { Token } from "../lexer/tokens.js";
+import { TokenType } from "../lexer/tokens.js";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticCode =
+  | "unterminated-string"
+  | "expected-token" // A specific token was required, like ')' after arguments
+  | "unexpected-token" // A token that can't start an expression
+  | "unexpected-pattern" // A token that can't start a match pattern
+  | "invalid-assignment-target"
+  | "invalid-update-target" // ++ or -- on something that isn't a variable, member or index
+  | "positional-after-keyword"; // A positional argument after a keyword argument
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number; // 1-based line in the original source
+  column: number; // 1-based column in the original source
+  endLine: number;
+  endColumn: number; // 1-based, exclusive
+}
+
+/**
+ * Error thrown for syntax errors, carrying the diagnostic that describes it
+ */
+export class RageSyntaxError extends Error {
+  readonly diagnostic: Diagnostic;
+
+  constructor(diagnostic: Diagnostic) {
+    super(`${diagnostic.message} at line ${diagnostic.line}`);
+    this.name = "RageSyntaxError";
+    this.diagnostic = diagnostic;
+  }
+}
+
+/**
+ * Create an error diagnostic covering a token
+ */
+export function tokenDiagnostic(token: Token, code: DiagnosticCode, message: string): Diagnostic {
+  // Multi-line tokens (strings) are only highlighted up to the end of their first line
+  const width = Math.max(1, token.lexeme.split("\n")[0].length);
+  return {
+    code,
+    severity: "error",
+    message,
+    line: token.line,
+    column: token.column,
+    endLine: token.line,
+    endColumn: token.column + width,
+  };
+}
+
+/**
+ * Describe a token for an error message
+ */
+export function describeToken(token: Token): string {
+  return token.type === TokenType.EOF ? "end of file" : token.lexeme;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { Ragelang } from "./index.js";
+import { RecordingRenderer } from "./renderer/recording.js";
+
+const examplesDir = join(__dirname, "../examples");
+
+// Frames to snapshot, 1-based: the first frame and one second in
+const SNAPSHOT_FRAMES = [1, 60];
+
+describe("Examples", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  for (const file of readdirSync(examplesDir).filter((f) => f.endsWith(".rage"))) {
+    it(`should draw ${file} the same way`, () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const renderer = new RecordingRenderer({ width: 800, height: 600 });
+      const ragelang = new Ragelang({ renderer, errorOverlay: false, seed: 42 });
+
+      ragelang.run(readFileSync(join(examplesDir, file), "utf-8"));
+      ragelang.runFrames(Math.max(...SNAPSHOT_FRAMES));
+
+      const frames = renderer.getFrames();
+      for (const frame of SNAPSHOT_FRAMES) {
+        expect(frames[frame - 1]).toMatchSnapshot(`frame ${frame}`);
+      }
+    });
+  }
+});
@@ -0,0 +1,142 @@
+/**
+ * Foundation detection for Ragelang
+ *
+ * The foundation is found with the lexer, so foundation characters inside
+ * strings and comments (or after an unterminated string) never count.
+ * The foundation is the line of foundation characters furthest along gravity.
+ * Lines of foundation characters stacked directly on top of it are fine, but
+ * foundation characters anywhere else make it unclear which line was meant.
+ */
+
+import type { FallingRules, GravityDirection, Position } from "./processor.js";
+import { Lexer } from "../lexer/lexer.js";
+import { TokenType, type Token } from "../lexer/tokens.js";
+
+export type FoundationErrorCode = "NO_FOUNDATION" | "AMBIGUOUS_FOUNDATION";
+
+/**
+ * Error for programs whose foundation is missing or ambiguous
+ */
+export class FoundationError extends Error {
+  readonly code: FoundationErrorCode;
+  readonly line: number; // 1-based
+  readonly column: number; // 1-based
+
+  constructor(code: FoundationErrorCode, message: string, line: number, column: number) {
+    super(message);
+    this.name = "FoundationError";
+    this.code = code;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface FoundationLocation {
+  layer: number; // -1 if there is no foundation
+  cells: Position[]; // Foundation characters on the foundation layer
+  error: FoundationError | null;
+}
+
+/**
+ * Find every foundation character the lexer sees as a foundation marker
+ */
+export function findFoundationGlyphs(source: string, rules: Required<FallingRules>): Position[] {
+  const lexer = new Lexer(source, { foundation: rules.foundation });
+  let tokens: Token[];
+  try {
+    tokens = lexer.tokenize();
+  } catch {
+    // Anything after a lexer error (like an unterminated string) isn't a foundation
+    tokens = lexer.getTokens();
+  }
+
+  return tokens
+    .filter((t) => t.type === TokenType.FOUNDATION && rules.foundation.includes(t.lexeme))
+    .map((t) => ({ row: t.line - 1, col: t.column - 1 }));
+}
+
+/**
+ * Find the first character the lexer would read as code rather than as a
+ * foundation marker, so it can't be used as one (null if they're all fine)
+ */
+export function findCodeFoundationChar(foundation: string): string | null {
+  for (const char of foundation) {
+    const lexer = new Lexer(char, { foundation });
+    let tokens: Token[];
+    try {
+      tokens = lexer.tokenize();
+    } catch {
+      // Like a lone quote, which starts an unterminated string
+      return char;
+    }
+    if (tokens[0]?.type !== TokenType.FOUNDATION) {
+      return char;
+    }
+  }
+  return null;
+}
+
+/**
+ * Work out which layer is the foundation from the foundation characters
+ * @param layerOf Converts a grid position to its layer along gravity
+ */
+export function locateFoundation(
+  glyphs: Position[],
+  layerOf: (pos: Position) => number,
+  lines: string[],
+  rules: Required<FallingRules>
+): FoundationLocation {
+  if (glyphs.length === 0) {
+    // An empty program doesn't need a foundation
+    if (lines.every((line) => line.trim() === "")) {
+      return { layer: -1, cells: [], error: null };
+    }
+    const line = rules.gravity === "down" ? lines.length : 1;
+    return {
+      layer: -1,
+      cells: [],
+      error: new FoundationError(
+        "NO_FOUNDATION",
+        `No foundation found. Add a line of ${rules.foundation[0]} characters ${EDGES[rules.gravity]}`,
+        line,
+        1
+      ),
+    };
+  }
+
+  const layers = new Set(glyphs.map(layerOf));
+  const layer = Math.max(...layers);
+  const cells = glyphs.filter((pos) => layerOf(pos) === layer);
+
+  // Foundation lines stacked directly on the foundation are part of it
+  let top = layer;
+  while (layers.has(top - 1)) {
+    top--;
+  }
+
+  const stray = glyphs.find((pos) => layerOf(pos) < top);
+  if (!stray) {
+    return { layer, cells, error: null };
+  }
+
+  const foundation = cells[0];
+  return {
+    layer,
+    cells,
+    error: new FoundationError(
+      "AMBIGUOUS_FOUNDATION",
+      `Ambiguous foundation: found foundation characters at line ${stray.row + 1}, column ${stray.col + 1} ` +
+        `as well as the foundation at line ${foundation.row + 1}, column ${foundation.col + 1}`,
+      stray.row + 1,
+      stray.col + 1
+    ),
+  };
+}
+
+// Where to put a missing foundation, for each gravity direction
+const EDGES: Record<GravityDirection, string> = {
+  down: "at the bottom of the program",
+  up: "at the top of the program",
+  left: "down the left edge of the program",
+  right: "down the right edge of the program",
+};
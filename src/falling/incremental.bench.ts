@@ -0,0 +1,40 @@
+import { bench, describe } from "vitest";
+import { FallingProcessor } from "./processor.js";
+import { IncrementalFallingProcessor } from "./incremental.js";
+
+/**
+ * Generate a large, fully supported scene file: each line of code is padded
+ * out with a comment so the line above it has something to rest on
+ */
+function generateSource(lines: number): string {
+  const width = 48;
+  const rows: string[] = [];
+  for (let i = 0; i < lines; i++) {
+    rows.push(`score_${i} = score_${i} + ${i} //`.padEnd(width, "-"));
+  }
+  rows.push("#".repeat(width));
+  return rows.join("\n");
+}
+
+const source = generateSource(2000);
+
+// A keystroke in the middle of the file, typed and then deleted again
+const typeEdit = { startRow: 1000, startCol: 3, endRow: 1000, endCol: 3, text: "x" };
+const deleteEdit = { startRow: 1000, startCol: 3, endRow: 1000, endCol: 4, text: "" };
+
+describe("keystroke in a 2,000 line file", () => {
+  bench("FallingProcessor (full re-check)", () => {
+    const processor = new FallingProcessor(source);
+    processor.getUnsupportedPositions();
+    processor.process();
+  });
+
+  const incremental = new IncrementalFallingProcessor(source);
+  let typed = false;
+  bench("IncrementalFallingProcessor", () => {
+    incremental.applyEdit(typed ? deleteEdit : typeEdit);
+    typed = !typed;
+    incremental.getUnsupportedPositions();
+    incremental.process();
+  });
+});
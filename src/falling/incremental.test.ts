@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { IncrementalFallingProcessor, type SourceEdit } from "./incremental.js";
+import { FallingProcessor, type FallingRules } from "./processor.js";
+
+/**
+ * Apply an edit to a plain string, for comparing against the incremental processor
+ */
+function applyToText(source: string, edit: SourceEdit): string {
+  const lines = source.split("\n");
+  const prefix = lines[edit.startRow].slice(0, edit.startCol);
+  const suffix = lines[edit.endRow].slice(edit.endCol);
+  lines.splice(edit.startRow, edit.endRow - edit.startRow + 1, prefix + edit.text + suffix);
+  return lines.join("\n");
+}
+
+function expectMatchesFullProcessor(
+  incremental: IncrementalFallingProcessor,
+  source: string,
+  rules: FallingRules = {}
+): void {
+  const full = new FallingProcessor(source, rules);
+  expect(incremental.getText()).toBe(source);
+  expect(incremental.getUnsupportedPositions()).toEqual(full.getUnsupportedPositions());
+  expect(incremental.getFoundationRow()).toBe(full.getFoundationRow());
+  expect(incremental.getFoundationError()).toEqual(full.getFoundationError());
+
+  const error = full.getFoundationError();
+  if (error) {
+    expect(() => incremental.process()).toThrow(error.message);
+  } else {
+    expect(incremental.process()).toBe(full.process());
+  }
+}
+
+describe("IncrementalFallingProcessor", () => {
+  const source = `x = 1
+print(x)
+#########`;
+
+  it("should match the full processor before any edits", () => {
+    expectMatchesFullProcessor(new IncrementalFallingProcessor(source), source);
+  });
+
+  it("should find characters that lose support after an edit", () => {
+    const processor = new IncrementalFallingProcessor(source);
+    const edit = { startRow: 1, startCol: 0, endRow: 1, endCol: 8, text: "p" };
+    processor.applyEdit(edit);
+
+    expect(processor.getUnsupportedPositions()).toEqual([
+      { row: 0, col: 2 },
+      { row: 0, col: 4 },
+    ]);
+    expectMatchesFullProcessor(processor, applyToText(source, edit));
+  });
+
+  it("should find characters that regain support after an edit", () => {
+    const processor = new IncrementalFallingProcessor(`x = 1
+p
+#########`);
+    processor.applyEdit({ startRow: 1, startCol: 1, endRow: 1, endCol: 1, text: "rint(x)" });
+
+    expect(processor.getUnsupportedPositions()).toEqual([]);
+    expect(processor.process()).toBe(source);
+  });
+
+  it("should handle edits that add and remove lines", () => {
+    const processor = new IncrementalFallingProcessor(source);
+    let text = source;
+
+    const edits: SourceEdit[] = [
+      { startRow: 0, startCol: 5, endRow: 0, endCol: 5, text: "\ny = 2\n" },
+      { startRow: 1, startCol: 0, endRow: 3, endCol: 0, text: "" },
+      { startRow: 0, startCol: 0, endRow: 0, endCol: 0, text: "   \n" },
+    ];
+    for (const edit of edits) {
+      processor.applyEdit(edit);
+      text = applyToText(text, edit);
+      expectMatchesFullProcessor(processor, text);
+    }
+  });
+
+  it("should re-check everything when the foundation moves", () => {
+    const processor = new IncrementalFallingProcessor(source);
+    const edit = { startRow: 2, startCol: 9, endRow: 2, endCol: 9, text: "\n  ###" };
+    processor.applyEdit(edit);
+
+    expect(processor.getFoundationRow()).toBe(3);
+    expectMatchesFullProcessor(processor, applyToText(source, edit));
+
+    const removeFoundation = { startRow: 2, startCol: 0, endRow: 3, endCol: 5, text: "" };
+    processor.applyEdit(removeFoundation);
+    expect(processor.getFoundationRow()).toBe(-1);
+    expect(processor.getFoundationError()?.code).toBe("NO_FOUNDATION");
+    expect(() => processor.process()).toThrow("No foundation found");
+  });
+
+  it("should only count foundation characters the lexer sees", () => {
+    const processor = new IncrementalFallingProcessor(source);
+    let text = source;
+
+    // Typing a # into a comment doesn't make a new foundation, but one in code does
+    const edits: SourceEdit[] = [
+      { startRow: 0, startCol: 5, endRow: 0, endCol: 5, text: " // #" },
+      { startRow: 0, startCol: 6, endRow: 0, endCol: 7, text: "" },
+    ];
+    for (const edit of edits) {
+      processor.applyEdit(edit);
+      text = applyToText(text, edit);
+      expectMatchesFullProcessor(processor, text);
+    }
+    expect(processor.getFoundationError()).toMatchObject({
+      code: "AMBIGUOUS_FOUNDATION",
+      line: 1,
+      column: 9,
+    });
+  });
+
+  it("should reject edits outside the document", () => {
+    const processor = new IncrementalFallingProcessor(source);
+    expect(() =>
+      processor.applyEdit({ startRow: 2, startCol: 0, endRow: 5, endCol: 0, text: "" })
+    ).toThrow("Edit out of range: lines 3-6");
+  });
+
+  it("should reuse the processed source until the next edit", () => {
+    const processor = new IncrementalFallingProcessor(source);
+
+    expect(processor.process()).toBe(processor.process());
+    expect(processor.getSourceMap().toOriginal(1, 0)).toEqual({ row: 1, col: 0 });
+
+    processor.applyEdit({ startRow: 1, startCol: 0, endRow: 1, endCol: 8, text: "" });
+    expect(processor.process()).toBe("\nx = 1\n#########");
+    expect(processor.getSourceMap().toOriginal(1, 0)).toEqual({ row: 0, col: 0 });
+  });
+
+  it("should match the full processor over a long run of edits", () => {
+    // Small deterministic generator so failures are reproducible
+    let seed = 12345;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    const pieces = ["a", "b", " ", "  ", '"', "#", "\n", "xy", "// c", ""];
+    const ruleSets: FallingRules[] = [
+      {},
+      { support: "vertical" },
+      { support: "wide", stringWhitespaceSupports: true },
+      { gravity: "right" },
+    ];
+
+    for (const rules of ruleSets) {
+      let text = `if (x) {
+  y = 1
+}
+/////////
+#########`;
+      const processor = new IncrementalFallingProcessor(text, rules);
+
+      for (let i = 0; i < 60; i++) {
+        const lines = text.split("\n");
+        const startRow = random(lines.length);
+        const endRow = Math.min(lines.length - 1, startRow + random(2));
+        const startCol = random(lines[startRow].length + 1);
+        const endCol =
+          endRow === startRow
+            ? startCol + random(lines[endRow].length - startCol + 1)
+            : random(lines[endRow].length + 1);
+        const edit = { startRow, startCol, endRow, endCol, text: pieces[random(pieces.length)] };
+
+        processor.applyEdit(edit);
+        text = applyToText(text, edit);
+        expectMatchesFullProcessor(processor, text, rules);
+      }
+    }
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Incremental Falling Processor for Ragelang
+ *
+ * Editors re-check the whole document on every keystroke, which gets slow for
+ * large files. Support only ever depends on the cells beneath a character, so
+ * after an edit the only characters whose support can change are the ones on
+ * the edited lines and in a cone of columns above them. This processor keeps
+ * the support of every cell between edits and re-checks just that cone,
+ * stopping as soon as a line comes out the same as before.
+ *
+ * Finding the foundation needs the lexer, so the document is only re-lexed
+ * when an edit could change what is a string, a comment or a foundation.
+ *
+ * Incremental checking works for downward gravity. Other gravity directions
+ * fall back to a full FallingProcessor run on every query.
+ */
+
+import {
+  FallingProcessor,
+  SUPPORT_OFFSETS,
+  resolveFallingRules,
+  stringMask,
+  type FallingRules,
+  type Position,
+} from "./processor.js";
+import { SourceMap } from "./sourcemap.js";
+import { FoundationError, findFoundationGlyphs, locateFoundation } from "./foundation.js";
+
+/**
+ * A text replacement, with 0-based positions and an exclusive end
+ * (the same shape as an editor content change)
+ */
+export interface SourceEdit {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  text: string;
+}
+
+export class IncrementalFallingProcessor {
+  private rules: Required<FallingRules>;
+  private lines: string[] = [];
+  // Whether each cell can support (or block) a character
+  private solid: boolean[][] = [];
+  // Every foundation character the lexer found, in reading order
+  private glyphs: Position[] = [];
+  // Whether each cell is supported, all the way down to the foundation
+  private supported: boolean[][] = [];
+  private foundationRow: number = -1;
+  // Columns of the foundation characters on the foundation row
+  private foundationCols: Set<number> = new Set();
+  private foundationError: FoundationError | null = null;
+  // Result of the full fall, kept until the next edit
+  private settled: { result: string; sourceMap: SourceMap } | null = null;
+
+  constructor(source: string, rules: FallingRules = {}) {
+    this.rules = resolveFallingRules(rules);
+    this.setText(source);
+  }
+
+  /**
+   * Replace the whole document and re-check everything
+   */
+  setText(source: string): void {
+    this.lines = source.split("\n");
+    this.solid = this.lines.map((line) => this.solidCells(line));
+    this.glyphs = findFoundationGlyphs(source, this.rules);
+    this.locateFoundation();
+    this.settled = null;
+    this.recomputeAll();
+  }
+
+  getText(): string {
+    return this.lines.join("\n");
+  }
+
+  /**
+   * Apply an edit and re-check only the characters it could affect
+   */
+  applyEdit(edit: SourceEdit): void {
+    const { startRow, startCol, endRow, endCol, text } = edit;
+    if (startRow < 0 || endRow >= this.lines.length || startRow > endRow) {
+      throw new Error(`Edit out of range: lines ${startRow + 1}-${endRow + 1}`);
+    }
+
+    const prefix = this.lines[startRow].slice(0, startCol);
+    const suffix = this.lines[endRow].slice(endCol);
+    const newLines = (prefix + text + suffix).split("\n");
+    const removed = endRow - startRow + 1;
+    const lastRow = startRow + newLines.length - 1;
+    const previousFirst = this.supported[startRow];
+    const lexical = this.isLexicalEdit(edit);
+
+    this.lines.splice(startRow, removed, ...newLines);
+    this.solid.splice(startRow, removed, ...newLines.map((line) => this.solidCells(line)));
+    this.supported.splice(startRow, removed, ...newLines.map(() => []));
+    this.settled = null;
+
+    const previousFoundation = this.foundationRow;
+    const previousCols = [...this.foundationCols].join(",");
+    if (lexical) {
+      this.glyphs = findFoundationGlyphs(this.getText(), this.rules);
+    } else {
+      // The edit is within one line, so only foundation characters after it move
+      const shift = text.length - (endCol - startCol);
+      this.glyphs = this.glyphs.map((pos) =>
+        pos.row === startRow && pos.col >= endCol ? { row: pos.row, col: pos.col + shift } : pos
+      );
+    }
+    this.locateFoundation();
+
+    // Other gravity directions re-check the whole document when queried
+    if (this.rules.gravity !== "down") {
+      return;
+    }
+
+    // Lines below the edit only move, unless the foundation itself changed
+    const shift = newLines.length - removed;
+    const expectedFoundation =
+      previousFoundation > endRow ? previousFoundation + shift : previousFoundation;
+
+    if (
+      this.foundationRow !== expectedFoundation ||
+      [...this.foundationCols].join(",") !== previousCols ||
+      (previousFoundation >= startRow && previousFoundation <= endRow)
+    ) {
+      this.recomputeAll();
+      return;
+    }
+
+    for (let row = lastRow; row >= startRow; row--) {
+      this.supported[row] = this.computeRow(row);
+    }
+
+    // Walk up from the edit, re-checking only columns whose support could have changed
+    let changed = this.changedColumns(previousFirst, this.supported[startRow]);
+    for (let row = startRow - 1; row >= 0 && changed.length > 0; row--) {
+      changed = this.recheckColumns(row, changed);
+    }
+  }
+
+  /**
+   * Get characters that will fall (for editor highlighting)
+   * Matches FallingProcessor.getUnsupportedPositions()
+   */
+  getUnsupportedPositions(): Position[] {
+    if (this.rules.gravity !== "down") {
+      return new FallingProcessor(this.getText(), this.rules).getUnsupportedPositions();
+    }
+
+    const unsupported: Position[] = [];
+
+    // No foundation means everything falls
+    const lastRow = this.foundationRow === -1 ? this.lines.length : this.foundationRow;
+    for (let row = 0; row < lastRow; row++) {
+      const line = this.lines[row];
+      for (let col = 0; col < line.length; col++) {
+        if (line[col] !== " " && !this.supported[row][col]) {
+          unsupported.push({ row, col });
+        }
+      }
+    }
+
+    return unsupported;
+  }
+
+  /**
+   * Get the processed source (the same as FallingProcessor.process())
+   */
+  process(): string {
+    return this.settle().result;
+  }
+
+  /**
+   * Get a source map from the processed source back to the current document
+   */
+  getSourceMap(): SourceMap {
+    return this.settle().sourceMap;
+  }
+
+  getFoundationRow(): number {
+    if (this.rules.gravity !== "down") {
+      return new FallingProcessor(this.getText(), this.rules).getFoundationRow();
+    }
+    return this.foundationRow;
+  }
+
+  /**
+   * Get the problem with the foundation, if there is one
+   */
+  getFoundationError(): FoundationError | null {
+    if (this.rules.gravity !== "down") {
+      return new FallingProcessor(this.getText(), this.rules).getFoundationError();
+    }
+    return this.foundationError;
+  }
+
+  /**
+   * Run the fall, skipping the simulation entirely when nothing would move
+   */
+  private settle(): { result: string; sourceMap: SourceMap } {
+    if (this.settled) {
+      return this.settled;
+    }
+
+    if (
+      this.rules.gravity === "down" &&
+      this.foundationRow !== -1 &&
+      !this.foundationError &&
+      this.getUnsupportedPositions().length === 0
+    ) {
+      // Every character stays where it is
+      this.settled = {
+        result: this.lines.map((line) => line.replace(/\s+$/, "")).join("\n"),
+        sourceMap: new SourceMap(
+          this.lines.map((line, row) =>
+            line.split("").map((char, col) => (char !== " " ? { row, col } : null))
+          )
+        ),
+      };
+    } else {
+      const processor = new FallingProcessor(this.getText(), this.rules);
+      const result = processor.process();
+      this.settled = { result, sourceMap: processor.getSourceMap() };
+    }
+
+    return this.settled;
+  }
+
+  private locateFoundation(): void {
+    const location = locateFoundation(this.glyphs, (pos) => pos.row, this.lines, this.rules);
+    this.foundationRow = location.layer;
+    this.foundationCols = new Set(location.cells.map((pos) => pos.col));
+    this.foundationError = location.error;
+  }
+
+  /**
+   * Check whether an edit could change what the lexer sees as strings,
+   * comments or foundation characters
+   */
+  private isLexicalEdit({ startRow, startCol, endRow, endCol, text }: SourceEdit): boolean {
+    if (startRow !== endRow) {
+      return true;
+    }
+    const line = this.lines[startRow];
+    const changed = line.slice(startCol, endCol) + text;
+    const special = '"/\n' + this.rules.foundation;
+    // Slashes next to the edit could be joined into (or split out of) a comment
+    const touchesSlash = line[startCol - 1] === "/" || line[endCol] === "/";
+    return touchesSlash || [...changed].some((char) => special.includes(char));
+  }
+
+  private recomputeAll(): void {
+    this.supported = this.lines.map(() => []);
+    for (let row = this.lines.length - 1; row >= 0; row--) {
+      this.supported[row] = this.computeRow(row);
+    }
+  }
+
+  /**
+   * Compute support for a whole line, assuming the line below is up to date
+   */
+  private computeRow(row: number): boolean[] {
+    const result = new Array<boolean>(this.solid[row].length).fill(false);
+
+    // Without a foundation, and below it, nothing is supported
+    if (this.foundationRow === -1 || row > this.foundationRow) {
+      return result;
+    }
+
+    for (let col = 0; col < result.length; col++) {
+      result[col] =
+        row === this.foundationRow
+          ? this.foundationCols.has(col)
+          : this.isSupportedFromBelow(row, col);
+    }
+    return result;
+  }
+
+  private isSupportedFromBelow(row: number, col: number): boolean {
+    if (!this.solid[row][col]) {
+      return false;
+    }
+    const below = this.supported[row + 1];
+    return SUPPORT_OFFSETS[this.rules.support].some((offset) => below[col + offset] === true);
+  }
+
+  /**
+   * Re-check the cells on a line that rest on changed cells of the line below.
+   * Returns the columns whose support changed.
+   */
+  private recheckColumns(row: number, changedBelow: number[]): number[] {
+    // Rows at or below the foundation don't depend on the rows beneath them
+    if (row >= this.foundationRow) {
+      return [];
+    }
+
+    const cells = this.supported[row];
+    const candidates = new Set<number>();
+    for (const col of changedBelow) {
+      for (const offset of SUPPORT_OFFSETS[this.rules.support]) {
+        const candidate = col - offset;
+        if (candidate >= 0 && candidate < cells.length) {
+          candidates.add(candidate);
+        }
+      }
+    }
+
+    const changed: number[] = [];
+    for (const col of candidates) {
+      const supported = this.isSupportedFromBelow(row, col);
+      if (supported !== cells[col]) {
+        cells[col] = supported;
+        changed.push(col);
+      }
+    }
+    return changed;
+  }
+
+  private changedColumns(before: boolean[], after: boolean[]): number[] {
+    const changed: number[] = [];
+    for (let col = 0; col < Math.max(before.length, after.length); col++) {
+      if ((before[col] ?? false) !== (after[col] ?? false)) {
+        changed.push(col);
+      }
+    }
+    return changed;
+  }
+
+  private solidCells(line: string): boolean[] {
+    const inString = stringMask(line.split(""));
+    return line
+      .split("")
+      .map((char, col) => char !== " " || (this.rules.stringWhitespaceSupports && inString[col]));
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { FallingProcessor } from "./processor.js";
+import { FoundationError } from "./foundation.js";
 
 describe("FallingProcessor", () => {
   it("should find the foundation row", () => {
@@ -65,13 +66,20 @@ print("Hello, World! ")
     expect(result.length).toBeGreaterThan(0);
   });
 
-  it("should return empty string when no foundation exists", () => {
+  it("should throw when no foundation exists", () => {
     const source = `code here
 more code`;
     const processor = new FallingProcessor(source);
-    const result = processor.process();
 
-    expect(result).toBe("");
+    expect(() => processor.process()).toThrow(FoundationError);
+    expect(() => processor.process()).toThrow(
+      "No foundation found. Add a line of # characters at the bottom of the program"
+    );
+    expect(processor.getFoundationError()).toMatchObject({
+      code: "NO_FOUNDATION",
+      line: 2,
+      column: 1,
+    });
   });
 
   it("should handle wide foundations", () => {
@@ -183,3 +191,334 @@ c
     expect(result).toContain("print");
   });
 });
+
+describe("FallingProcessor foundation detection", () => {
+  it("should ignore foundation characters in comments", () => {
+    const source = `x = 1 // ###
+#####`;
+    const processor = new FallingProcessor(source);
+
+    expect(processor.getFoundationRow()).toBe(1);
+    expect(processor.getFoundationError()).toBeNull();
+  });
+
+  it("should ignore foundation characters after an unterminated string", () => {
+    const processor = new FallingProcessor(`#####
+s = "oops
+#####`);
+
+    expect(processor.getFoundationRow()).toBe(0);
+  });
+
+  it("should only support characters on foundation markers", () => {
+    const source = `  x
+#"#"`;
+    const processor = new FallingProcessor(source, { support: "vertical" });
+
+    // The # inside the string is on the foundation line but isn't part of the foundation
+    expect(processor.getUnsupportedPositions()).toEqual([{ row: 0, col: 2 }]);
+  });
+
+  it("should allow foundation lines stacked on the foundation", () => {
+    const processor = new FallingProcessor(`x
+###
+#####`);
+
+    expect(processor.getFoundationRow()).toBe(2);
+    expect(processor.getFoundationError()).toBeNull();
+  });
+
+  it("should throw when foundation characters are separate from the foundation", () => {
+    const source = `a # b
+
+x = 1
+#####`;
+    const processor = new FallingProcessor(source);
+
+    expect(processor.getFoundationError()).toMatchObject({
+      name: "FoundationError",
+      code: "AMBIGUOUS_FOUNDATION",
+      line: 1,
+      column: 3,
+    });
+    expect(() => processor.process()).toThrow(
+      "Ambiguous foundation: found foundation characters at line 1, column 3 as well as the foundation at line 4, column 1"
+    );
+  });
+
+  it("should not need a foundation for an empty program", () => {
+    const processor = new FallingProcessor("  \n");
+
+    expect(processor.getFoundationError()).toBeNull();
+    expect(processor.process()).toBe("");
+  });
+
+  it("should explain where to put a missing foundation", () => {
+    expect(new FallingProcessor("x", { gravity: "left" }).getFoundationError()?.message).toBe(
+      "No foundation found. Add a line of # characters down the left edge of the program"
+    );
+  });
+});
+
+describe("FallingProcessor source map", () => {
+  it("should map supported characters to themselves", () => {
+    const source = `ab
+##`;
+    const processor = new FallingProcessor(source);
+    processor.process();
+    const map = processor.getSourceMap();
+
+    expect(map.toOriginal(0, 0)).toEqual({ row: 0, col: 0 });
+    expect(map.toOriginal(0, 1)).toEqual({ row: 0, col: 1 });
+  });
+
+  it("should map fallen characters back to where they started", () => {
+    const source = `  b
+a
+###`;
+    const processor = new FallingProcessor(source);
+    const result = processor.process();
+    const map = processor.getSourceMap();
+
+    // b falls from row 0 and lands on the foundation beside a
+    expect(result.split("\n")[1]).toBe("a b");
+    expect(map.toOriginal(1, 2)).toEqual({ row: 0, col: 2 });
+    expect(map.toOriginal(0, 2)).toBeNull();
+  });
+
+  it("should map 1-based lines and columns", () => {
+    const source = `  b
+a
+###`;
+    const processor = new FallingProcessor(source);
+    processor.process();
+    const map = processor.getSourceMap();
+
+    expect(map.mapLineColumn(2, 3)).toEqual({ line: 1, column: 3 });
+    // Empty cells are left as-is
+    expect(map.mapLineColumn(2, 2)).toEqual({ line: 2, column: 2 });
+  });
+
+  it("should return an empty map when there is no foundation", () => {
+    const processor = new FallingProcessor("code");
+
+    expect(processor.getSourceMap().toOriginal(0, 0)).toBeNull();
+  });
+});
+
+describe("FallingProcessor simulation", () => {
+  it("should yield each line of falling characters as a step", () => {
+    const source = `  b
+a
+###`;
+    const processor = new FallingProcessor(source);
+    const steps = [...processor.steps()];
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].row).toBe(0);
+    expect(steps[0].moves).toEqual([
+      { char: "b", from: { row: 0, col: 2 }, to: { row: 1, col: 2 } },
+    ]);
+    expect(steps[0].grid[1].join("")).toBe("a b");
+  });
+
+  it("should record characters that fall out of the program", () => {
+    const source = `    x
+#`;
+    const processor = new FallingProcessor(source);
+    const simulation = processor.simulate();
+
+    expect(simulation.steps).toHaveLength(1);
+    expect(simulation.steps[0].moves[0].to).toBeNull();
+    expect(simulation.result).toBe("\n#");
+  });
+
+  it("should return a timeline from the original grid to the result", () => {
+    const source = `  b
+a
+###`;
+    const processor = new FallingProcessor(source);
+    const simulation = processor.simulate();
+
+    expect(simulation.initial[0].join("")).toBe("  b");
+    expect(simulation.result).toBe(new FallingProcessor(source).process());
+  });
+
+  it("should return the first simulation when called again", () => {
+    const processor = new FallingProcessor(`  b
+a
+###`);
+    const simulation = processor.simulate();
+
+    expect(processor.simulate()).toBe(simulation);
+    expect(simulation.initial[0].join("")).toBe("  b");
+    expect(simulation.steps).toHaveLength(1);
+  });
+
+  it("should have no steps when nothing falls", () => {
+    const processor = new FallingProcessor(`ok
+##`);
+    const simulation = processor.simulate();
+
+    expect(simulation.steps).toHaveLength(0);
+    expect(simulation.result).toBe(`ok
+##`);
+  });
+});
+
+describe("FallingProcessor rules", () => {
+  it("should only support characters from directly below with vertical support", () => {
+    const source = `x
+ ##`;
+
+    expect(new FallingProcessor(source).process()).toBe(source);
+    expect(new FallingProcessor(source, { support: "vertical" }).process()).toBe("\n ##");
+  });
+
+  it("should support characters from two columns away with wide support", () => {
+    const source = `x
+  ##`;
+
+    expect(new FallingProcessor(source).process()).toBe("\n  ##");
+    expect(new FallingProcessor(source, { support: "wide" }).process()).toBe(source);
+  });
+
+  it("should make characters fall up towards a foundation at the top", () => {
+    const processor = new FallingProcessor(
+      `###
+
+ab`,
+      { gravity: "up" }
+    );
+
+    expect(processor.getFoundationRow()).toBe(0);
+    expect(processor.process()).toBe("###\nab\n");
+  });
+
+  it("should make characters fall sideways", () => {
+    const right = new FallingProcessor("a  #\nb  #", { gravity: "right" });
+    expect(right.getFoundationRow()).toBe(3);
+    expect(right.process()).toBe("  a#\n  b#");
+
+    const left = new FallingProcessor("#  a", { gravity: "left" });
+    expect(left.process()).toBe("#a");
+  });
+
+  it("should keep moves and the source map in grid coordinates", () => {
+    const processor = new FallingProcessor("a  #", { gravity: "right" });
+    const simulation = processor.simulate();
+
+    expect(simulation.steps[0].row).toBe(0);
+    expect(simulation.steps[0].moves[0]).toEqual({
+      char: "a",
+      from: { row: 0, col: 0 },
+      to: { row: 0, col: 2 },
+    });
+    expect(processor.getSourceMap().toOriginal(0, 2)).toEqual({ row: 0, col: 0 });
+  });
+
+  it("should use custom foundation characters", () => {
+    const source = `x
+@@@`;
+
+    expect(() => new FallingProcessor(source).process()).toThrow("No foundation found");
+    expect(new FallingProcessor(source, { foundation: "@" }).process()).toBe(source);
+    expect(new FallingProcessor("x\n$@$", { foundation: "@$" }).process()).toBe("x\n$@$");
+  });
+
+  it("should reject whitespace foundation characters", () => {
+    expect(() => new FallingProcessor("x\n  ", { foundation: " " })).toThrow(
+      "Foundation characters must be non-empty and cannot include whitespace"
+    );
+    expect(() => new FallingProcessor("x", { foundation: "" })).toThrow();
+  });
+
+  it("should reject foundation characters the lexer reads as code", () => {
+    expect(() => new FallingProcessor("x\n@A@", { foundation: "@A" })).toThrow(
+      `Foundation character 'A' would be read as code. Use "#" or characters the lexer ignores, like "@" or "$"`
+    );
+    for (const foundation of ["1", "(", '"', "=", "/"]) {
+      expect(() => new FallingProcessor("x", { foundation })).toThrow(
+        `Foundation character '${foundation}'`
+      );
+    }
+  });
+
+  it("should let spaces inside strings support characters when enabled", () => {
+    const source = ` x
+" "
+###`;
+    const rules = { support: "vertical" as const };
+
+    expect(new FallingProcessor(source, rules).process()).toBe(`
+"x"
+###`);
+    expect(
+      new FallingProcessor(source, { ...rules, stringWhitespaceSupports: true }).process()
+    ).toBe(source);
+  });
+
+  it("should fill in defaults for missing rules", () => {
+    expect(new FallingProcessor("", { gravity: "left" }).getRules()).toEqual({
+      support: "diagonal",
+      gravity: "left",
+      foundation: "#",
+      stringWhitespaceSupports: false,
+      granular: false,
+    });
+  });
+});
+
+describe("FallingProcessor granular mode", () => {
+  it("should topple landing characters off to the left", () => {
+    const source = ` x
+
+ a
+###`;
+
+    expect(new FallingProcessor(source).process()).toBe("\n x\n a\n###");
+    expect(new FallingProcessor(source, { granular: true }).process()).toBe("\n\nxa\n###");
+  });
+
+  it("should topple to the right when the left is blocked", () => {
+    const source = ` x
+
+ba
+###`;
+
+    expect(new FallingProcessor(source, { granular: true }).process()).toBe("\n\nbax\n###");
+  });
+
+  it("should settle when both sides are blocked", () => {
+    const source = ` x
+
+bac
+###`;
+
+    expect(new FallingProcessor(source, { granular: true }).process()).toBe("\n x\nbac\n###");
+  });
+
+  it("should let characters topple off the edge of the program", () => {
+    const processor = new FallingProcessor(
+      ` x
+
+ # `,
+      { granular: true }
+    );
+    const simulation = processor.simulate();
+
+    expect(simulation.steps[0].moves[0].to).toBeNull();
+    expect(simulation.result).toBe("\n\n #");
+  });
+
+  it("should be deterministic", () => {
+    const source = `  abc
+   d
+
+  ef
+#######`;
+    const results = [1, 2, 3].map(() => new FallingProcessor(source, { granular: true }).process());
+
+    expect(new Set(results).size).toBe(1);
+  });
+});
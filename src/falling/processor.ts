@@ -9,73 +9,290 @@
  *
  * The foundation (# characters) never falls.
  * Unsupported characters fall until they land on another character or fall out.
+ *
+ * All of this can be changed with FallingRules. Internally the grid is walked
+ * in gravity-relative coordinates: a "layer" runs across the direction of
+ * gravity (a row when gravity is down), and a "lane" runs along it (a column
+ * when gravity is down). Characters fall towards higher layers.
  */
 
+import { SourceMap } from "./sourcemap.js";
+import {
+  FoundationError,
+  findCodeFoundationChar,
+  findFoundationGlyphs,
+  locateFoundation,
+} from "./foundation.js";
+
 export interface Position {
   row: number;
   col: number;
 }
 
+/**
+ * A single character moving during the fall
+ */
+export interface FallMove {
+  char: string;
+  from: Position;
+  to: Position | null; // null when the character fell out of the program
+}
+
+/**
+ * One line's worth of characters falling at once
+ */
+export interface FallStep {
+  iteration: number; // Which pass over the grid this step happened in (1-based)
+  row: number; // The line the characters fell from (a column when gravity is sideways)
+  moves: FallMove[];
+  grid: string[][]; // Grid snapshot after this step
+}
+
+/**
+ * The complete fall, from the original grid to the processed source
+ */
+export interface FallSimulation {
+  initial: string[][];
+  steps: FallStep[];
+  result: string;
+}
+
+export type SupportPattern = "vertical" | "diagonal" | "wide";
+
+export type GravityDirection = "down" | "up" | "left" | "right";
+
+/**
+ * Physics rules for falling characters
+ */
+export interface FallingRules {
+  /**
+   * Which cells beneath a character can support it:
+   * - vertical: only the cell directly below
+   * - diagonal: directly below or one lane to either side (default)
+   * - wide: directly below or up to two lanes to either side
+   */
+  support?: SupportPattern;
+  /** Direction characters fall in (default "down") */
+  gravity?: GravityDirection;
+  /**
+   * Characters that make up the foundation (default "#").
+   * Only "#" and characters the lexer ignores (like "@" or "$") are allowed,
+   * so the foundation line doesn't turn into code.
+   */
+  foundation?: string;
+  /** Whether spaces inside string literals count as support (default false) */
+  stringWhitespaceSupports?: boolean;
+  /**
+   * Sand mode (default false). A character that lands on top of another
+   * topples off it into an empty cell diagonally below, then keeps falling.
+   * It tries the left side first, then the right.
+   */
+  granular?: boolean;
+}
+
+export const DEFAULT_FALLING_RULES: Required<FallingRules> = {
+  support: "diagonal",
+  gravity: "down",
+  foundation: "#",
+  stringWhitespaceSupports: false,
+  granular: false,
+};
+
+// Lane offsets checked beneath a character for each support pattern
+export const SUPPORT_OFFSETS: Record<SupportPattern, number[]> = {
+  vertical: [0],
+  diagonal: [-1, 0, 1],
+  wide: [-2, -1, 0, 1, 2],
+};
+
+/**
+ * Work out which cells of a line are inside string literals.
+ * Only double quotes are tracked, and a quote that isn't closed on the same
+ * line doesn't start a string.
+ */
+export function stringMask(cells: readonly string[]): boolean[] {
+  const mask: boolean[] = [];
+  let open = -1;
+  for (let col = 0; col < cells.length; col++) {
+    if (cells[col] === '"') {
+      open = open === -1 ? col : -1;
+      mask.push(false);
+    } else {
+      mask.push(open !== -1);
+    }
+  }
+
+  if (open !== -1) {
+    mask.fill(false, open);
+  }
+  return mask;
+}
+
+/**
+ * Fill in defaults for missing rules, rejecting rules that can't work
+ */
+export function resolveFallingRules(rules: FallingRules = {}): Required<FallingRules> {
+  const resolved = { ...DEFAULT_FALLING_RULES, ...rules };
+  if (resolved.foundation.length === 0 || /\s/.test(resolved.foundation)) {
+    throw new Error("Foundation characters must be non-empty and cannot include whitespace");
+  }
+  const code = findCodeFoundationChar(resolved.foundation);
+  if (code !== null) {
+    throw new Error(
+      `Foundation character '${code}' would be read as code. Use "#" or characters the lexer ignores, like "@" or "$"`
+    );
+  }
+  return resolved;
+}
+
 export class FallingProcessor {
   private grid: string[][];
-  private foundationRow: number = -1;
+  // Original position of the character currently in each cell (null for spaces)
+  private origins: Array<Array<Position | null>>;
+  private rules: Required<FallingRules>;
+  // Layer (along gravity) holding the foundation, -1 if there is none
+  private foundationLayer: number = -1;
+  // Grid positions ("row,col") of the foundation characters on the foundation layer
+  private foundationCells: Set<string> = new Set();
+  private foundationError: FoundationError | null = null;
   private height: number;
   private width: number;
+  // Grid extent in gravity-relative coordinates
+  private layers: number;
+  private lanes: number;
+  // Which cells are inside string literals (only tracked when string whitespace supports)
+  private stringMask: boolean[][] | null = null;
   // Memoization for support checking to avoid infinite recursion
   private supportCache: Map<string, boolean> = new Map();
   // Track positions being checked to detect cycles
   private checkingStack: Set<string> = new Set();
+  private simulation: FallSimulation | null = null;
+
+  constructor(source: string, rules: FallingRules = {}) {
+    this.rules = resolveFallingRules(rules);
 
-  constructor(source: string) {
     // Convert source to a 2D grid of characters
     const lines = source.split("\n");
     this.height = lines.length;
     this.width = Math.max(...lines.map((l) => l.length), 0);
 
+    const vertical = this.rules.gravity === "down" || this.rules.gravity === "up";
+    this.layers = vertical ? this.height : this.width;
+    this.lanes = vertical ? this.width : this.height;
+
     // Initialize grid with spaces
     this.grid = [];
+    this.origins = [];
     for (let row = 0; row < this.height; row++) {
       this.grid[row] = [];
+      this.origins[row] = [];
       const line = lines[row] || "";
       for (let col = 0; col < this.width; col++) {
         this.grid[row][col] = col < line.length ? line[col] : " ";
+        this.origins[row][col] = this.grid[row][col] !== " " ? { row, col } : null;
       }
     }
 
-    // Find the foundation row (the row containing # characters)
-    this.findFoundation();
+    // Find the foundation (the line closest to the ground containing foundation characters)
+    this.findFoundation(source, lines);
   }
 
-  private findFoundation(): void {
-    for (let row = this.height - 1; row >= 0; row--) {
-      let inString = false;
-      for (let col = 0; col < this.width; col++) {
-        const char = this.grid[row][col];
+  /**
+   * Convert gravity-relative (layer, lane) coordinates to a grid position
+   */
+  private toGrid(layer: number, lane: number): Position {
+    return { row: this.rowOf(layer, lane), col: this.colOf(layer, lane) };
+  }
 
-        // Track string boundaries (simple: just double quotes)
-        if (char === '"') {
-          inString = !inString;
-          continue;
-        }
+  // The row and column of toGrid on their own, so the fall's hot loops don't allocate
+  private rowOf(layer: number, lane: number): number {
+    switch (this.rules.gravity) {
+      case "down":
+        return layer;
+      case "up":
+        return this.height - 1 - layer;
+      case "right":
+      case "left":
+        return lane;
+    }
+  }
 
-        // Only treat # as foundation if not inside a string
-        if (char === "#" && !inString) {
-          this.foundationRow = row;
-          return;
-        }
-      }
+  private colOf(layer: number, lane: number): number {
+    switch (this.rules.gravity) {
+      case "down":
+      case "up":
+        return lane;
+      case "right":
+        return layer;
+      case "left":
+        return this.width - 1 - layer;
     }
   }
 
-  private posKey(row: number, col: number): string {
-    return `${row},${col}`;
+  private charAt(layer: number, lane: number): string {
+    return this.grid[this.rowOf(layer, lane)][this.colOf(layer, lane)];
   }
 
   /**
-   * Check if a character at (row, col) is supported (recursively)
+   * Check if a cell holds something that can support (or block) a character
    */
-  private isSupported(row: number, col: number): boolean {
-    const key = this.posKey(row, col);
+  private isSolid(layer: number, lane: number): boolean {
+    const row = this.rowOf(layer, lane);
+    const col = this.colOf(layer, lane);
+    if (this.grid[row][col] !== " ") {
+      return true;
+    }
+    return this.rules.stringWhitespaceSupports && this.getStringMask()[row][col];
+  }
+
+  /**
+   * Get the layer a grid position is in (the inverse of toGrid)
+   */
+  private layerOf({ row, col }: Position): number {
+    switch (this.rules.gravity) {
+      case "down":
+        return row;
+      case "up":
+        return this.height - 1 - row;
+      case "right":
+        return col;
+      case "left":
+        return this.width - 1 - col;
+    }
+  }
+
+  /**
+   * Compute which cells are inside string literals, row by row
+   */
+  private computeStringMask(): boolean[][] {
+    return this.grid.map((cells) => stringMask(cells));
+  }
+
+  private getStringMask(): boolean[][] {
+    if (!this.stringMask) {
+      this.stringMask = this.computeStringMask();
+    }
+    return this.stringMask;
+  }
+
+  private findFoundation(source: string, lines: string[]): void {
+    const glyphs = findFoundationGlyphs(source, this.rules);
+    const location = locateFoundation(glyphs, (pos) => this.layerOf(pos), lines, this.rules);
+
+    this.foundationLayer = location.layer;
+    this.foundationCells = new Set(location.cells.map(({ row, col }) => `${row},${col}`));
+    this.foundationError = location.error;
+  }
+
+  private posKey(layer: number, lane: number): string {
+    return `${layer},${lane}`;
+  }
+
+  /**
+   * Check if a character at (layer, lane) is supported (recursively)
+   */
+  private isSupported(layer: number, lane: number): boolean {
+    const key = this.posKey(layer, lane);
 
     // Check cache first
     if (this.supportCache.has(key)) {
@@ -90,7 +307,7 @@ export class FallingProcessor {
     // Mark as being checked
     this.checkingStack.add(key);
 
-    const result = this.isSupportedInternal(row, col);
+    const result = this.isSupportedInternal(layer, lane);
 
     // Remove from checking stack and cache result
     this.checkingStack.delete(key);
@@ -99,43 +316,43 @@ export class FallingProcessor {
     return result;
   }
 
-  private isSupportedInternal(row: number, col: number): boolean {
-    // Space characters don't count
-    if (this.grid[row][col] === " ") {
+  private isSupportedInternal(layer: number, lane: number): boolean {
+    // Space characters don't count (unless they're string whitespace that supports)
+    if (!this.isSolid(layer, lane)) {
       return false;
     }
 
-    // Foundation characters are always supported
-    if (row === this.foundationRow && this.grid[row][col] === "#") {
-      return true;
+    // If no foundation exists, everything falls out
+    if (this.foundationLayer === -1) {
+      return false;
     }
 
-    // Characters on or below the foundation row (but not foundation itself) fall out
-    if (row >= this.foundationRow && this.foundationRow !== -1) {
-      return false;
+    // Foundation characters are always supported
+    if (layer === this.foundationLayer) {
+      const { row, col } = this.toGrid(layer, lane);
+      if (this.foundationCells.has(`${row},${col}`)) {
+        return true;
+      }
     }
 
-    // If no foundation exists, everything falls out
-    if (this.foundationRow === -1) {
+    // Characters on or below the foundation (but not foundation itself) fall out
+    if (layer >= this.foundationLayer) {
       return false;
     }
 
-    // Check the row below
-    const belowRow = row + 1;
-    if (belowRow >= this.height) {
+    // Check the layer below
+    const below = layer + 1;
+    if (below >= this.layers) {
       return false;
     }
 
-    // Check directly below and diagonally below
-    const positions = [col - 1, col, col + 1];
-    for (const checkCol of positions) {
-      if (checkCol >= 0 && checkCol < this.width) {
-        const below = this.grid[belowRow][checkCol];
-        if (below !== " " && below !== undefined) {
-          // RECURSIVELY check if the supporting character is itself supported
-          if (this.isSupported(belowRow, checkCol)) {
-            return true;
-          }
+    // Check the cells beneath allowed by the support pattern
+    for (const offset of SUPPORT_OFFSETS[this.rules.support]) {
+      const checkLane = lane + offset;
+      if (checkLane >= 0 && checkLane < this.lanes && this.isSolid(below, checkLane)) {
+        // RECURSIVELY check if the supporting character is itself supported
+        if (this.isSupported(below, checkLane)) {
+          return true;
         }
       }
     }
@@ -145,39 +362,127 @@ export class FallingProcessor {
 
   /**
    * Find where a character would land if it falls
-   * Returns the new row, or -1 if it falls out of the program
+   * Returns the new layer, or -1 if it falls out of the program
    *
-   * Characters fall STRAIGHT DOWN in their column until they hit something
+   * Characters fall STRAIGHT DOWN in their lane until they hit something
    */
-  private findLandingRow(startRow: number, col: number): number {
-    // Characters fall straight down in their own column
-    for (let row = startRow + 1; row < this.height; row++) {
-      const cell = this.grid[row][col];
-      if (cell !== " ") {
-        // Hit something, land one row above
-        return row - 1;
+  private findLandingLayer(startLayer: number, lane: number): number {
+    // Characters fall straight down in their own lane
+    for (let layer = startLayer + 1; layer < this.layers; layer++) {
+      if (this.isSolid(layer, lane)) {
+        // Hit something, land one layer above
+        return layer - 1;
       }
     }
 
-    // Nothing below in this column - fell out of the program
+    // Nothing below in this lane - fell out of the program
     return -1;
   }
 
+  /**
+   * Find where a falling character settles, including any sliding in granular mode
+   * Returns null if it falls out of the program
+   */
+  private findLanding(
+    startLayer: number,
+    startLane: number
+  ): { layer: number; lane: number } | null {
+    let lane = startLane;
+    let layer = this.findLandingLayer(startLayer, lane);
+
+    if (this.rules.granular) {
+      // Every slide drops the character at least one layer, so this always ends
+      while (layer !== -1) {
+        const slide = [-1, 1].find((side) => this.canSlide(layer, lane + side));
+        if (slide === undefined) {
+          break;
+        }
+        lane += slide;
+        layer = this.findLandingLayer(layer, lane);
+      }
+    }
+
+    return layer === -1 ? null : { layer, lane };
+  }
+
+  /**
+   * Check if a character resting at layer can topple into the given lane:
+   * both the cell beside it and the cell diagonally below must be empty
+   */
+  private canSlide(layer: number, lane: number): boolean {
+    if (lane < 0 || lane >= this.lanes || layer + 1 >= this.layers) {
+      return false;
+    }
+    return !this.isSolid(layer, lane) && !this.isSolid(layer + 1, lane);
+  }
+
   /**
    * Process the source code - make all unsupported characters fall
    * Returns the processed source code
    *
    * Characters fall one LINE at a time, from bottom to top.
+   * Throws a FoundationError if the foundation is missing or ambiguous.
    */
   process(): string {
-    if (this.foundationRow === -1) {
-      // No foundation - everything falls out, return empty
+    if (this.foundationError) {
+      throw this.foundationError;
+    }
+
+    if (this.foundationLayer === -1) {
+      // Empty program - nothing to process
       return "";
     }
 
+    // Run the simulation to completion - each step is applied to the grid as it's taken
+    const steps = this.fall();
+    while (!steps.next().done) {
+      // Keep stepping
+    }
+
+    // Convert grid back to string
+    return this.gridToString();
+  }
+
+  /**
+   * Step through the fall one line at a time.
+   * Each yielded step has already been applied to the grid, so callers can
+   * animate the fall by drawing step.grid (or applying step.moves) in order.
+   */
+  *steps(): Generator<FallStep> {
+    for (const step of this.fall()) {
+      yield { ...step, grid: this.getGrid() };
+    }
+  }
+
+  /**
+   * Run the whole fall and return it as a timeline of grid snapshots,
+   * for visualizations that want to animate characters falling.
+   * It settles the grid, so it's one-shot: call it before process(), and later
+   * calls return the first simulation.
+   */
+  simulate(): FallSimulation {
+    if (!this.simulation) {
+      const initial = this.getGrid();
+      const steps = [...this.steps()];
+      this.simulation = { initial, steps, result: this.process() };
+    }
+    return this.simulation;
+  }
+
+  /**
+   * Make unsupported characters fall, one line at a time from bottom to top,
+   * applying each line's moves to the grid before yielding them.
+   * Unlike steps(), this doesn't snapshot the grid, so process() stays fast.
+   */
+  private *fall(): Generator<Omit<FallStep, "grid">> {
+    if (this.foundationLayer === -1) {
+      return;
+    }
+
     let changed = true;
     let iterations = 0;
     const maxIterations = this.height * this.width; // Safety limit
+    const vertical = this.rules.gravity === "down" || this.rules.gravity === "up";
 
     while (changed && iterations < maxIterations) {
       changed = false;
@@ -187,42 +492,58 @@ export class FallingProcessor {
       this.supportCache.clear();
 
       // Process from BOTTOM to TOP, one line at a time
-      for (let row = this.foundationRow - 1; row >= 0; row--) {
+      for (let layer = this.foundationLayer - 1; layer >= 0; layer--) {
         // Collect all unsupported characters on THIS line
-        const toFall: Array<{ col: number; char: string }> = [];
+        const toFall: Array<{ lane: number; char: string; origin: Position | null }> = [];
 
-        for (let col = 0; col < this.width; col++) {
-          const char = this.grid[row][col];
-          if (char !== " " && !this.isSupported(row, col)) {
-            toFall.push({ col, char });
+        for (let lane = 0; lane < this.lanes; lane++) {
+          const char = this.charAt(layer, lane);
+          if (char !== " " && !this.isSupported(layer, lane)) {
+            const { row, col } = this.toGrid(layer, lane);
+            toFall.push({ lane, char, origin: this.origins[row][col] });
           }
         }
 
         if (toFall.length > 0) {
           // Remove all falling characters from this line at once
-          for (const { col } of toFall) {
+          for (const { lane } of toFall) {
+            const { row, col } = this.toGrid(layer, lane);
             this.grid[row][col] = " ";
+            this.origins[row][col] = null;
           }
+          this.stringMask = null;
 
           // Then place them at their landing positions
-          for (const { col, char } of toFall) {
-            const landingRow = this.findLandingRow(row, col);
-
-            if (landingRow >= 0 && landingRow < this.height) {
-              this.grid[landingRow][col] = char;
+          const moves: FallMove[] = [];
+          for (const { lane, char, origin } of toFall) {
+            const from = this.toGrid(layer, lane);
+            const landing = this.findLanding(layer, lane);
+
+            if (landing) {
+              const to = this.toGrid(landing.layer, landing.lane);
+              this.grid[to.row][to.col] = char;
+              this.origins[to.row][to.col] = origin;
+              moves.push({ char, from, to });
+            } else {
+              // No landing spot means the character fell out
+              moves.push({ char, from, to: null });
             }
-            // If landingRow is -1, the character fell out
           }
+          this.stringMask = null;
 
           changed = true;
           // Clear cache after each line processes since grid changed
           this.supportCache.clear();
+
+          const start = this.toGrid(layer, 0);
+          yield {
+            iteration: iterations,
+            row: vertical ? start.row : start.col,
+            moves,
+          };
         }
       }
     }
-
-    // Convert grid back to string
-    return this.gridToString();
   }
 
   /**
@@ -241,6 +562,18 @@ export class FallingProcessor {
     return this.grid.map((row) => [...row]);
   }
 
+  /**
+   * Get a source map from the current grid back to the original source.
+   * After process(), this maps every surviving character to where it started.
+   */
+  getSourceMap(): SourceMap {
+    // No foundation - process() returns an empty program, so nothing maps
+    if (this.foundationLayer === -1) {
+      return new SourceMap([]);
+    }
+    return new SourceMap(this.origins.map((row) => [...row]));
+  }
+
   /**
    * Get characters that will fall (for editor highlighting)
    * This returns positions BEFORE processing - i.e., unsupported chars
@@ -252,7 +585,7 @@ export class FallingProcessor {
     const unsupported: Position[] = [];
 
     // No foundation means everything falls
-    if (this.foundationRow === -1) {
+    if (this.foundationLayer === -1) {
       for (let row = 0; row < this.height; row++) {
         for (let col = 0; col < this.width; col++) {
           if (this.grid[row][col] !== " ") {
@@ -263,21 +596,42 @@ export class FallingProcessor {
       return unsupported;
     }
 
-    for (let row = 0; row < this.foundationRow; row++) {
-      for (let col = 0; col < this.width; col++) {
-        if (this.grid[row][col] !== " " && !this.isSupported(row, col)) {
-          unsupported.push({ row, col });
+    for (let layer = 0; layer < this.foundationLayer; layer++) {
+      for (let lane = 0; lane < this.lanes; lane++) {
+        if (this.charAt(layer, lane) !== " " && !this.isSupported(layer, lane)) {
+          unsupported.push(this.toGrid(layer, lane));
         }
       }
     }
 
-    return unsupported;
+    // Report in reading order regardless of gravity
+    return unsupported.sort((a, b) => a.row - b.row || a.col - b.col);
   }
 
   /**
-   * Get the foundation row index (-1 if no foundation)
+   * Get the foundation row index (-1 if no foundation).
+   * When gravity is sideways this is the foundation's column instead.
    */
   getFoundationRow(): number {
-    return this.foundationRow;
+    if (this.foundationLayer === -1) {
+      return -1;
+    }
+    const start = this.toGrid(this.foundationLayer, 0);
+    return this.rules.gravity === "down" || this.rules.gravity === "up" ? start.row : start.col;
+  }
+
+  /**
+   * Get the problem with the foundation, if there is one.
+   * Unlike process(), this doesn't throw, so editors can report it.
+   */
+  getFoundationError(): FoundationError | null {
+    return this.foundationError;
+  }
+
+  /**
+   * Get the rules this processor was created with (defaults filled in)
+   */
+  getRules(): Required<FallingRules> {
+    return { ...this.rules };
   }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { createFallReport } from "./report.js";
+
+describe("createFallReport", () => {
+  it("should report nothing when nothing falls", () => {
+    const report = createFallReport(`x = 1
+#####`);
+
+    expect(report.issues).toHaveLength(0);
+    expect(report.processed).toBe(`x = 1
+#####`);
+  });
+
+  it("should report identifiers that lost characters", () => {
+    const report = createFallReport(`player = 1
+####`);
+
+    const damaged = report.issues.find((i) => i.kind === "damaged")!;
+    expect(damaged.message).toBe("Identifier `player` on line 1 lost its `r`");
+    expect(damaged.severity).toBe("error");
+    expect(damaged.lost).toEqual([{ row: 0, col: 5 }]);
+  });
+
+  it("should report tokens that fell out of the program", () => {
+    const report = createFallReport(`player = 1
+####`);
+
+    const messages = report.issues.filter((i) => i.kind === "fell-out").map((i) => i.message);
+    expect(messages).toEqual([
+      "`=` on line 1 fell out of the program",
+      "Number `1` on line 1 fell out of the program",
+    ]);
+  });
+
+  it("should report truncated string literals", () => {
+    const report = createFallReport(`s = "abc"
+######`);
+
+    const truncated = report.issues.find((i) => i.kind === "truncated")!;
+    expect(truncated.message).toBe("String literal on line 1 was truncated");
+    expect(truncated.severity).toBe("error");
+    // Losing the closing quote leaves the processed source unterminated
+    const syntax = report.issues.find((i) => i.kind === "syntax")!;
+    expect(syntax).toMatchObject({ line: 1, column: 5, lexeme: '"ab' });
+    expect(syntax.lost).toEqual(truncated.lost);
+  });
+
+  it("should report tokens that fell and merged with others", () => {
+    const report = createFallReport(` b
+
+a
+##`);
+
+    const moved = report.issues.find((i) => i.kind === "moved")!;
+    expect(moved.message).toBe("Identifier `b` on line 1 fell to line 3");
+    expect(moved.severity).toBe("warning");
+
+    const merged = report.issues.find((i) => i.kind === "merged")!;
+    expect(merged.message).toBe("`a` and `b` landed together on line 3 and merged into `ab`");
+    expect(merged.severity).toBe("error");
+  });
+
+  it("should treat damaged comments as informational", () => {
+    const report = createFallReport(`// note
+###`);
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0].kind).toBe("damaged");
+    expect(report.issues[0].severity).toBe("info");
+  });
+
+  it("should report a missing foundation", () => {
+    const report = createFallReport("x = 1");
+
+    expect(report.processed).toBe("");
+    expect(report.issues).toEqual([
+      {
+        kind: "foundation",
+        severity: "error",
+        message: "No foundation found. Add a line of # characters at the bottom of the program",
+        line: 1,
+        column: 1,
+        lexeme: "",
+        lost: [],
+      },
+    ]);
+  });
+});
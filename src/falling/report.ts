@@ -0,0 +1,323 @@
+/**
+ * Fall Report for Ragelang
+ *
+ * Explains what falling did to a program in terms of tokens rather than raw
+ * cells: which identifiers lost letters, which delimiters fell out entirely,
+ * which string literals were truncated, and which tokens merged together.
+ */
+
+import { FallingProcessor, type FallingRules, type Position } from "./processor.js";
+import type { SourceMap } from "./sourcemap.js";
+import { RageSyntaxError } from "../diagnostics/diagnostic.js";
+import { Lexer } from "../lexer/lexer.js";
+import { TokenType, type Token } from "../lexer/tokens.js";
+
+export type FallSeverity = "error" | "warning" | "info";
+
+export type FallIssueKind =
+  | "fell-out" // Every character of the token fell out of the program
+  | "damaged" // Some characters of the token fell out
+  | "truncated" // A string literal lost characters
+  | "split" // Some characters of the token fell to another position
+  | "moved" // The whole token fell to another position
+  | "merged" // Characters from different tokens landed next to each other
+  | "syntax" // The processed source no longer tokenizes
+  | "foundation"; // The foundation is missing or ambiguous, so nothing can be processed
+
+export interface FallIssue {
+  kind: FallIssueKind;
+  severity: FallSeverity;
+  message: string;
+  line: number; // 1-based line in the original source
+  column: number; // 1-based column in the original source
+  lexeme: string; // The original token text (or the merged text for "merged")
+  lost: Position[]; // Original positions of characters that fell out
+}
+
+export interface FallReport {
+  source: string;
+  processed: string;
+  issues: FallIssue[];
+}
+
+interface CharFate {
+  char: string;
+  original: Position;
+  processed: Position | null;
+}
+
+// Tokens that are only structure for the falling rules, not program text
+const IGNORED_TOKENS = new Set([TokenType.NEWLINE, TokenType.EOF, TokenType.FOUNDATION]);
+
+/**
+ * Build a report of the semantic damage falling does to a program
+ */
+export function createFallReport(source: string, rules?: FallingRules): FallReport {
+  const processor = new FallingProcessor(source, rules);
+  const foundationError = processor.getFoundationError();
+  if (foundationError) {
+    const issue: FallIssue = {
+      kind: "foundation",
+      severity: "error",
+      message: foundationError.message,
+      line: foundationError.line,
+      column: foundationError.column,
+      lexeme: "",
+      lost: [],
+    };
+    return { source, processed: "", issues: [issue] };
+  }
+
+  const processed = processor.process();
+  const sourceMap = processor.getSourceMap();
+
+  const issues: FallIssue[] = [];
+  const originalTokens = scan(source).tokens.filter((t) => !IGNORED_TOKENS.has(t.type));
+
+  // Index which original token each character belongs to, for detecting merges
+  const tokenAt = new Map<string, number>();
+  originalTokens.forEach((token, index) => {
+    for (const pos of tokenPositions(token)) {
+      tokenAt.set(`${pos.row},${pos.col}`, index);
+    }
+  });
+
+  for (const token of originalTokens) {
+    const issue = tokenIssue(token, sourceMap);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+
+  // Lex the processed source (in original coordinates) to find new problems
+  const processedScan = scan(processed, sourceMap);
+  if (processedScan.error) {
+    issues.push(syntaxIssue(processedScan.error, processed, sourceMap, tokenAt, originalTokens));
+  }
+
+  for (const token of processedScan.tokens) {
+    if (IGNORED_TOKENS.has(token.type) || token.type === TokenType.COMMENT) continue;
+    const merged = mergeIssue(token, processed, sourceMap, tokenAt, originalTokens);
+    if (merged) {
+      issues.push(merged);
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { source, processed, issues };
+}
+
+/**
+ * Tokenize without throwing, keeping whatever was scanned before an error
+ */
+function scan(
+  source: string,
+  sourceMap?: SourceMap
+): { tokens: Token[]; error: RageSyntaxError | null } {
+  const lexer = new Lexer(source, { sourceMap });
+  try {
+    return { tokens: lexer.tokenize(), error: null };
+  } catch (error) {
+    if (!(error instanceof RageSyntaxError)) throw error;
+    return { tokens: lexer.getTokens(), error };
+  }
+}
+
+/**
+ * Get the 0-based positions of every non-space character in an original token
+ */
+function tokenPositions(token: Token): Position[] {
+  const parts = token.lexeme.split("\n");
+  // Multi-line strings report the line they end on, so walk back to where they start
+  const startRow = token.line - 1 - (parts.length - 1);
+  const positions: Position[] = [];
+
+  parts.forEach((part, i) => {
+    const startCol = i === 0 ? token.column - 1 : 0;
+    for (let j = 0; j < part.length; j++) {
+      if (part[j] !== " " && part[j] !== "\t" && part[j] !== "\r") {
+        positions.push({ row: startRow + i, col: startCol + j });
+      }
+    }
+  });
+
+  return positions;
+}
+
+function tokenFates(token: Token, sourceMap: SourceMap): CharFate[] {
+  const parts = token.lexeme.split("\n");
+  const startRow = token.line - 1 - (parts.length - 1);
+  return tokenPositions(token).map((original) => {
+    const part = parts[original.row - startRow];
+    const offset = original.row === startRow ? token.column - 1 : 0;
+    return {
+      char: part[original.col - offset],
+      original,
+      processed: sourceMap.toProcessed(original.row, original.col),
+    };
+  });
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case TokenType.IDENTIFIER:
+      return `identifier \`${token.lexeme}\``;
+    case TokenType.NUMBER:
+      return `number \`${token.lexeme}\``;
+    case TokenType.STRING:
+      return "string literal";
+    case TokenType.COMMENT:
+      return "comment";
+    default:
+      return `\`${token.lexeme}\``;
+  }
+}
+
+function tokenIssue(token: Token, sourceMap: SourceMap): FallIssue | null {
+  const fates = tokenFates(token, sourceMap);
+  if (fates.length === 0) return null;
+
+  const lost = fates.filter((f) => f.processed === null);
+  const moved = fates.filter(
+    (f) =>
+      f.processed !== null &&
+      (f.processed.row !== f.original.row || f.processed.col !== f.original.col)
+  );
+  if (lost.length === 0 && moved.length === 0) return null;
+
+  const isComment = token.type === TokenType.COMMENT;
+  const isString = token.type === TokenType.STRING;
+  // A string keeps its meaning as long as both quotes survive and stay together
+  const first = fates[0];
+  const last = fates[fates.length - 1];
+  const quotesIntact =
+    isString && first.processed !== null && last.processed !== null && sameOffset(first, last);
+  const name = describeToken(token);
+  const where = `on line ${token.line}`;
+
+  const issue = (kind: FallIssueKind, severity: FallSeverity, message: string): FallIssue => ({
+    kind,
+    severity: isComment ? "info" : severity,
+    message,
+    line: token.line,
+    column: token.column,
+    lexeme: token.lexeme,
+    lost: lost.map((f) => f.original),
+  });
+
+  if (lost.length === fates.length) {
+    return issue("fell-out", "error", `${capitalize(name)} ${where} fell out of the program`);
+  }
+
+  if (lost.length > 0) {
+    if (isString) {
+      return issue(
+        "truncated",
+        quotesIntact ? "warning" : "error",
+        `String literal ${where} was truncated`
+      );
+    }
+    const chars = lost.map((f) => `\`${f.char}\``).join(", ");
+    const its = lost.length === 1 ? "its " : "";
+    return issue("damaged", "error", `${capitalize(name)} ${where} lost ${its}${chars}`);
+  }
+
+  // Nothing was lost, but some characters moved
+  const target = moved[0].processed!;
+  if (moved.length === fates.length && moved.every((f) => sameOffset(f, moved[0]))) {
+    return issue("moved", "warning", `${capitalize(name)} ${where} fell to line ${target.row + 1}`);
+  }
+
+  const chars = moved.map((f) => `\`${f.char}\``).join(", ");
+  return issue(
+    "split",
+    isString && quotesIntact ? "warning" : "error",
+    `${capitalize(name)} ${where} was split: ${chars} fell to line ${target.row + 1}`
+  );
+}
+
+/**
+ * Check whether a processed token is made of characters from several original tokens
+ */
+function mergeIssue(
+  token: Token,
+  processed: string,
+  sourceMap: SourceMap,
+  tokenAt: Map<string, number>,
+  originalTokens: Token[]
+): FallIssue | null {
+  // Processed tokens come out of the lexer in original coordinates, so find the
+  // processed cells by walking the processed line the token's first char landed on
+  const start = sourceMap.toProcessed(token.line - 1, token.column - 1);
+  if (!start || token.lexeme.includes("\n")) return null;
+
+  const line = processed.split("\n")[start.row] ?? "";
+  const sources = new Set<number>();
+  for (let col = start.col; col < start.col + token.lexeme.length && col < line.length; col++) {
+    const original = sourceMap.toOriginal(start.row, col);
+    if (!original) continue;
+    const index = tokenAt.get(`${original.row},${original.col}`);
+    if (index !== undefined) sources.add(index);
+  }
+
+  if (sources.size < 2) return null;
+
+  const parts = [...sources].map((i) => `\`${originalTokens[i].lexeme}\``).join(" and ");
+  return {
+    kind: "merged",
+    severity: "error",
+    message: `${parts} landed together on line ${start.row + 1} and merged into \`${token.lexeme}\``,
+    line: token.line,
+    column: token.column,
+    lexeme: token.lexeme,
+    lost: [],
+  };
+}
+
+/**
+ * Report where the processed source stopped tokenizing, with the original
+ * token there and the characters it lost
+ */
+function syntaxIssue(
+  error: RageSyntaxError,
+  processed: string,
+  sourceMap: SourceMap,
+  tokenAt: Map<string, number>,
+  originalTokens: Token[]
+): FallIssue {
+  const { line, column, endColumn } = error.diagnostic;
+  // The diagnostic is in original coordinates, so find its text in the processed line
+  const start = sourceMap.toProcessed(line - 1, column - 1);
+  const processedLine = start ? (processed.split("\n")[start.row] ?? "") : "";
+  const lexeme = start ? processedLine.slice(start.col, start.col + endColumn - column) : "";
+  const index = tokenAt.get(`${line - 1},${column - 1}`);
+  const lost =
+    index === undefined
+      ? []
+      : tokenFates(originalTokens[index], sourceMap)
+          .filter((f) => f.processed === null)
+          .map((f) => f.original);
+
+  return {
+    kind: "syntax",
+    severity: "error",
+    message: `Processed source no longer tokenizes: ${error.message}`,
+    line,
+    column,
+    lexeme,
+    lost,
+  };
+}
+
+function sameOffset(a: CharFate, b: CharFate): boolean {
+  if (!a.processed || !b.processed) return false;
+  return (
+    a.processed.row - a.original.row === b.processed.row - b.original.row &&
+    a.processed.col - a.original.col === b.processed.col - b.original.col
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { Scaffolder } from "./scaffolder.js";
+import { FallingProcessor, type FallingRules } from "./processor.js";
+import { Lexer } from "../lexer/lexer.js";
+import { TokenType } from "../lexer/tokens.js";
+
+function codeTokens(source: string): string[] {
+  return new Lexer(source)
+    .tokenize()
+    .filter((t) => t.type !== TokenType.COMMENT && t.type !== TokenType.NEWLINE)
+    .map((t) => `${t.type}:${t.lexeme}`);
+}
+
+/**
+ * Scaffold a source and check that nothing falls and the code is unchanged
+ */
+function expectRoundTrip(source: string, rules: FallingRules = {}): string {
+  const scaffolded = new Scaffolder(source, rules).scaffold();
+  const processor = new FallingProcessor(scaffolded, rules);
+
+  expect(processor.getUnsupportedPositions()).toEqual([]);
+  expect(processor.process()).toBe(
+    scaffolded
+      .split("\n")
+      .map((line) => line.replace(/\s+$/, ""))
+      .join("\n")
+  );
+  expect(codeTokens(processor.process())).toEqual(codeTokens(source));
+  return scaffolded;
+}
+
+describe("Scaffolder", () => {
+  it("should leave programs that don't fall unchanged", () => {
+    const source = `x = 1
+print(x)
+#########`;
+
+    expect(new Scaffolder(source).scaffold()).toBe(source);
+  });
+
+  it("should insert a comment under a line that would fall", () => {
+    const source = `print(x)
+x = 10
+#########`;
+
+    expect(expectRoundTrip(source)).toBe(`print(x)
+ //  ||
+x = 10
+#########`);
+  });
+
+  it("should stack comments when the line above is much wider", () => {
+    const source = `print("hi")
+x = 100
+#######`;
+
+    expect(expectRoundTrip(source)).toBe(`print("hi")
+ //  |  ||
+  //  | |
+   //  |
+x = 100
+#######`);
+    expectRoundTrip(`value = compute(1, 2, 3)
+x
+####`);
+  });
+
+  it("should reuse blank lines instead of adding new ones", () => {
+    const source = `print(x)
+
+x = 10
+#########`;
+    const scaffolded = expectRoundTrip(source);
+
+    expect(scaffolded.split("\n")).toHaveLength(4);
+    expect(scaffolded.split("\n")[1].trim().startsWith("//")).toBe(true);
+  });
+
+  it("should keep blank lines at the top of the file", () => {
+    const source = `
+
+x = 1
+#####`;
+
+    expect(new Scaffolder(source).scaffold()).toBe(source);
+  });
+
+  it("should leave lines below the foundation alone", () => {
+    const source = `x = 1
+#####
+  stray`;
+
+    expect(new Scaffolder(source).scaffold()).toBe(source);
+  });
+
+  it("should respect the support rules", () => {
+    const source = `x = 1
+  ###`;
+
+    expectRoundTrip(source);
+    expectRoundTrip(source, { support: "wide" });
+    expectRoundTrip(
+      `x = 1
+@@@@@`,
+      { foundation: "@" }
+    );
+  });
+
+  it("should throw when a line can't be reached", () => {
+    expect(() =>
+      new Scaffolder(
+        `x = 1
+#`,
+        { support: "vertical" }
+      ).scaffold()
+    ).toThrow("Cannot scaffold line 1");
+  });
+
+  it("should throw when there is no foundation", () => {
+    expect(() => new Scaffolder("x = 1").scaffold()).toThrow("No foundation found");
+  });
+
+  it("should throw for gravity other than down", () => {
+    expect(() => new Scaffolder("x = 1\n#####", { gravity: "up" }).scaffold()).toThrow(
+      "Scaffolding only supports downward gravity"
+    );
+  });
+
+  it("should not insert comments inside multi-line strings", () => {
+    const source = `s = "a
+   long string"
+#############`;
+
+    expect(() => new Scaffolder(source).scaffold()).toThrow(
+      "Cannot scaffold line 2: it continues a multi-line string"
+    );
+  });
+
+  it("should rebuild the scaffolding of every example", () => {
+    const examplesDir = join(__dirname, "../../examples");
+    for (const file of readdirSync(examplesDir).filter((f) => f.endsWith(".rage"))) {
+      // Strip the hand-written comment-only scaffolding lines
+      const source = readFileSync(join(examplesDir, file), "utf-8")
+        .split("\n")
+        .filter((line) => !/^\s*\/\/[\s|]*$/.test(line))
+        .join("\n");
+
+      expectRoundTrip(source);
+    }
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Scaffolder for Ragelang
+ *
+ * Writing `// | | |` comment lines under code by hand so that nothing falls
+ * is most of the work of writing Ragelang. The scaffolder does it for you:
+ * working up from the foundation, it inserts comment-only lines under every
+ * line that would fall, so that every original character stays where it is.
+ *
+ * When the code above is wider than what's below, one comment line isn't
+ * enough (each line can only reach one column further out), so comments are
+ * stacked into a staircase. Blank lines are reused as comment lines, since a
+ * blank line can't hold anything up.
+ */
+
+import { SUPPORT_OFFSETS, resolveFallingRules, type FallingRules } from "./processor.js";
+import { findFoundationGlyphs, locateFoundation } from "./foundation.js";
+import { Lexer } from "../lexer/lexer.js";
+import { TokenType, type Token } from "../lexer/tokens.js";
+
+export class Scaffolder {
+  private lines: string[];
+  private rules: Required<FallingRules>;
+  private offsets: number[];
+
+  constructor(source: string, rules: FallingRules = {}) {
+    this.lines = source.split("\n");
+    this.rules = resolveFallingRules(rules);
+    this.offsets = SUPPORT_OFFSETS[this.rules.support];
+  }
+
+  /**
+   * Get the source with support comments added, so nothing falls
+   */
+  scaffold(): string {
+    if (this.rules.gravity !== "down") {
+      throw new Error("Scaffolding only supports downward gravity");
+    }
+
+    const source = this.lines.join("\n");
+    const foundation = locateFoundation(
+      findFoundationGlyphs(source, this.rules),
+      (pos) => pos.row,
+      this.lines,
+      this.rules
+    );
+    if (foundation.error) {
+      throw foundation.error;
+    }
+    // Empty programs have nothing to scaffold
+    if (foundation.layer === -1) {
+      return source;
+    }
+
+    const foundationRow = foundation.layer;
+    const continuesString = this.findStringContinuations();
+
+    // Build the lines above the foundation bottom-up, then flip them
+    const above: string[] = [];
+    const foundationCols = new Set(foundation.cells.map((pos) => pos.col));
+    let below = this.lines[foundationRow].split("").map((_, col) => foundationCols.has(col));
+    let blanks: string[] = [];
+
+    for (let row = foundationRow - 1; row >= 0; row--) {
+      const line = this.lines[row];
+
+      // Blank lines can be replaced, unless they're part of a string
+      if (line.trim() === "" && !continuesString.has(row)) {
+        blanks.push(line);
+        continue;
+      }
+
+      const target = this.occupied(line);
+      const layers = this.buildLayers(target, below, blanks.length, row);
+
+      if (layers.length > blanks.length && continuesString.has(row + 1)) {
+        throw new Error(`Cannot scaffold line ${row + 2}: it continues a multi-line string`);
+      }
+
+      above.push(...layers, line);
+      below = line.split("").map((c) => c !== " ");
+      blanks = [];
+    }
+
+    // Blank lines at the top have nothing above them to support
+    above.push(...blanks);
+
+    return [...above.reverse(), ...this.lines.slice(foundationRow)].join("\n");
+  }
+
+  /**
+   * Build the comment lines (bottom-up) needed to hold up a line
+   * @param target Columns of the line that need support
+   * @param below Which cells of the line underneath are supported
+   * @param minLayers Blank lines that have to be filled in
+   */
+  private buildLayers(
+    target: number[],
+    below: boolean[],
+    minLayers: number,
+    row: number
+  ): string[] {
+    let supportable = this.supportableFrom(this.occupied(below));
+    if (minLayers === 0 && this.covers(target, new Set(this.occupied(below)))) {
+      return [];
+    }
+
+    // Stack the widest possible comment lines until they reach every column above
+    const full: Array<Set<number>> = [];
+    // Each layer reaches at least one column further left, so this is enough unless it can't spread
+    const maxLayers = minLayers + this.width(target) + below.length + 1;
+    while (full.length < maxLayers) {
+      const start = this.commentStarts(supportable)[0];
+      if (start === undefined) {
+        break;
+      }
+
+      const cells = new Set([...supportable].filter((col) => col >= start));
+      full.push(cells);
+      if (full.length >= minLayers && this.covers(target, cells)) {
+        return this.pruneLayers(full, target);
+      }
+      supportable = this.supportableFrom([...cells]);
+    }
+
+    throw new Error(`Cannot scaffold line ${row + 1}: no comment can reach it`);
+  }
+
+  /**
+   * Trim full comment lines down to the cells that are actually needed,
+   * working from the top layer down. Returns the lines bottom-up.
+   */
+  private pruneLayers(full: Array<Set<number>>, target: number[]): string[] {
+    const maxOffset = Math.max(...this.offsets);
+    // Try the rightmost supports first, since comments can only extend right
+    const preference = [...this.offsets].sort((a, b) => b - a);
+    const layers: string[] = [];
+    let needed = target;
+
+    for (let j = full.length - 1; j >= 0; j--) {
+      const cells = full[j];
+
+      // Start the comment as far right as possible while still reaching the first column
+      const limit = needed.length > 0 ? Math.min(...needed) + maxOffset : Infinity;
+      const starts = this.commentStarts(cells).filter((col) => col <= limit);
+      const start = starts[starts.length - 1];
+
+      const chosen = new Set([start, start + 1]);
+      for (const col of needed) {
+        if (this.covers([col], chosen)) continue;
+        const support = preference
+          .map((offset) => col + offset)
+          .find((cell) => cells.has(cell) && cell >= start);
+        if (support === undefined) {
+          throw new Error(`Cannot support column ${col + 1}`);
+        }
+        chosen.add(support);
+      }
+
+      layers.push(this.commentLine(start, chosen));
+      needed = [...chosen].sort((a, b) => a - b);
+    }
+
+    return layers.reverse();
+  }
+
+  private commentLine(start: number, cells: Set<number>): string {
+    const width = Math.max(...cells) + 1;
+    let line = " ".repeat(start) + "//";
+    for (let col = start + 2; col < width; col++) {
+      line += cells.has(col) ? "|" : " ";
+    }
+    return line;
+  }
+
+  /**
+   * Columns where a comment could start (both slashes must be supported)
+   */
+  private commentStarts(cells: Set<number>): number[] {
+    return [...cells].filter((col) => cells.has(col + 1)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Columns a character could be placed in and be supported by the given cells
+   */
+  private supportableFrom(cells: number[]): Set<number> {
+    const supportable = new Set<number>();
+    for (const col of cells) {
+      for (const offset of this.offsets) {
+        if (col - offset >= 0) {
+          supportable.add(col - offset);
+        }
+      }
+    }
+    return supportable;
+  }
+
+  private covers(target: number[], cells: Set<number>): boolean {
+    return target.every((col) => this.offsets.some((offset) => cells.has(col + offset)));
+  }
+
+  private occupied(cells: string | boolean[]): number[] {
+    const occupied: number[] = [];
+    for (let col = 0; col < cells.length; col++) {
+      if (typeof cells === "string" ? cells[col] !== " " : cells[col]) {
+        occupied.push(col);
+      }
+    }
+    return occupied;
+  }
+
+  private width(cols: number[]): number {
+    return cols.length > 0 ? Math.max(...cols) + 1 : 0;
+  }
+
+  /**
+   * Find rows that continue a string from the row above, since nothing can
+   * be inserted before them without changing the string
+   */
+  private findStringContinuations(): Set<number> {
+    const lexer = new Lexer(this.lines.join("\n"));
+    let tokens: Token[];
+    try {
+      tokens = lexer.tokenize();
+    } catch {
+      tokens = lexer.getTokens();
+    }
+
+    const rows = new Set<number>();
+    for (const token of tokens) {
+      if (token.type !== TokenType.STRING) continue;
+      const extraLines = token.lexeme.split("\n").length - 1;
+      // Multi-line strings report the line they end on
+      for (let i = 0; i < extraLines; i++) {
+        rows.add(token.line - 1 - i);
+      }
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,58 @@
+import type { Position } from "./processor.js";
+
+/**
+ * Source Map for processed Ragelang source
+ *
+ * Falling rearranges characters, so a (row, col) in the processed source
+ * rarely matches the file the author wrote. The source map records, for
+ * every character that survived the fall, the position it started at.
+ */
+export class SourceMap {
+  private mappings: Array<Array<Position | null>>;
+  // Inverse lookup (original "row,col" -> processed position), built on first use
+  private inverse: Map<string, Position> | null = null;
+
+  constructor(mappings: Array<Array<Position | null>>) {
+    this.mappings = mappings;
+  }
+
+  /**
+   * Get the original position of the character at a processed (row, col).
+   * Returns null for empty cells and positions outside the processed grid.
+   */
+  toOriginal(row: number, col: number): Position | null {
+    return this.mappings[row]?.[col] ?? null;
+  }
+
+  /**
+   * Map a 1-based line/column (as used by tokens and error messages) back to
+   * the original source. Positions without a surviving character are returned
+   * unchanged.
+   */
+  mapLineColumn(line: number, column: number): { line: number; column: number } {
+    const original = this.toOriginal(line - 1, column - 1);
+    if (!original) {
+      return { line, column };
+    }
+    return { line: original.row + 1, column: original.col + 1 };
+  }
+
+  /**
+   * Get where the character written at an original (row, col) ended up.
+   * Returns null if the character fell out of the program (or was a space).
+   */
+  toProcessed(row: number, col: number): Position | null {
+    if (!this.inverse) {
+      this.inverse = new Map();
+      for (let r = 0; r < this.mappings.length; r++) {
+        for (let c = 0; c < this.mappings[r].length; c++) {
+          const original = this.mappings[r][c];
+          if (original) {
+            this.inverse.set(`${original.row},${original.col}`, { row: r, col: c });
+          }
+        }
+      }
+    }
+    return this.inverse.get(`${row},${col}`) ?? null;
+  }
+}
@@ -5,21 +5,102 @@
  * or they will fall until they land on another character or fall out entirely.
  */
 
-export { Lexer } from "./lexer/lexer.js";
+export { Lexer, type LexerOptions } from "./lexer/lexer.js";
 export { TokenType, type Token } from "./lexer/tokens.js";
 export { Parser } from "./parser/parser.js";
+export {
+  RageSyntaxError,
+  type Diagnostic,
+  type DiagnosticCode,
+  type DiagnosticSeverity,
+} from "./diagnostics/diagnostic.js";
 export * from "./parser/ast.js";
-export { FallingProcessor } from "./falling/processor.js";
-export { Interpreter } from "./runtime/interpreter.js";
+export {
+  FallingProcessor,
+  type Position,
+  type FallMove,
+  type FallStep,
+  type FallSimulation,
+  type FallingRules,
+  type SupportPattern,
+  type GravityDirection,
+  DEFAULT_FALLING_RULES,
+} from "./falling/processor.js";
+export { IncrementalFallingProcessor, type SourceEdit } from "./falling/incremental.js";
+export { FoundationError, type FoundationErrorCode } from "./falling/foundation.js";
+export { Scaffolder } from "./falling/scaffolder.js";
+export { SourceMap } from "./falling/sourcemap.js";
+export {
+  createFallReport,
+  type FallReport,
+  type FallIssue,
+  type FallIssueKind,
+  type FallSeverity,
+} from "./falling/report.js";
+export {
+  Interpreter,
+  type DebugFrame,
+  type DebugScope,
+  type DebugHook,
+} from "./runtime/interpreter.js";
+export {
+  Debugger,
+  describeValue,
+  findStatementLines,
+  type Breakpoint,
+  type PauseEvent,
+  type PauseReason,
+  type DebugAction,
+} from "./runtime/debugger.js";
+export type { RageValue, RagePrototype } from "./runtime/builtins.js";
+export {
+  RageRuntimeError,
+  RageLimitError,
+  type StackFrame,
+  type GameBlock,
+} from "./runtime/errors.js";
+export { DEFAULT_LIMITS, type ExecutionLimits } from "./runtime/limits.js";
+export type { HostFunction, HostBuiltinOptions } from "./runtime/host.js";
+export {
+  BUILTINS,
+  BUILTIN_CATEGORIES,
+  getBuiltinSpec,
+  formatSignature,
+  type BuiltinSpec,
+  type BuiltinParam,
+  type BuiltinCategory,
+  type ValueType,
+} from "./runtime/registry.js";
 export { CanvasRenderer } from "./renderer/canvas.js";
+export { RecordingRenderer } from "./renderer/recording.js";
+export type { Renderer, DrawCommand, RenderOptions } from "./renderer/renderer.js";
+export {
+  describeErrorForOverlay,
+  type ErrorOverlayOptions,
+  type ErrorOverlayContent,
+} from "./renderer/overlay.js";
 export { AudioManager } from "./audio/audio.js";
 export { InputManager } from "./input/input.js";
+export type { InputReplay, InputFrame, GamepadSnapshot } from "./input/replay.js";
 
-import { FallingProcessor } from "./falling/processor.js";
+import { FallingProcessor, type FallingRules } from "./falling/processor.js";
 import { Lexer } from "./lexer/lexer.js";
 import { Parser } from "./parser/parser.js";
 import { Interpreter } from "./runtime/interpreter.js";
-import { CanvasRenderer, type RenderContext } from "./renderer/canvas.js";
+import { Debugger } from "./runtime/debugger.js";
+import type { RageValue } from "./runtime/builtins.js";
+import type { RageLimitError } from "./runtime/errors.js";
+import type { ExecutionLimits } from "./runtime/limits.js";
+import type { HostBuiltinOptions, HostFunction } from "./runtime/host.js";
+import { CanvasRenderer } from "./renderer/canvas.js";
+import type { RenderContext, Renderer } from "./renderer/renderer.js";
+import { InputManager } from "./input/input.js";
+import type { InputReplay } from "./input/replay.js";
+import {
+  DEFAULT_ERROR_OVERLAY,
+  describeErrorForOverlay,
+  type ErrorOverlayOptions,
+} from "./renderer/overlay.js";
 
 export interface RagelangOptions {
   canvas?: HTMLCanvasElement | null;
@@ -27,6 +108,37 @@ export interface RagelangOptions {
   height?: number;
   /** Base path for resolving scene paths in load_scene() */
   basePath?: string;
+  /**
+   * Called when the game loop stops because of an error, or a scene fails to load.
+   * Runtime errors are RageRuntimeErrors, with the Ragelang call stack.
+   */
+  onError?: (error: Error) => void;
+  /**
+   * Draw an error overlay on the canvas when the game crashes, with a key to
+   * restart the scene (true by default). Set to false to leave the canvas alone.
+   */
+  errorOverlay?: boolean | ErrorOverlayOptions;
+  /**
+   * Draw with this renderer instead of the canvas, like a RecordingRenderer
+   * to check what a game draws in tests
+   */
+  renderer?: Renderer;
+  /**
+   * Seconds per update (like 1/60). Updates then run at this fixed rate,
+   * however fast the screen refreshes, so physics behaves the same everywhere.
+   * Use frame_alpha() in draw to smooth movement between updates.
+   */
+  fixedTimestep?: number;
+  /** Seed for random() and randomInt(), so every run (and restart) makes the same choices */
+  seed?: number;
+  /**
+   * Limits that stop runaway code (like a loop that never breaks) with a
+   * RageLimitError instead of hanging the page. Set pauseOnExceeded to pause
+   * the game instead, so it can be resumed.
+   */
+  limits?: ExecutionLimits;
+  /** Called when the game pauses because it hit a limit (with pauseOnExceeded) */
+  onPause?: (error: RageLimitError) => void;
 }
 
 /**
@@ -34,24 +146,125 @@ export interface RagelangOptions {
  */
 export class Ragelang {
   private interpreter: Interpreter;
-  private renderer: CanvasRenderer;
+  private renderer: Renderer;
   private canvas: HTMLCanvasElement | null;
   private basePath: string;
   private isRunning: boolean = false;
+  private onError: ((error: Error) => void) | null;
+  private inputManager: InputManager;
+  private seed: number | undefined;
+  private recordingSeed: number | undefined;
+  private onPause: ((error: RageLimitError) => void) | null;
+  private paused: boolean = false;
+
+  // The scene that's running, so it can be restarted
+  private source: string = "";
+  private rules: FallingRules | undefined;
+
+  // Error overlay
+  private overlayStyle: Required<ErrorOverlayOptions> | null;
+  private overlayFrameId: number | null = null;
+  private showingError: boolean = false;
 
   constructor(options: RagelangOptions = {}) {
     this.canvas = options.canvas ?? null;
     this.basePath = options.basePath ?? "";
-    this.renderer = new CanvasRenderer(this.canvas, {
-      width: options.width ?? 800,
-      height: options.height ?? 600,
+    this.onError = options.onError ?? null;
+    const overlay = options.errorOverlay ?? true;
+    this.overlayStyle =
+      overlay === false ? null : { ...DEFAULT_ERROR_OVERLAY, ...(overlay === true ? {} : overlay) };
+    this.renderer =
+      options.renderer ??
+      new CanvasRenderer(this.canvas, {
+        width: options.width ?? 800,
+        height: options.height ?? 600,
+      });
+    this.inputManager = new InputManager();
+    this.interpreter = new Interpreter(this.renderer, this.inputManager);
+    this.interpreter.setFixedTimestep(options.fixedTimestep ?? null);
+    this.seed = options.seed;
+    this.interpreter.setSeed(this.seed ?? null);
+    this.onPause = options.onPause ?? null;
+    this.interpreter.setLimits(options.limits ?? {});
+    this.interpreter.setOnPause((error: RageLimitError) => {
+      this.isRunning = false;
+      this.paused = true;
+      this.onPause?.(error);
     });
-    this.interpreter = new Interpreter(this.renderer);
 
     // Set up internal scene change handling
     this.interpreter.setOnSceneChange((path: string) => {
       this.handleSceneChange(path);
     });
+
+    // Without a handler or overlay, errors are thrown out of the game loop as before
+    if (this.handlesErrors()) {
+      this.interpreter.setOnError((error: Error) => this.handleError(error));
+    } else {
+      this.interpreter.setOnStop(() => {
+        this.isRunning = false;
+      });
+    }
+  }
+
+  private handlesErrors(): boolean {
+    return this.onError !== null || this.overlayStyle !== null;
+  }
+
+  /**
+   * Report an error that stopped the game, and show the overlay if it's enabled
+   */
+  private handleError(error: Error): void {
+    this.isRunning = false;
+    this.onError?.(error);
+    if (this.overlayStyle && this.canShowOverlay()) {
+      this.showErrorOverlay(error, this.overlayStyle);
+    }
+  }
+
+  /**
+   * Check the overlay can be drawn, which needs animation frames (so not
+   * headless in Node)
+   */
+  private canShowOverlay(): boolean {
+    return typeof requestAnimationFrame !== "undefined";
+  }
+
+  /**
+   * Draw the error overlay every frame until the restart key is pressed
+   */
+  private showErrorOverlay(error: Error, style: Required<ErrorOverlayOptions>): void {
+    this.hideErrorOverlay();
+    const content = describeErrorForOverlay(error, this.source, style.restartKey);
+    this.showingError = true;
+
+    const waitForRestart = (): void => {
+      if (!this.showingError) return;
+
+      this.inputManager.update();
+      if (this.inputManager.keyPressed(style.restartKey)) {
+        try {
+          this.restart();
+        } catch (e) {
+          this.handleError(e instanceof Error ? e : new Error(String(e)));
+        }
+        return;
+      }
+
+      this.renderer.errorOverlay(content, style);
+      this.overlayFrameId = requestAnimationFrame(waitForRestart);
+    };
+
+    this.renderer.errorOverlay(content, style);
+    this.overlayFrameId = requestAnimationFrame(waitForRestart);
+  }
+
+  private hideErrorOverlay(): void {
+    this.showingError = false;
+    if (this.overlayFrameId !== null) {
+      cancelAnimationFrame(this.overlayFrameId);
+      this.overlayFrameId = null;
+    }
   }
 
   /**
@@ -69,16 +282,19 @@ export class Ragelang {
       }
       const code = await response.text();
 
-      // Stop current game
-      this.stop();
-
-      // Reset the interpreter for the new scene
-      this.interpreter.reset();
-
-      // Run the new scene
-      this.run(code);
-      this.start();
+      // Replace the current game with the new scene
+      this.load(code, this.rules);
     } catch (error) {
+      // Nothing awaits this, so errors are reported here and never thrown
+      if (this.onError || (this.overlayStyle && this.canShowOverlay())) {
+        try {
+          this.handleError(error instanceof Error ? error : new Error(String(error)));
+          return;
+        } catch (handlerError) {
+          console.error("Error handler failed:", handlerError);
+        }
+      }
+      this.isRunning = false;
       console.error(`Failed to load scene "${path}":`, error);
     }
   }
@@ -99,15 +315,18 @@ export class Ragelang {
   }
 
   /**
-   * Run a Ragelang program
+   * Run a Ragelang program, optionally with custom falling rules
    */
-  run(source: string): void {
+  run(source: string, rules?: FallingRules): void {
+    this.source = source;
+    this.rules = rules;
+
     // Step 1: Process falling characters
-    const processor = new FallingProcessor(source);
+    const processor = new FallingProcessor(source, rules);
     const processedSource = processor.process();
 
-    // Step 2: Tokenize
-    const lexer = new Lexer(processedSource);
+    // Step 2: Tokenize, reporting positions in the original source
+    const lexer = new Lexer(processedSource, { sourceMap: processor.getSourceMap() });
     const tokens = lexer.tokenize();
 
     // Step 3: Parse
@@ -121,8 +340,8 @@ export class Ragelang {
   /**
    * Get the processed source after falling characters
    */
-  processSource(source: string): string {
-    const processor = new FallingProcessor(source);
+  processSource(source: string, rules?: FallingRules): string {
+    const processor = new FallingProcessor(source, rules);
     return processor.process();
   }
 
@@ -131,15 +350,156 @@ export class Ragelang {
    */
   start(): void {
     this.isRunning = true;
+    this.paused = false;
     this.interpreter.startGameLoop();
   }
 
   /**
-   * Stop the game loop
+   * Stop the game loop (and stop showing the error overlay, if it's up)
    */
   stop(): void {
     this.isRunning = false;
+    this.paused = false;
     this.interpreter.stopGameLoop();
+    this.hideErrorOverlay();
+  }
+
+  /**
+   * Run the current scene again from the start
+   */
+  restart(): void {
+    this.load(this.source, this.rules);
+  }
+
+  /**
+   * Replace the game with new code and start it, keeping the canvas and input
+   * (like a scene change, or reloading a game after an edit). If the code
+   * fails to run, the error is thrown and the game stays stopped.
+   */
+  load(source: string, rules?: FallingRules): void {
+    this.stop();
+    this.interpreter.reset();
+    this.run(source, rules);
+    this.start();
+  }
+
+  /**
+   * Restart the current scene and record its input, frame by frame, until
+   * stopRecording(). Random numbers are seeded (with the `seed` option, if
+   * there is one) so that playing the replay makes the same choices.
+   */
+  startRecording(): void {
+    const wasRunning = this.isRunning;
+    this.recordingSeed = this.seed ?? Math.floor(Math.random() * 2 ** 32);
+    this.restartWithSeed(this.recordingSeed);
+    this.inputManager.startRecording();
+    if (wasRunning) {
+      this.start();
+    }
+  }
+
+  /**
+   * Stop recording and get the replay, which can be saved as JSON
+   */
+  stopRecording(): InputReplay {
+    return { ...this.inputManager.stopRecording(), seed: this.recordingSeed };
+  }
+
+  /**
+   * Restart the current scene and play a replay in the game loop, with each
+   * update getting the input and dt it was recorded with
+   */
+  playReplay(replay: InputReplay): void {
+    this.restartWithSeed(replay.seed ?? this.seed);
+    this.interpreter.playReplay(replay);
+    this.start();
+  }
+
+  /**
+   * Restart the current scene and play a whole replay headlessly, to check
+   * where it ends up (like with getGlobal())
+   */
+  runReplay(replay: InputReplay): void {
+    this.restartWithSeed(replay.seed ?? this.seed);
+    this.interpreter.runReplay(replay);
+  }
+
+  /**
+   * Run the current scene again from the start, without starting the game loop.
+   * The seed is only for this run; later restarts go back to the `seed` option.
+   */
+  private restartWithSeed(seed: number | undefined): void {
+    this.stop();
+    this.interpreter.reset(seed ?? null);
+    this.run(this.source, this.rules);
+  }
+
+  /**
+   * Check if the error overlay is being shown
+   */
+  isShowingError(): boolean {
+    return this.showingError;
+  }
+
+  /**
+   * Run one frame without the browser game loop, for running games headlessly
+   * (like in tests). Errors are thrown instead of shown.
+   * @param dt Seconds since the last frame
+   */
+  tick(dt: number): void {
+    this.interpreter.tick(dt);
+  }
+
+  /**
+   * Run several frames headlessly
+   * @param dt Seconds per frame (defaults to 60 frames per second)
+   */
+  runFrames(count: number, dt?: number): void {
+    this.interpreter.runFrames(count, dt);
+  }
+
+  /**
+   * Get the input manager, to script input for headless games
+   */
+  getInput(): InputManager {
+    return this.inputManager;
+  }
+
+  /**
+   * Get the value of a global variable in the running program
+   */
+  getGlobal(name: string): RageValue | undefined {
+    return this.interpreter.getGlobal(name);
+  }
+
+  /**
+   * Give games a function of the page's, called like any builtin. Naming its
+   * parameters lets games pass them by keyword, and leave out those with
+   * defaults. It stays through restarts and scene changes.
+   * @example
+   * ragelang.registerBuiltin("unlock", (id) => achievements.unlock(id), { params: ["id"] });
+   */
+  registerBuiltin(name: string, fn: HostFunction, options?: HostBuiltinOptions): void {
+    this.interpreter.registerBuiltin(name, fn, options);
+  }
+
+  /**
+   * Give games a group of the page's functions and values, used like
+   * `leaderboard.submit(score)`
+   * @param options Options for each function, by member name
+   * @example
+   * ragelang.registerModule(
+   *   "leaderboard",
+   *   { submit: (score, name) => api.submit(score, name), size: 10 },
+   *   { submit: { params: ["score", "name"], defaults: { name: "anonymous" } } }
+   * );
+   */
+  registerModule(
+    name: string,
+    members: Record<string, HostFunction | RageValue>,
+    options?: Record<string, HostBuiltinOptions>
+  ): void {
+    this.interpreter.registerModule(name, members, options);
   }
 
   /**
@@ -149,6 +509,30 @@ export class Ragelang {
     return this.renderer.getContext();
   }
 
+  /**
+   * Attach a debugger to the game, for breakpoints, stepping and inspecting
+   * variables. Detach it when done, since it slows every statement down.
+   */
+  debug(): Debugger {
+    return new Debugger(this.interpreter);
+  }
+
+  /**
+   * Check if the game is paused because it hit a limit
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Resume a game that paused because it hit a limit, from the next frame.
+   * The frame that hit the limit was cut short.
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.start();
+  }
+
   /**
    * Check if game loop is running
    */
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { InputManager } from "./input.js";
+import type { InputReplay } from "./replay.js";
+import { Interpreter } from "../runtime/interpreter.js";
+import { RecordingRenderer } from "../renderer/recording.js";
+
+describe("Input recording", () => {
+  it("should only record what changed each frame", () => {
+    const input = new InputManager();
+    input.startRecording();
+
+    input.press("right");
+    input.update();
+    input.recordFrame(0.016);
+    input.update();
+    input.recordFrame(0.016);
+    input.release("right");
+    input.update();
+    input.recordFrame(0.017);
+
+    expect(input.stopRecording()).toEqual({
+      version: 1,
+      frames: [
+        { dt: 0.016, keys: ["ArrowRight"], pressed: ["ArrowRight"] },
+        { dt: 0.016 },
+        { dt: 0.017, keys: [], released: ["ArrowRight"] },
+      ],
+    });
+    expect(input.isRecording()).toBe(false);
+  });
+
+  it("should not record frames unless recording", () => {
+    const input = new InputManager();
+    input.update();
+    input.recordFrame(0.016);
+
+    expect(() => input.stopRecording()).toThrow("Input isn't being recorded");
+  });
+});
+
+describe("Input replay", () => {
+  const replay: InputReplay = {
+    version: 1,
+    frames: [
+      { dt: 0.016, keys: ["Space"], pressed: ["Space"], mouse: [10, 20], buttons: [0] },
+      { dt: 0.016, gamepad: { buttons: [0], axes: [-1, 0] } },
+      { dt: 0.016, keys: [], released: ["Space"], touches: [[5, 6]], touchStarted: true },
+    ],
+  };
+
+  it("should read each frame of the replay instead of the real input", () => {
+    const input = new InputManager();
+    input.playReplay(replay);
+    expect(input.nextReplayDt()).toBe(0.016);
+
+    input.press("left"); // Ignored while replaying
+    input.update();
+    expect(input.pressed("jump")).toBe(true);
+    expect(input.held("left")).toBe(false);
+    expect(input.getMouseX()).toBe(10);
+    expect(input.mouseHeld(0)).toBe(true);
+
+    input.update();
+    expect(input.pressed("jump")).toBe(true); // Gamepad A
+    expect(input.keyPressed("space")).toBe(false);
+    expect(input.held("left")).toBe(true); // Left stick
+    expect(input.getMouseY()).toBe(20);
+
+    input.update();
+    expect(input.released("jump")).toBe(true);
+    expect(input.pressed("jump")).toBe(false);
+    expect(input.getTouchPosition(0)).toEqual({ x: 5, y: 6 });
+    expect(input.mousePressed(0)).toBe(true); // The touch
+    expect(input.isReplaying()).toBe(false);
+    expect(input.nextReplayDt()).toBeNull();
+  });
+
+  it("should go back to the real input after the replay, with nothing held", () => {
+    const input = new InputManager();
+    input.playReplay({ version: 1, frames: [{ dt: 0.016, keys: ["KeyD"] }] });
+    input.update();
+    expect(input.held("right")).toBe(true);
+
+    input.update();
+    expect(input.held("right")).toBe(false);
+
+    input.press("up");
+    input.update();
+    expect(input.pressed("up")).toBe(true);
+  });
+
+  it("should play back what it recorded", () => {
+    const recorder = new InputManager();
+    recorder.startRecording();
+    const seen: boolean[][] = [];
+    const script = [["jump"], [], ["right"], [], []];
+    for (const keys of script) {
+      recorder.releaseAll();
+      keys.forEach((key) => recorder.press(key));
+      recorder.update();
+      recorder.recordFrame(1 / 60);
+      seen.push([recorder.pressed("jump"), recorder.held("right"), recorder.released("right")]);
+    }
+
+    const player = new InputManager();
+    player.playReplay(JSON.parse(JSON.stringify(recorder.stopRecording())));
+    const replayed: boolean[][] = [];
+    while (player.isReplaying()) {
+      player.update();
+      replayed.push([player.pressed("jump"), player.held("right"), player.released("right")]);
+    }
+
+    expect(replayed).toEqual(seen);
+  });
+
+  it("should reject replays it can't play", () => {
+    const input = new InputManager();
+    expect(() => input.playReplay({ version: 2, frames: [] })).toThrow(
+      "Unsupported replay version: 2"
+    );
+    expect(() => input.playReplay({ version: 1, frames: [{ dt: -1 }] })).toThrow(
+      "Replay frames must each have a dt of 0 or more seconds"
+    );
+  });
+});
+
+describe("Input buffers", () => {
+  it("should expire by the clock option, also when an interpreter runs the input", () => {
+    let now = 1000;
+    const input = new InputManager({ clock: () => now });
+    new Interpreter(new RecordingRenderer({ width: 10, height: 10 }), input);
+
+    input.bufferInput("jump", 0.1);
+    expect(input.getBufferTime("jump")).toBeCloseTo(0.1);
+    now += 150;
+    expect(input.peekBuffer("jump")).toBe(false);
+  });
+});
@@ -3,8 +3,22 @@
  * Handles keyboard, mouse, touch, and gamepad input
  */
 
+import {
+  EMPTY_SNAPSHOT,
+  decodeFrame,
+  encodeFrame,
+  validateReplay,
+  REPLAY_VERSION,
+  type GamepadSnapshot,
+  type InputFrame,
+  type InputReplay,
+  type InputSnapshot,
+} from "./replay.js";
+
 export interface InputOptions {
   canvas?: HTMLCanvasElement | null;
+  /** Current time in milliseconds, for input buffers (defaults to performance.now()) */
+  clock?: () => number;
 }
 
 // Action mappings for unified input
@@ -70,17 +84,27 @@ export class InputManager {
   private touchJustEndedBuffer: boolean = false;
   private touchJustEnded: boolean = false;
 
-  // Gamepad state
+  // Gamepad state (polled once per frame)
   private gamepadIndex: number | null = null;
-  private prevGamepadButtons: boolean[] = [];
+  private gamepad: GamepadSnapshot | null = null;
+  private prevGamepadButtons: number[] = [];
 
   // Input buffer for platformer mechanics (action -> expiry timestamp)
   private inputBuffer: Map<string, number> = new Map();
 
   // Frame tracking
   private initialized: boolean = false;
+  private clock: () => number;
+
+  // Replays
+  private recording: InputFrame[] | null = null;
+  private lastRecorded: InputSnapshot = EMPTY_SNAPSHOT;
+  private replay: InputFrame[] | null = null;
+  private replayIndex: number = 0;
+  private lastReplayed: InputSnapshot = EMPTY_SNAPSHOT;
 
   constructor(options: InputOptions = {}) {
+    this.clock = options.clock ?? (() => performance.now());
     if (options.canvas) {
       this.setCanvas(options.canvas);
     }
@@ -133,6 +157,16 @@ export class InputManager {
    * then get swapped to the readable state at frame start.
    */
   update(): void {
+    // A replay replaces the input until it runs out
+    if (this.replay !== null) {
+      if (this.replayIndex < this.replay.length) {
+        this.lastReplayed = decodeFrame(this.lastReplayed, this.replay[this.replayIndex++]);
+        this.applySnapshot(this.lastReplayed);
+        return;
+      }
+      this.stopReplay();
+    }
+
     // Swap buffers: move accumulated input to readable state
     // Keyboard
     this.keysPressed = this.keysPressedBuffer;
@@ -278,6 +312,169 @@ export class InputManager {
     return key;
   }
 
+  // ============ Scripted Input ============
+
+  /**
+   * Press a key as if it came from the keyboard, until release() is called.
+   * Takes the same names as keyHeld() (like "a" or "space") or an action
+   * like "jump", which presses its first key. Takes effect at the next update().
+   */
+  press(key: string): void {
+    const code = this.scriptedKeyCode(key);
+    if (!this.keysDown.has(code)) {
+      this.keysPressedBuffer.add(code);
+    }
+    this.keysDown.add(code);
+  }
+
+  /**
+   * Release a key pressed with press() (or held on the keyboard)
+   */
+  release(key: string): void {
+    const code = this.scriptedKeyCode(key);
+    if (this.keysDown.delete(code)) {
+      this.keysReleasedBuffer.add(code);
+    }
+  }
+
+  /**
+   * Release every key that's held
+   */
+  releaseAll(): void {
+    for (const code of this.keysDown) {
+      this.keysReleasedBuffer.add(code);
+    }
+    this.keysDown.clear();
+  }
+
+  /**
+   * Use a different clock for input buffers, like simulated time in tests
+   */
+  setClock(clock: () => number): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Get the clock input buffers use
+   */
+  getClock(): () => number {
+    return this.clock;
+  }
+
+  private scriptedKeyCode(key: string): string {
+    const actionKeys = ACTION_KEYS[key.toLowerCase()];
+    return actionKeys ? actionKeys[0] : this.normalizeKey(key);
+  }
+
+  // ============ Recording and Replay ============
+
+  /**
+   * Start recording the input of every frame (see recordFrame())
+   */
+  startRecording(): void {
+    this.recording = [];
+    this.lastRecorded = EMPTY_SNAPSHOT;
+  }
+
+  /**
+   * Stop recording and get the replay
+   */
+  stopRecording(): InputReplay {
+    if (this.recording === null) {
+      throw new Error("Input isn't being recorded");
+    }
+    const replay: InputReplay = { version: REPLAY_VERSION, frames: this.recording };
+    this.recording = null;
+    return replay;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Record this frame's input, if recording - call this after update()
+   * @param dt Seconds the frame simulates
+   */
+  recordFrame(dt: number): void {
+    if (this.recording === null) return;
+    const snapshot = this.snapshot();
+    this.recording.push(encodeFrame(this.lastRecorded, snapshot, dt));
+    this.lastRecorded = snapshot;
+  }
+
+  /**
+   * Play a replay: each update() from now on reads the next frame of the
+   * replay instead of the real input, until the replay runs out
+   */
+  playReplay(replay: InputReplay): void {
+    validateReplay(replay);
+    this.replay = replay.frames;
+    this.replayIndex = 0;
+    this.lastReplayed = EMPTY_SNAPSHOT;
+  }
+
+  /**
+   * Check if a replay has frames left to play
+   */
+  isReplaying(): boolean {
+    return this.replay !== null && this.replayIndex < this.replay.length;
+  }
+
+  /**
+   * Get the dt of the next replay frame, or null if no replay is playing
+   */
+  nextReplayDt(): number | null {
+    return this.isReplaying() ? this.replay![this.replayIndex].dt : null;
+  }
+
+  /**
+   * Stop playing a replay and go back to the real input, with nothing held
+   */
+  stopReplay(): void {
+    this.replay = null;
+    this.applySnapshot(EMPTY_SNAPSHOT);
+  }
+
+  private snapshot(): InputSnapshot {
+    return {
+      keys: [...this.keysDown].sort(),
+      pressed: [...this.keysPressed].sort(),
+      released: [...this.keysReleased].sort(),
+      mouse: [this.mouseX, this.mouseY],
+      buttons: [...this.mouseButtons].sort(),
+      mousePressed: [...this.mouseJustPressed].sort(),
+      mouseReleased: [...this.mouseJustReleased].sort(),
+      touches: [...this.touches.values()].map((touch): [number, number] => [touch.x, touch.y]),
+      touchStarted: this.touchJustStarted,
+      touchEnded: this.touchJustEnded,
+      gamepad: this.gamepad,
+    };
+  }
+
+  private applySnapshot(snapshot: InputSnapshot): void {
+    this.keysDown = new Set(snapshot.keys);
+    this.keysPressed = new Set(snapshot.pressed);
+    this.keysReleased = new Set(snapshot.released);
+    [this.mouseX, this.mouseY] = snapshot.mouse;
+    this.mouseButtons = new Set(snapshot.buttons);
+    this.mouseJustPressed = new Set(snapshot.mousePressed);
+    this.mouseJustReleased = new Set(snapshot.mouseReleased);
+    this.touches = new Map(snapshot.touches.map(([x, y], id) => [id, { x, y }]));
+    this.touchJustStarted = snapshot.touchStarted;
+    this.touchJustEnded = snapshot.touchEnded;
+    this.prevGamepadButtons = this.gamepad?.buttons ?? [];
+    this.gamepad = snapshot.gamepad;
+
+    // Input from before (or during) the replay shouldn't leak into the next frame
+    this.keysPressedBuffer.clear();
+    this.keysReleasedBuffer.clear();
+    this.mouseJustPressedBuffer.clear();
+    this.mouseJustReleasedBuffer.clear();
+    this.touchJustStartedBuffer = false;
+    this.touchJustEndedBuffer = false;
+  }
+
   // ============ Input Buffer (Platformer Mechanic) ============
 
   /**
@@ -288,7 +485,7 @@ export class InputManager {
    * @param duration - How long to buffer in seconds (e.g., 0.1 for 100ms)
    */
   bufferInput(action: string, duration: number): void {
-    const expiryTime = performance.now() + duration * 1000;
+    const expiryTime = this.clock() + duration * 1000;
     this.inputBuffer.set(action.toLowerCase(), expiryTime);
   }
 
@@ -305,7 +502,7 @@ export class InputManager {
     if (expiry === undefined) return false;
 
     // Check if buffer has expired
-    if (performance.now() > expiry) {
+    if (this.clock() > expiry) {
       this.inputBuffer.delete(key);
       return false;
     }
@@ -326,7 +523,7 @@ export class InputManager {
     if (expiry === undefined) return false;
 
     // Check if buffer has expired
-    if (performance.now() > expiry) {
+    if (this.clock() > expiry) {
       this.inputBuffer.delete(key);
       return false;
     }
@@ -360,7 +557,7 @@ export class InputManager {
 
     if (expiry === undefined) return 0;
 
-    const remaining = (expiry - performance.now()) / 1000;
+    const remaining = (expiry - this.clock()) / 1000;
     if (remaining <= 0) {
       this.inputBuffer.delete(key);
       return 0;
@@ -426,34 +623,35 @@ export class InputManager {
   // ============ Gamepad Input ============
 
   private pollGamepad(): void {
-    if (this.gamepadIndex === null) return;
+    // Keep last frame's buttons for press/release detection
+    this.prevGamepadButtons = this.gamepad?.buttons ?? [];
 
-    const gamepads = navigator.getGamepads();
-    const gamepad = gamepads[this.gamepadIndex];
-
-    if (!gamepad) return;
+    const gamepad = this.gamepadIndex !== null ? navigator.getGamepads()[this.gamepadIndex] : null;
+    if (!gamepad) {
+      this.gamepad = null;
+      return;
+    }
 
-    // Update button state for press/release detection
-    const currentButtons = gamepad.buttons.map((b) => b.pressed);
-    this.prevGamepadButtons = currentButtons;
+    const buttons: number[] = [];
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed) buttons.push(index);
+    });
+    this.gamepad = { buttons, axes: [...gamepad.axes] };
   }
 
-  private getGamepad(): Gamepad | null {
-    if (this.gamepadIndex === null) return null;
-    const gamepads = navigator.getGamepads();
-    return gamepads[this.gamepadIndex] || null;
+  private gamepadButton(index: number): boolean {
+    return this.gamepad?.buttons.includes(index) ?? false;
   }
 
   private isGamepadActionPressed(action: string): boolean {
-    const gamepad = this.getGamepad();
-    if (!gamepad) return false;
+    if (!this.gamepad) return false;
 
     const buttons = GAMEPAD_ACTIONS[action.toLowerCase()];
     if (!buttons) return false;
 
     for (const btnIndex of buttons) {
-      const current = gamepad.buttons[btnIndex]?.pressed ?? false;
-      const prev = this.prevGamepadButtons[btnIndex] ?? false;
+      const current = this.gamepadButton(btnIndex);
+      const prev = this.prevGamepadButtons.includes(btnIndex);
       if (current && !prev) return true;
     }
 
@@ -461,29 +659,27 @@ export class InputManager {
   }
 
   private isGamepadActionHeld(action: string): boolean {
-    const gamepad = this.getGamepad();
-    if (!gamepad) return false;
+    if (!this.gamepad) return false;
 
     const buttons = GAMEPAD_ACTIONS[action.toLowerCase()];
     if (!buttons) return false;
 
     for (const btnIndex of buttons) {
-      if (gamepad.buttons[btnIndex]?.pressed) return true;
+      if (this.gamepadButton(btnIndex)) return true;
     }
 
     return false;
   }
 
   private isGamepadActionReleased(action: string): boolean {
-    const gamepad = this.getGamepad();
-    if (!gamepad) return false;
+    if (!this.gamepad) return false;
 
     const buttons = GAMEPAD_ACTIONS[action.toLowerCase()];
     if (!buttons) return false;
 
     for (const btnIndex of buttons) {
-      const current = gamepad.buttons[btnIndex]?.pressed ?? false;
-      const prev = this.prevGamepadButtons[btnIndex] ?? false;
+      const current = this.gamepadButton(btnIndex);
+      const prev = this.prevGamepadButtons.includes(btnIndex);
       if (!current && prev) return true;
     }
 
@@ -491,22 +687,21 @@ export class InputManager {
   }
 
   private isGamepadDirectionHeld(action: string): boolean {
-    const gamepad = this.getGamepad();
-    if (!gamepad) return false;
+    if (!this.gamepad) return false;
 
-    const axes = gamepad.axes;
+    const axes = this.gamepad.axes;
     const lowerAction = action.toLowerCase();
 
     // Left stick (axes 0, 1) and D-pad (buttons 12-15)
     switch (lowerAction) {
       case "left":
-        return axes[0] < -GAMEPAD_AXIS_THRESHOLD || gamepad.buttons[14]?.pressed;
+        return axes[0] < -GAMEPAD_AXIS_THRESHOLD || this.gamepadButton(14);
       case "right":
-        return axes[0] > GAMEPAD_AXIS_THRESHOLD || gamepad.buttons[15]?.pressed;
+        return axes[0] > GAMEPAD_AXIS_THRESHOLD || this.gamepadButton(15);
       case "up":
-        return axes[1] < -GAMEPAD_AXIS_THRESHOLD || gamepad.buttons[12]?.pressed;
+        return axes[1] < -GAMEPAD_AXIS_THRESHOLD || this.gamepadButton(12);
       case "down":
-        return axes[1] > GAMEPAD_AXIS_THRESHOLD || gamepad.buttons[13]?.pressed;
+        return axes[1] > GAMEPAD_AXIS_THRESHOLD || this.gamepadButton(13);
     }
 
     return false;
@@ -670,6 +865,7 @@ export class InputManager {
     console.log("Gamepad disconnected:", e.gamepad.id);
     if (this.gamepadIndex === e.gamepad.index) {
       this.gamepadIndex = null;
+      this.gamepad = null;
       this.prevGamepadButtons = [];
     }
   };
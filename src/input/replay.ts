@@ -0,0 +1,131 @@
+/**
+ * Input replays for Ragelang
+ *
+ * A replay is the input state of every update, recorded from the start of a
+ * scene, so the game can be played back exactly (for bug reports or ghosts).
+ * To keep replays small, each frame only lists what changed since the frame
+ * before it: held keys, the mouse and touches carry over until they change,
+ * while presses and releases only last for their own frame.
+ */
+
+export const REPLAY_VERSION = 1;
+
+export interface InputReplay {
+  version: number;
+  seed?: number; // Seed for random numbers, so the game makes the same choices
+  frames: InputFrame[];
+}
+
+export interface InputFrame {
+  dt: number; // Seconds simulated by this update
+  keys?: string[]; // Held keys, when they changed
+  pressed?: string[];
+  released?: string[];
+  mouse?: [number, number]; // Mouse position, when it moved
+  buttons?: number[]; // Held mouse buttons, when they changed
+  mousePressed?: number[];
+  mouseReleased?: number[];
+  touches?: Array<[number, number]>; // Touch positions, when they changed
+  touchStarted?: true;
+  touchEnded?: true;
+  gamepad?: GamepadSnapshot | null; // When it changed
+}
+
+export interface GamepadSnapshot {
+  buttons: number[]; // Indices of the pressed buttons
+  axes: number[];
+}
+
+/**
+ * Everything the game can read from the input manager during one frame
+ */
+export interface InputSnapshot {
+  keys: string[];
+  pressed: string[];
+  released: string[];
+  mouse: [number, number];
+  buttons: number[];
+  mousePressed: number[];
+  mouseReleased: number[];
+  touches: Array<[number, number]>;
+  touchStarted: boolean;
+  touchEnded: boolean;
+  gamepad: GamepadSnapshot | null;
+}
+
+export const EMPTY_SNAPSHOT: InputSnapshot = {
+  keys: [],
+  pressed: [],
+  released: [],
+  mouse: [0, 0],
+  buttons: [],
+  mousePressed: [],
+  mouseReleased: [],
+  touches: [],
+  touchStarted: false,
+  touchEnded: false,
+  gamepad: null,
+};
+
+/**
+ * Encode a frame as the changes from the frame before it
+ */
+export function encodeFrame(
+  previous: InputSnapshot,
+  snapshot: InputSnapshot,
+  dt: number
+): InputFrame {
+  const frame: InputFrame = { dt };
+
+  // Held state is only written when it changes
+  if (!sameValue(previous.keys, snapshot.keys)) frame.keys = snapshot.keys;
+  if (!sameValue(previous.mouse, snapshot.mouse)) frame.mouse = snapshot.mouse;
+  if (!sameValue(previous.buttons, snapshot.buttons)) frame.buttons = snapshot.buttons;
+  if (!sameValue(previous.touches, snapshot.touches)) frame.touches = snapshot.touches;
+  if (!sameValue(previous.gamepad, snapshot.gamepad)) frame.gamepad = snapshot.gamepad;
+
+  // Presses and releases are only written on the frames they happen
+  if (snapshot.pressed.length > 0) frame.pressed = snapshot.pressed;
+  if (snapshot.released.length > 0) frame.released = snapshot.released;
+  if (snapshot.mousePressed.length > 0) frame.mousePressed = snapshot.mousePressed;
+  if (snapshot.mouseReleased.length > 0) frame.mouseReleased = snapshot.mouseReleased;
+  if (snapshot.touchStarted) frame.touchStarted = true;
+  if (snapshot.touchEnded) frame.touchEnded = true;
+
+  return frame;
+}
+
+/**
+ * Decode a frame, given the snapshot of the frame before it
+ */
+export function decodeFrame(previous: InputSnapshot, frame: InputFrame): InputSnapshot {
+  return {
+    keys: frame.keys ?? previous.keys,
+    pressed: frame.pressed ?? [],
+    released: frame.released ?? [],
+    mouse: frame.mouse ?? previous.mouse,
+    buttons: frame.buttons ?? previous.buttons,
+    mousePressed: frame.mousePressed ?? [],
+    mouseReleased: frame.mouseReleased ?? [],
+    touches: frame.touches ?? previous.touches,
+    touchStarted: frame.touchStarted ?? false,
+    touchEnded: frame.touchEnded ?? false,
+    gamepad: frame.gamepad !== undefined ? frame.gamepad : previous.gamepad,
+  };
+}
+
+/**
+ * Check that a replay (like one parsed from JSON) can be played
+ */
+export function validateReplay(replay: InputReplay): void {
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay.version}`);
+  }
+  if (!Array.isArray(replay.frames) || replay.frames.some((frame) => !(frame.dt >= 0))) {
+    throw new Error("Replay frames must each have a dt of 0 or more seconds");
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,8 +1,27 @@
 import { describe, it, expect, vi } from "vitest";
-import { Ragelang } from "./index.js";
+import {
+  Ragelang,
+  RageRuntimeError,
+  RageLimitError,
+  InputManager,
+  type RagePrototype,
+} from "./index.js";
 import { FallingProcessor } from "./falling/processor.js";
 import { Lexer } from "./lexer/lexer.js";
 import { Parser } from "./parser/parser.js";
+import { Scaffolder } from "./falling/scaffolder.js";
+import { FoundationError } from "./falling/foundation.js";
+import { RecordingRenderer } from "./renderer/recording.js";
+
+/**
+ * Put a program on a foundation, with scaffolding so none of it falls.
+ * For tests that are about the rest of the pipeline rather than falling.
+ */
+function grounded(source: string): string {
+  const program = source.trim();
+  const width = Math.max(...program.split("\n").map((line) => line.length));
+  return new Scaffolder(`${program}\n${"#".repeat(width)}`).scaffold();
+}
 
 describe("Integration Tests", () => {
   it("should process and run a complete Ragelang program", () => {
@@ -13,7 +32,7 @@ sum = x + y
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     // If no error is thrown, the program ran successfully
     expect(true).toBe(true);
   });
@@ -64,7 +83,7 @@ update(dt) {
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
 
     // The blocks should be registered
     expect(true).toBe(true);
@@ -85,7 +104,7 @@ distance_between = distance(player.x, player.y, enemy.x, enemy.y)
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     // Distance should be calculated correctly (200 units apart on x axis)
     expect(true).toBe(true);
   });
@@ -105,7 +124,7 @@ if (health > damage) {
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
 
@@ -147,7 +166,7 @@ position_y = position_y + velocity_y * dt
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
 
@@ -167,7 +186,7 @@ if (key_right) {
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
 
@@ -190,7 +209,7 @@ colliding = rect_overlap(
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
 
@@ -204,7 +223,7 @@ can_jump = on_ground or (time_since_grounded < coyote_time)
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
 
@@ -224,7 +243,332 @@ bullet2.y = player.y
 `;
 
     const ragelang = new Ragelang();
-    ragelang.run(source);
+    ragelang.run(grounded(source));
     expect(true).toBe(true);
   });
+
+  it("should report parse errors at the line written in the original source", () => {
+    // The ) falls from line 1 and lands at the end of line 2
+    const source = `      )
+x = 1
+#######`;
+
+    const ragelang = new Ragelang();
+    expect(ragelang.processSource(source).split("\n")[1]).toBe("x = 1 )");
+    expect(() => ragelang.run(source)).toThrow("Unexpected token: ) at line 1");
+  });
+
+  it("should report game loop errors to onError", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    const onError = vi.fn();
+    const ragelang = new Ragelang({ onError });
+
+    ragelang.run(
+      grounded(`
+draw {
+  rect(x, 0, 10, 10)
+}
+`)
+    );
+    ragelang.start();
+    vi.unstubAllGlobals();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(RageRuntimeError));
+    expect(onError.mock.calls[0][0].block).toBe("draw");
+    expect(ragelang.isGameRunning()).toBe(false);
+  });
+
+  it("should show an error overlay and restart the scene with R", () => {
+    const frames: Array<() => void> = [];
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn((callback: () => void) => frames.push(callback))
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const ragelang = new Ragelang();
+    const keyPressed = vi.spyOn(InputManager.prototype, "keyPressed").mockReturnValue(false);
+
+    ragelang.run(
+      grounded(`
+draw {
+  rect(x, 0, 10, 10)
+}
+`)
+    );
+    ragelang.start();
+    expect(ragelang.isShowingError()).toBe(true);
+    expect(ragelang.isGameRunning()).toBe(false);
+
+    // The overlay keeps drawing until R is pressed
+    frames[frames.length - 1]();
+    expect(keyPressed).toHaveBeenCalledWith("r");
+    expect(ragelang.isShowingError()).toBe(true);
+
+    // Pressing R runs the scene again, which crashes again
+    keyPressed.mockReturnValue(true);
+    const runSpy = vi.spyOn(ragelang, "run");
+    frames[frames.length - 1]();
+    expect(runSpy).toHaveBeenCalledTimes(1);
+    expect(ragelang.isShowingError()).toBe(true);
+
+    ragelang.stop();
+    expect(ragelang.isShowingError()).toBe(false);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should throw out of the game loop when the overlay is disabled", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    const ragelang = new Ragelang({ errorOverlay: false });
+
+    ragelang.run(grounded("draw {\n  rect(x, 0, 10, 10)\n}"));
+    expect(() => ragelang.start()).toThrow("Undefined variable: x");
+    expect(ragelang.isShowingError()).toBe(false);
+    vi.unstubAllGlobals();
+  });
+
+  it("should pause a game that hits a limit and resume it", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const onPause = vi.fn();
+    const onError = vi.fn();
+    const ragelang = new Ragelang({
+      onPause,
+      onError,
+      limits: { maxLoopIterations: 1000, pauseOnExceeded: true },
+    });
+
+    ragelang.run(
+      grounded(`
+n = 0
+update(dt) {
+  n++
+  loop {
+  }
+}
+`)
+    );
+    ragelang.start();
+
+    expect(onPause).toHaveBeenCalledWith(expect.any(RageLimitError));
+    expect(onPause.mock.calls[0][0].reason).toBe("Loop exceeded 1,000 iterations");
+    expect(onError).not.toHaveBeenCalled();
+    expect(ragelang.isPaused()).toBe(true);
+    expect(ragelang.isShowingError()).toBe(false);
+    expect(ragelang.isGameRunning()).toBe(false);
+
+    // Resuming keeps the game's state
+    ragelang.resume();
+    expect(onPause).toHaveBeenCalledTimes(2);
+    expect(ragelang.getGlobal("n")).toBe(2);
+    vi.unstubAllGlobals();
+  });
+
+  it("should stop running when an error is thrown out of the game loop", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.run(grounded("update(dt) {\n  x = missing + 1\n}"));
+
+    expect(() => ragelang.start()).toThrow(RageRuntimeError);
+    expect(ragelang.isGameRunning()).toBe(false);
+    vi.unstubAllGlobals();
+  });
+
+  it("should report a scene that fails to load headlessly", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.reject(new Error("offline")))
+    );
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const onError = vi.fn();
+    const game = grounded('update(dt) {\n  load_scene("next.rage")\n}');
+
+    // With the overlay on by default, but no animation frames to draw it with
+    const ragelang = new Ragelang({ renderer: new RecordingRenderer({ width: 100, height: 100 }) });
+    ragelang.run(game);
+    ragelang.tick(1 / 60);
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalled());
+    expect(consoleError.mock.calls[0][0]).toBe('Failed to load scene "next.rage":');
+    expect(ragelang.isShowingError()).toBe(false);
+
+    const handled = new Ragelang({
+      renderer: new RecordingRenderer({ width: 100, height: 100 }),
+      onError,
+    });
+    handled.run(game);
+    handled.tick(1 / 60);
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error("offline")));
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should load the next scene with the same falling rules", async () => {
+    const rules = { foundation: "@" };
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.resolve(new Response("loaded = true\n@@@@@@@@@@@@@")))
+    );
+    const program = 'update(dt) {\n  load_scene("next.rage")\n}';
+    const game = new Scaffolder(`${program}\n${"@".repeat(22)}`, rules).scaffold();
+
+    const ragelang = new Ragelang({ renderer: new RecordingRenderer({ width: 100, height: 100 }) });
+    ragelang.run(game, rules);
+    ragelang.tick(1 / 60);
+    await vi.waitFor(() => expect(ragelang.getGlobal("loaded")).toBe(true));
+    expect(ragelang.isGameRunning()).toBe(true);
+    ragelang.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it("should load new code in place of the running game", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.run(grounded("old = 1"));
+    ragelang.start();
+
+    ragelang.load(grounded("new = 2"));
+    expect(ragelang.getGlobal("old")).toBeUndefined();
+    expect(ragelang.getGlobal("new")).toBe(2);
+    expect(ragelang.isGameRunning()).toBe(true);
+
+    // Code that fails to run leaves the game stopped
+    expect(() => ragelang.load(grounded("x = 1 +"))).toThrow();
+    expect(ragelang.isGameRunning()).toBe(false);
+    vi.unstubAllGlobals();
+  });
+
+  it("should keep the page's builtins and modules when loading new code", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const unlocked: unknown[] = [];
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.registerBuiltin("unlock", (id) => unlocked.push(id), { params: ["id"] });
+    ragelang.registerModule("analytics", { event: () => null });
+    ragelang.run(grounded('unlock(id = "first")'));
+    ragelang.start();
+
+    ragelang.load(grounded('analytics.event("loaded")\nunlock("second")'));
+    expect(unlocked).toEqual(["first", "second"]);
+    vi.unstubAllGlobals();
+  });
+
+  it("should run a game headlessly with scripted input", () => {
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.run(
+      grounded(`
+player = prototype()
+player.x = 0
+update(dt) {
+  if (held("right")) {
+    player.x = player.x + 200 * dt
+  }
+}
+draw {
+  clear("#000000")
+  rect(player.x, 0, 16, 16)
+}
+`)
+    );
+
+    ragelang.getInput().press("right");
+    ragelang.runFrames(120);
+
+    const player = ragelang.getGlobal("player") as RagePrototype;
+    expect(player.x).toBeGreaterThan(300);
+    expect(ragelang.isGameRunning()).toBe(false);
+  });
+
+  it("should replay a recorded game exactly", () => {
+    const game = grounded(`
+x = 0
+jumps = 0
+wobble = 0
+update(dt) {
+  if (held("right")) {
+    x = x + 150 * dt
+  }
+  if (pressed("jump")) {
+    jumps++
+    wobble = wobble + random()
+  }
+}
+`);
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.run(game);
+    ragelang.runFrames(10);
+
+    // Recording starts the scene over
+    ragelang.startRecording();
+    const input = ragelang.getInput();
+    for (let frame = 0; frame < 90; frame++) {
+      input.releaseAll();
+      if (frame < 45) input.press("right");
+      if (frame % 20 === 0) input.press("jump");
+      ragelang.tick(frame % 3 === 0 ? 1 / 30 : 1 / 60);
+    }
+    const replay = JSON.parse(JSON.stringify(ragelang.stopRecording()));
+    const recorded = ["x", "jumps", "wobble"].map((name) => ragelang.getGlobal(name));
+    expect(replay.frames).toHaveLength(90);
+    expect(recorded[1]).toBe(5);
+
+    const other = new Ragelang({ errorOverlay: false });
+    other.run(game);
+    other.runReplay(replay);
+    expect(["x", "jumps", "wobble"].map((name) => other.getGlobal(name))).toEqual(recorded);
+  });
+
+  it("should only seed the recorded run of an unseeded game", () => {
+    vi.stubGlobal(
+      "requestAnimationFrame",
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    const ragelang = new Ragelang({ errorOverlay: false });
+    ragelang.run(grounded("roll = random()"));
+    ragelang.startRecording();
+    const replay = ragelang.stopRecording();
+
+    const rolls = [1, 2, 3].map(() => {
+      ragelang.restart();
+      return ragelang.getGlobal("roll");
+    });
+    expect(new Set(rolls).size).toBe(3);
+    ragelang.runReplay(replay);
+    const replayed = ragelang.getGlobal("roll");
+    ragelang.runReplay(replay);
+    expect(ragelang.getGlobal("roll")).toBe(replayed);
+    vi.unstubAllGlobals();
+  });
+
+  it("should refuse to run a program without a foundation", () => {
+    const ragelang = new Ragelang();
+
+    expect(() => ragelang.run("x = 1")).toThrow(FoundationError);
+    expect(() => ragelang.run("x # 1\n\n#####")).toThrow("Ambiguous foundation");
+  });
 });
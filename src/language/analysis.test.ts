@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { Scaffolder } from "../falling/scaffolder.js";
+import { analyzeDocument, findSymbolAt } from "./analysis.js";
+import type { SourcePosition } from "../parser/ast.js";
+
+function grounded(source: string): string {
+  const program = source.trim();
+  const width = Math.max(...program.split("\n").map((line) => line.length));
+  return new Scaffolder(`${program}\n${"#".repeat(width)}`).scaffold();
+}
+
+/**
+ * Find the position of the nth occurrence of some text
+ */
+function positionOf(source: string, text: string, occurrence = 0): SourcePosition {
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = source.indexOf(text, index + 1);
+  }
+  const before = source.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+const program = grounded(`
+enum State { Idle, Running(speed) }
+fun move(x, speed) {
+  step = speed * 2
+  return x + step
+}
+pos = 0
+state = State.Running(3)
+update(dt) {
+  pos = move(pos, dt)
+  label = match state {
+    Running(s) => s,
+    _ => 0
+  }
+  scale = (k) => k * pos
+}
+`);
+
+describe("analyzeDocument", () => {
+  it("should report falling characters and every syntax error", () => {
+    const analysis = analyzeDocument("x = )       z\ny = ) * 2 3\n##############");
+
+    expect(analysis.diagnostics).toContainEqual({
+      code: "falling-character",
+      severity: "warning",
+      message: "Unsupported character 'z' will fall",
+      line: 1,
+      column: 13,
+      endLine: 1,
+      endColumn: 14,
+    });
+    expect(analysis.diagnostics.filter((d) => d.severity === "error")).toMatchObject([
+      { line: 1 },
+      { line: 2 },
+    ]);
+    expect(analysis.program).not.toBeNull();
+  });
+
+  it("should report a missing foundation on the whole line", () => {
+    const analysis = analyzeDocument("x = 1\ny = 2");
+
+    expect(analysis.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "NO_FOUNDATION",
+        severity: "error",
+        line: 2,
+        column: 1,
+        endColumn: 6,
+      }),
+    ]);
+    expect(analysis.program).toBeNull();
+    expect(analysis.symbols.size).toBe(0);
+  });
+
+  it("should find functions, enums and global variables", () => {
+    const analysis = analyzeDocument(program);
+
+    expect(analysis.diagnostics).toEqual([]);
+    expect([...analysis.symbols.keys()]).toEqual([
+      "State",
+      "move",
+      "step",
+      "pos",
+      "state",
+      "label",
+      "scale",
+    ]);
+    expect(analysis.symbols.get("move")).toMatchObject({
+      kind: "function",
+      parameters: ["x", "speed"],
+      definition: { start: positionOf(program, "move"), end: { column: 9 } },
+    });
+    expect(analysis.symbols.get("State")?.variants).toEqual([
+      { name: "Idle", fields: [] },
+      { name: "Running", fields: ["speed"] },
+    ]);
+  });
+
+  it("should find every reference to a symbol", () => {
+    const analysis = analyzeDocument(program);
+    const starts = (name: string) => analysis.symbols.get(name)?.references.map((loc) => loc.start);
+
+    expect(starts("move")).toEqual([positionOf(program, "move"), positionOf(program, "move", 1)]);
+    expect(starts("pos")).toEqual([
+      positionOf(program, "pos"),
+      positionOf(program, "pos", 1),
+      positionOf(program, "pos", 2),
+      positionOf(program, "pos", 3),
+    ]);
+    expect(starts("State")).toEqual([
+      positionOf(program, "State"),
+      positionOf(program, "State", 1),
+    ]);
+  });
+
+  it("should leave out parameters and match bindings", () => {
+    const analysis = analyzeDocument(program);
+
+    for (const local of ["x", "speed", "dt", "s", "k"]) {
+      expect(analysis.symbols.has(local)).toBe(false);
+    }
+  });
+});
+
+describe("findSymbolAt", () => {
+  it("should find the symbol under a position, including just past its end", () => {
+    const analysis = analyzeDocument(program);
+    const use = positionOf(program, "move", 1);
+
+    expect(findSymbolAt(analysis, use)?.name).toBe("move");
+    expect(findSymbolAt(analysis, { line: use.line, column: use.column + 4 })?.name).toBe("move");
+    expect(findSymbolAt(analysis, positionOf(program, "dt", 1))).toBeNull();
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Language analysis for Ragelang
+ *
+ * What editors need to know about a document: its problems (falling
+ * characters, a missing foundation and syntax errors) and the functions, enums
+ * and global variables it defines, with every place they're used. Like the
+ * rest of the toolchain, positions are in the original source and 1-based.
+ */
+
+import type { Diagnostic, DiagnosticCode } from "../diagnostics/diagnostic.js";
+import type { FoundationErrorCode } from "../falling/foundation.js";
+import { FallingProcessor, type Position } from "../falling/processor.js";
+import { Lexer } from "../lexer/lexer.js";
+import { TokenType, type Token } from "../lexer/tokens.js";
+import { Parser } from "../parser/parser.js";
+import type {
+  ASTNode,
+  EnumVariant,
+  Pattern,
+  Program,
+  SourceLocation,
+  SourcePosition,
+} from "../parser/ast.js";
+
+export type LanguageDiagnosticCode = DiagnosticCode | FoundationErrorCode | "falling-character";
+
+export interface LanguageDiagnostic extends Omit<Diagnostic, "code"> {
+  code: LanguageDiagnosticCode;
+}
+
+export type SymbolKind = "function" | "enum" | "variable";
+
+/**
+ * A function, enum or global variable defined by the document
+ */
+export interface RageSymbol {
+  name: string;
+  kind: SymbolKind;
+  definition: SourceLocation; // The name where it's defined (its first assignment, for variables)
+  declaration: SourceLocation; // The whole definition
+  parameters: string[]; // Function parameters
+  variants: EnumVariant[]; // Enum variants
+  references: SourceLocation[]; // Every use of the name, including the definition, in source order
+}
+
+export interface DocumentAnalysis {
+  source: string;
+  diagnostics: LanguageDiagnostic[];
+  unsupported: Position[]; // Characters that fall (0-based rows and columns)
+  tokens: Token[]; // In source order
+  program: Program | null; // null when there's no foundation to fall onto
+  symbols: Map<string, RageSymbol>;
+}
+
+/**
+ * The parts of a falling processor analysis needs, so editors can pass in an
+ * IncrementalFallingProcessor they keep up to date
+ */
+export type SourceProcessor = Pick<
+  FallingProcessor,
+  "process" | "getSourceMap" | "getUnsupportedPositions" | "getFoundationError"
+>;
+
+/**
+ * Analyze a document, collecting every problem instead of stopping at the first
+ */
+export function analyzeDocument(
+  source: string,
+  processor: SourceProcessor = new FallingProcessor(source)
+): DocumentAnalysis {
+  const lines = source.split("\n");
+  const foundationError = processor.getFoundationError();
+  if (foundationError) {
+    const line = Math.min(foundationError.line, lines.length);
+    // A missing foundation is reported on the whole line, a conflicting one on the character
+    const wholeLine = foundationError.code === "NO_FOUNDATION";
+    const diagnostic: LanguageDiagnostic = {
+      code: foundationError.code,
+      severity: "error",
+      message: foundationError.message,
+      line,
+      column: wholeLine ? 1 : foundationError.column,
+      endLine: line,
+      endColumn: wholeLine ? lines[line - 1].length + 1 : foundationError.column + 1,
+    };
+    // Without a foundation everything falls, so that's the only problem worth reporting
+    return {
+      source,
+      diagnostics: [diagnostic],
+      unsupported: [],
+      tokens: [],
+      program: null,
+      symbols: new Map(),
+    };
+  }
+
+  const unsupported = processor.getUnsupportedPositions();
+  const diagnostics: LanguageDiagnostic[] = unsupported.map(({ row, col }) => ({
+    code: "falling-character",
+    severity: "warning",
+    message: `Unsupported character '${lines[row]?.[col] ?? ""}' will fall`,
+    line: row + 1,
+    column: col + 1,
+    endLine: row + 1,
+    endColumn: col + 2,
+  }));
+
+  const lexed = new Lexer(processor.process(), {
+    sourceMap: processor.getSourceMap(),
+  }).tokenizeWithDiagnostics();
+  const parsed = new Parser(lexed.tokens).parseWithDiagnostics();
+  diagnostics.push(...lexed.diagnostics, ...parsed.diagnostics);
+
+  return {
+    source,
+    diagnostics,
+    unsupported,
+    tokens: [...lexed.tokens].sort(compareTokens),
+    program: parsed.program,
+    symbols: new SymbolCollector(lexed.tokens).collect(parsed.program),
+  };
+}
+
+/**
+ * Find the symbol whose name (definition or reference) is at a position
+ */
+export function findSymbolAt(
+  analysis: DocumentAnalysis,
+  position: SourcePosition
+): RageSymbol | null {
+  for (const symbol of analysis.symbols.values()) {
+    if (symbol.references.some((loc) => containsPosition(loc, position))) {
+      return symbol;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a position is inside a location, counting the position just past its end
+ * (where the cursor is after typing a name)
+ */
+export function containsPosition(loc: SourceLocation, position: SourcePosition): boolean {
+  return comparePositions(loc.start, position) <= 0 && comparePositions(position, loc.end) <= 0;
+}
+
+export function comparePositions(a: SourcePosition, b: SourcePosition): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+function compareTokens(a: Token, b: Token): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+function tokenLocation(token: Token): SourceLocation {
+  return {
+    start: { line: token.line, column: token.column },
+    end: { line: token.line, column: token.column + token.lexeme.length },
+  };
+}
+
+/**
+ * Walks a program to find the symbols it defines and where each is used.
+ *
+ * Assignments create globals unless the name is a parameter (or a match
+ * binding), even inside functions, so everything else is tracked as global.
+ */
+class SymbolCollector {
+  private tokens: Token[];
+  // Index of the token at each "line:column", to find names the AST only has as strings
+  private tokenIndex: Map<string, number> = new Map();
+  private symbols: Map<string, RageSymbol> = new Map();
+  private references: Array<{ name: string; loc: SourceLocation }> = [];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+    tokens.forEach((token, index) => this.tokenIndex.set(`${token.line}:${token.column}`, index));
+  }
+
+  collect(program: Program): Map<string, RageSymbol> {
+    this.visit(program.body, new Set());
+
+    // Uses of names the document never defines (like builtins) are left out
+    for (const { name, loc } of this.references) {
+      this.symbols.get(name)?.references.push(loc);
+    }
+    for (const symbol of this.symbols.values()) {
+      symbol.references.sort((a, b) => comparePositions(a.start, b.start));
+    }
+    return this.symbols;
+  }
+
+  private visit(node: unknown, locals: ReadonlySet<string>): void {
+    if (Array.isArray(node)) {
+      node.forEach((child) => this.visit(child, locals));
+      return;
+    }
+    if (typeof node !== "object" || node === null) return;
+    if (!("type" in node)) {
+      // Call arguments, object properties and the like
+      this.visitChildren(node, locals);
+      return;
+    }
+
+    const ast = node as ASTNode;
+    switch (ast.type) {
+      case "FunctionDeclaration": {
+        // fun NAME(...)
+        const nameToken = this.tokenAfter(ast.loc.start, 1);
+        if (nameToken) {
+          this.define(ast.name, "function", tokenLocation(nameToken), ast.loc, {
+            parameters: ast.parameters,
+          });
+        }
+        this.visit(ast.body, new Set([...locals, ...ast.parameters]));
+        return;
+      }
+      case "FunctionExpression":
+        this.visit(ast.body, new Set([...locals, ...ast.parameters]));
+        return;
+      case "EnumDeclaration": {
+        // enum NAME { ... }
+        const nameToken = this.tokenAfter(ast.loc.start, 1);
+        if (nameToken) {
+          this.define(ast.name, "enum", tokenLocation(nameToken), ast.loc, {
+            variants: ast.variants,
+          });
+        }
+        return;
+      }
+      case "UpdateBlock":
+        this.visit(ast.body, new Set([...locals, ast.parameter]));
+        return;
+      case "VariableDeclaration": {
+        const nameToken = this.tokenAfter(ast.loc.start, 0);
+        if (nameToken && !locals.has(ast.name)) {
+          const nameLoc = tokenLocation(nameToken);
+          this.define(ast.name, "variable", nameLoc, ast.loc);
+          this.references.push({ name: ast.name, loc: nameLoc });
+        }
+        this.visit(ast.init, locals);
+        return;
+      }
+      case "AssignmentExpression":
+        if (ast.left.type === "Identifier" && !locals.has(ast.left.name)) {
+          this.define(ast.left.name, "variable", ast.left.loc, ast.loc);
+        }
+        break;
+      case "Identifier":
+        if (!locals.has(ast.name)) {
+          this.references.push({ name: ast.name, loc: ast.loc });
+        }
+        return;
+      case "MemberExpression":
+        // The property is a field name, not a variable
+        this.visit(ast.object, locals);
+        return;
+      case "MatchExpression":
+        this.visit(ast.subject, locals);
+        for (const { pattern, body } of ast.arms) {
+          this.visit(body, new Set([...locals, ...this.patternBindings(pattern)]));
+        }
+        return;
+    }
+    this.visitChildren(ast, locals);
+  }
+
+  private visitChildren(node: object, locals: ReadonlySet<string>): void {
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== "loc") this.visit(value, locals);
+    }
+  }
+
+  /**
+   * Get the names a match pattern binds
+   */
+  private patternBindings(pattern: Pattern): string[] {
+    if (pattern.type === "IdentifierPattern") return [pattern.name];
+    if (pattern.type === "VariantPattern") return pattern.bindings;
+    return [];
+  }
+
+  private define(
+    name: string,
+    kind: SymbolKind,
+    definition: SourceLocation,
+    declaration: SourceLocation,
+    details: { parameters?: string[]; variants?: EnumVariant[] } = {}
+  ): void {
+    // The first definition wins; later ones are only references
+    if (this.symbols.has(name)) return;
+    this.symbols.set(name, {
+      name,
+      kind,
+      definition,
+      declaration,
+      parameters: details.parameters ?? [],
+      variants: details.variants ?? [],
+      references: [],
+    });
+    if (kind !== "variable") {
+      this.references.push({ name, loc: definition });
+    }
+  }
+
+  /**
+   * Get the identifier some tokens after the token at a position
+   */
+  private tokenAfter(position: SourcePosition, offset: number): Token | null {
+    const index = this.tokenIndex.get(`${position.line}:${position.column}`);
+    if (index === undefined) return null;
+    const token = this.tokens[index + offset];
+    return token?.type === TokenType.IDENTIFIER ? token : null;
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { Scaffolder } from "../falling/scaffolder.js";
+import { analyzeDocument } from "./analysis.js";
+import {
+  getCompletions,
+  getDefinition,
+  getDocumentSymbols,
+  getHover,
+  getReferences,
+  getRenameLocations,
+  getRenameRange,
+  getSignatureHelp,
+} from "./features.js";
+import type { SourcePosition } from "../parser/ast.js";
+
+function grounded(source: string): string {
+  const program = source.trim();
+  const width = Math.max(...program.split("\n").map((line) => line.length));
+  return new Scaffolder(`${program}\n${"#".repeat(width)}`).scaffold();
+}
+
+/**
+ * Find the position of the nth occurrence of some text, plus an offset into it
+ */
+function positionOf(source: string, text: string, occurrence = 0, offset = 0): SourcePosition {
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = source.indexOf(text, index + 1);
+  }
+  const before = source.slice(0, index + offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+const program = grounded(`
+enum State { Idle, Running(speed) }
+fun move(x, speed) {
+  return x + speed
+}
+pos = 0
+state = State.Running(3)
+update(dt) {
+  pos = move(pos, dt)
+}
+draw {
+  rect(pos, 10, [1, 2], 20, color = "red")
+}
+`);
+const analysis = analyzeDocument(program);
+
+describe("getCompletions", () => {
+  it("should offer keywords, builtins and the document's symbols", () => {
+    const labels = getCompletions(analysis, positionOf(program, "pos = 0")).map((c) => c.label);
+
+    expect(labels).toEqual(
+      expect.arrayContaining(["fun", "match", "rect", "move", "pos", "State"])
+    );
+  });
+
+  it("should offer an enum's variants after its name", () => {
+    const completions = getCompletions(analysis, positionOf(program, "State.", 0, 6));
+
+    expect(completions).toEqual([
+      { label: "Idle", kind: "variant", detail: "State.Idle" },
+      { label: "Running", kind: "variant", detail: "State.Running(speed)" },
+    ]);
+  });
+});
+
+describe("getHover", () => {
+  it("should show builtin and user function signatures", () => {
+    expect(getHover(analysis, positionOf(program, "rect", 0, 2))?.contents).toBe(
+      '```ragelang\nrect(x, y, width, height, color = "#ffffff", alpha = 1)\n```\n\nDraw a filled rectangle'
+    );
+    expect(getHover(analysis, positionOf(program, "move", 1))).toEqual({
+      contents: "```ragelang\nfun move(x, speed)\n```",
+      range: {
+        start: positionOf(program, "move", 1),
+        end: positionOf(program, "move", 1, 4),
+      },
+    });
+  });
+
+  it("should explain falling characters", () => {
+    const source = "x = 1   !\n#####";
+    const hover = getHover(analyzeDocument(source), { line: 1, column: 9 });
+
+    expect(hover?.contents).toContain("Falling character");
+  });
+});
+
+describe("getSignatureHelp", () => {
+  it("should track the argument, skipping nested arrays", () => {
+    expect(getSignatureHelp(analysis, positionOf(program, "20"))).toEqual({
+      label: 'rect(x, y, width, height, color = "#ffffff", alpha = 1)',
+      parameters: ["x", "y", "width", "height", "color", "alpha"],
+      activeParameter: 3,
+      documentation: "Draw a filled rectangle",
+    });
+    expect(getSignatureHelp(analysis, positionOf(program, "dt", 1))).toMatchObject({
+      label: "move(x, speed)",
+      activeParameter: 1,
+    });
+  });
+
+  it("should pick keyword arguments by name", () => {
+    expect(getSignatureHelp(analysis, positionOf(program, '"red"'))?.activeParameter).toBe(4);
+  });
+
+  it("should return null outside calls", () => {
+    expect(getSignatureHelp(analysis, positionOf(program, "pos = 0"))).toBeNull();
+  });
+});
+
+describe("navigation", () => {
+  it("should go to definitions", () => {
+    expect(getDefinition(analysis, positionOf(program, "move", 1))?.start).toEqual(
+      positionOf(program, "move")
+    );
+    expect(getDefinition(analysis, positionOf(program, "rect"))).toBeNull();
+  });
+
+  it("should find references with or without the declaration", () => {
+    const position = positionOf(program, "pos", 1);
+
+    expect(getReferences(analysis, position, true)).toHaveLength(4);
+    expect(getReferences(analysis, position, false).map((loc) => loc.start)).toEqual([
+      positionOf(program, "pos", 1),
+      positionOf(program, "pos", 2),
+      positionOf(program, "pos", 3),
+    ]);
+  });
+});
+
+describe("rename", () => {
+  it("should rename every reference", () => {
+    const position = positionOf(program, "State", 1);
+
+    expect(getRenameRange(analysis, position)?.start).toEqual(position);
+    expect(getRenameLocations(analysis, position, "Mode").map((loc) => loc.start)).toEqual([
+      positionOf(program, "State"),
+      position,
+    ]);
+  });
+
+  it("should reject names that aren't identifiers", () => {
+    const position = positionOf(program, "move");
+
+    expect(() => getRenameLocations(analysis, position, "match")).toThrow("isn't a valid name");
+    expect(() => getRenameLocations(analysis, position, "2fast")).toThrow("isn't a valid name");
+    expect(getRenameRange(analysis, positionOf(program, "rect"))).toBeNull();
+  });
+});
+
+describe("getDocumentSymbols", () => {
+  it("should list definitions in source order", () => {
+    expect(
+      getDocumentSymbols(analysis).map(({ name, kind, detail }) => [name, kind, detail])
+    ).toEqual([
+      ["State", "enum", "{ Idle, Running(speed) }"],
+      ["move", "function", "(x, speed)"],
+      ["pos", "variable", ""],
+      ["state", "variable", ""],
+    ]);
+  });
+});
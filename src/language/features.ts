@@ -0,0 +1,338 @@
+/**
+ * Editor features for Ragelang
+ *
+ * Completion, hover, signature help, navigation, rename and document symbols,
+ * all answered from a DocumentAnalysis. Positions are 1-based, in the original
+ * source, so editors only have to convert to their own conventions.
+ */
+
+import { KEYWORDS, TokenType } from "../lexer/tokens.js";
+import type { SourceLocation, SourcePosition } from "../parser/ast.js";
+import {
+  BUILTINS,
+  formatSignature,
+  getBuiltinSpec,
+  type BuiltinSpec,
+} from "../runtime/registry.js";
+import {
+  comparePositions,
+  containsPosition,
+  findSymbolAt,
+  type DocumentAnalysis,
+  type RageSymbol,
+  type SymbolKind,
+} from "./analysis.js";
+
+export type CompletionKind = SymbolKind | "keyword" | "builtin" | "variant";
+
+export interface Completion {
+  label: string;
+  kind: CompletionKind;
+  detail: string;
+  documentation?: string; // Markdown
+}
+
+export interface Hover {
+  contents: string; // Markdown
+  range: SourceLocation;
+}
+
+export interface SignatureHelp {
+  label: string; // "rect(x, y, width, height, color, alpha = 1)"
+  parameters: string[];
+  activeParameter: number;
+  documentation?: string;
+}
+
+export interface DocumentSymbol {
+  name: string;
+  kind: SymbolKind;
+  detail: string;
+  range: SourceLocation; // The whole definition
+  selectionRange: SourceLocation; // The name
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function describeBuiltin(spec: BuiltinSpec): string {
+  return codeBlock(formatSignature(spec)) + `\n\n${spec.doc}`;
+}
+
+function variantSignature(enumName: string, variant: RageSymbol["variants"][number]): string {
+  const fields = variant.fields.length > 0 ? `(${variant.fields.join(", ")})` : "";
+  return `${enumName}.${variant.name}${fields}`;
+}
+
+function describeSymbol(symbol: RageSymbol): string {
+  switch (symbol.kind) {
+    case "function":
+      return `fun ${symbol.name}(${symbol.parameters.join(", ")})`;
+    case "enum": {
+      const variants = symbol.variants.map((variant) =>
+        variant.fields.length > 0 ? `${variant.name}(${variant.fields.join(", ")})` : variant.name
+      );
+      return `enum ${symbol.name} { ${variants.join(", ")} }`;
+    }
+    case "variable":
+      return symbol.name;
+  }
+}
+
+function codeBlock(code: string): string {
+  return "```ragelang\n" + code + "\n```";
+}
+
+/**
+ * Get the line up to a position
+ */
+function textBefore(analysis: DocumentAnalysis, position: SourcePosition): string {
+  const line = analysis.source.split("\n")[position.line - 1] ?? "";
+  return line.slice(0, position.column - 1);
+}
+
+/**
+ * Find the identifier under (or just before) a position
+ */
+function wordAt(
+  analysis: DocumentAnalysis,
+  position: SourcePosition
+): { word: string; range: SourceLocation } | null {
+  const line = analysis.source.split("\n")[position.line - 1] ?? "";
+  const index = position.column - 1;
+  let start = index;
+  let end = index;
+  while (start > 0 && /\w/.test(line[start - 1])) start--;
+  while (end < line.length && /\w/.test(line[end])) end++;
+
+  const word = line.slice(start, end);
+  if (!IDENTIFIER.test(word)) return null;
+  return {
+    word,
+    range: {
+      start: { line: position.line, column: start + 1 },
+      end: { line: position.line, column: end + 1 },
+    },
+  };
+}
+
+/**
+ * Get completions at a position: an enum's variants after "Enum.", otherwise
+ * every keyword, builtin and symbol (editors filter by what's been typed)
+ */
+export function getCompletions(analysis: DocumentAnalysis, position: SourcePosition): Completion[] {
+  const member = /([A-Za-z_]\w*)\.\w*$/.exec(textBefore(analysis, position));
+  if (member) {
+    // Only enums have members we know about
+    const symbol = analysis.symbols.get(member[1]);
+    if (symbol?.kind !== "enum") return [];
+    return symbol.variants.map((variant) => ({
+      label: variant.name,
+      kind: "variant",
+      detail: variantSignature(symbol.name, variant),
+    }));
+  }
+
+  const completions: Completion[] = Object.keys(KEYWORDS).map((keyword) => ({
+    label: keyword,
+    kind: "keyword",
+    detail: "keyword",
+  }));
+  for (const symbol of analysis.symbols.values()) {
+    completions.push({ label: symbol.name, kind: symbol.kind, detail: describeSymbol(symbol) });
+  }
+  for (const spec of BUILTINS) {
+    // The document's own definitions shadow builtins
+    if (analysis.symbols.has(spec.name)) continue;
+    completions.push({
+      label: spec.name,
+      kind: "builtin",
+      detail: formatSignature(spec),
+      documentation: spec.doc,
+    });
+  }
+  return completions;
+}
+
+/**
+ * Explain what's at a position: a falling character, a symbol or a builtin
+ */
+export function getHover(analysis: DocumentAnalysis, position: SourcePosition): Hover | null {
+  const row = position.line - 1;
+  const col = position.column - 1;
+  if (analysis.unsupported.some((pos) => pos.row === row && pos.col === col)) {
+    return {
+      contents:
+        "**Falling character**\n\n" +
+        "Nothing below this character holds it up, so it falls until it lands on " +
+        "something. Support it with a character directly or diagonally below.",
+      range: {
+        start: position,
+        end: { line: position.line, column: position.column + 1 },
+      },
+    };
+  }
+
+  const word = wordAt(analysis, position);
+  if (!word) return null;
+
+  const symbol = findSymbolAt(analysis, position);
+  if (symbol) {
+    const note = symbol.kind === "variable" ? "\n\nGlobal variable" : "";
+    return { contents: codeBlock(describeSymbol(symbol)) + note, range: word.range };
+  }
+  const spec = analysis.symbols.has(word.word) ? undefined : getBuiltinSpec(word.word);
+  if (spec) {
+    return { contents: describeBuiltin(spec), range: word.range };
+  }
+  return null;
+}
+
+/**
+ * Find the call a position is inside, and which argument it's at.
+ * Keyword arguments (`rect(color = "red")`) pick their parameter by name.
+ */
+export function getSignatureHelp(
+  analysis: DocumentAnalysis,
+  position: SourcePosition
+): SignatureHelp | null {
+  interface Frame {
+    callee: string | null; // null for brackets, braces and grouping parentheses
+    argument: number;
+    keyword: string | null;
+  }
+  const frames: Frame[] = [];
+  const tokens = analysis.tokens;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (comparePositions(token, position) >= 0) break;
+    const top = frames[frames.length - 1];
+
+    switch (token.type) {
+      case TokenType.LPAREN: {
+        const previous = tokens[i - 1];
+        const callee = previous?.type === TokenType.IDENTIFIER ? previous.lexeme : null;
+        frames.push({ callee, argument: 0, keyword: null });
+        break;
+      }
+      case TokenType.LBRACKET:
+      case TokenType.LBRACE:
+        frames.push({ callee: null, argument: 0, keyword: null });
+        break;
+      case TokenType.RPAREN:
+      case TokenType.RBRACKET:
+      case TokenType.RBRACE:
+        frames.pop();
+        break;
+      case TokenType.COMMA:
+        if (top) {
+          top.argument++;
+          top.keyword = null;
+        }
+        break;
+      case TokenType.EQUAL: {
+        const previous = tokens[i - 1];
+        if (top?.callee && previous?.type === TokenType.IDENTIFIER) {
+          top.keyword = previous.lexeme;
+        }
+        break;
+      }
+    }
+  }
+
+  const call = frames[frames.length - 1];
+  if (!call?.callee) return null;
+
+  const symbol = analysis.symbols.get(call.callee);
+  const spec = symbol ? undefined : getBuiltinSpec(call.callee);
+  let help: Omit<SignatureHelp, "activeParameter">;
+  if (symbol?.kind === "function") {
+    help = {
+      label: `${symbol.name}(${symbol.parameters.join(", ")})`,
+      parameters: symbol.parameters,
+    };
+  } else if (spec) {
+    const parameters = spec.params.map((param) => param.name);
+    help = {
+      label: formatSignature(spec),
+      parameters: spec.rest ? [...parameters, `...${spec.rest.name}`] : parameters,
+      documentation: spec.doc,
+    };
+  } else {
+    return null;
+  }
+
+  // Past the last parameter, extra arguments go to the rest parameter
+  const activeParameter = call.keyword
+    ? help.parameters.indexOf(call.keyword)
+    : spec?.rest
+      ? Math.min(call.argument, help.parameters.length - 1)
+      : call.argument;
+  return { ...help, activeParameter };
+}
+
+/**
+ * Find where the symbol at a position is defined
+ */
+export function getDefinition(
+  analysis: DocumentAnalysis,
+  position: SourcePosition
+): SourceLocation | null {
+  return findSymbolAt(analysis, position)?.definition ?? null;
+}
+
+/**
+ * Find every use of the symbol at a position
+ */
+export function getReferences(
+  analysis: DocumentAnalysis,
+  position: SourcePosition,
+  includeDeclaration: boolean
+): SourceLocation[] {
+  const symbol = findSymbolAt(analysis, position);
+  if (!symbol) return [];
+  if (includeDeclaration) return symbol.references;
+  return symbol.references.filter((loc) => comparePositions(loc.start, symbol.definition.start));
+}
+
+/**
+ * Get the name a rename at a position would change, or null if there's nothing to rename
+ */
+export function getRenameRange(
+  analysis: DocumentAnalysis,
+  position: SourcePosition
+): SourceLocation | null {
+  const symbol = findSymbolAt(analysis, position);
+  return symbol?.references.find((loc) => containsPosition(loc, position)) ?? null;
+}
+
+/**
+ * Get the locations to replace with newName to rename the symbol at a position
+ * @throws Error if newName can't be used as a name
+ */
+export function getRenameLocations(
+  analysis: DocumentAnalysis,
+  position: SourcePosition,
+  newName: string
+): SourceLocation[] {
+  if (!IDENTIFIER.test(newName) || newName in KEYWORDS) {
+    throw new Error(`'${newName}' isn't a valid name`);
+  }
+  return findSymbolAt(analysis, position)?.references ?? [];
+}
+
+/**
+ * List the functions, enums and global variables the document defines, in source order
+ */
+export function getDocumentSymbols(analysis: DocumentAnalysis): DocumentSymbol[] {
+  return [...analysis.symbols.values()]
+    .sort((a, b) => comparePositions(a.definition.start, b.definition.start))
+    .map((symbol) => ({
+      name: symbol.name,
+      kind: symbol.kind,
+      detail:
+        symbol.kind === "variable" ? "" : describeSymbol(symbol).replace(/^(fun|enum) \w+ ?/, ""),
+      range: symbol.declaration,
+      selectionRange: symbol.definition,
+    }));
+}
@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+/**
+ * Ragelang language server
+ *
+ * Speaks the Language Server Protocol over stdio (or IPC, when an editor
+ * starts it as a Node module), so any editor with an LSP client gets
+ * diagnostics, completion, hover, signature help, navigation and rename.
+ * Each open document keeps an IncrementalFallingProcessor, so typing only
+ * re-checks the characters an edit could affect.
+ */
+
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  MarkupKind,
+  ProposedFeatures,
+  ResponseError,
+  ErrorCodes,
+  SymbolKind as LspSymbolKind,
+  TextDocumentSyncKind,
+  createConnection,
+  type Diagnostic,
+  type Location,
+  type Position,
+  type Range,
+  type TextDocumentIdentifier,
+  type TextDocumentPositionParams,
+} from "vscode-languageserver/node.js";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { IncrementalFallingProcessor } from "../falling/incremental.js";
+import type { SourceLocation, SourcePosition } from "../parser/ast.js";
+import { analyzeDocument, type DocumentAnalysis, type SymbolKind } from "./analysis.js";
+import {
+  getCompletions,
+  getDefinition,
+  getDocumentSymbols,
+  getHover,
+  getReferences,
+  getRenameLocations,
+  getRenameRange,
+  getSignatureHelp,
+  type CompletionKind,
+} from "./features.js";
+
+interface OpenDocument {
+  document: TextDocument;
+  processor: IncrementalFallingProcessor;
+  analysis: DocumentAnalysis | null; // Computed when first needed after each change
+}
+
+const COMPLETION_KINDS: Record<CompletionKind, CompletionItemKind> = {
+  keyword: CompletionItemKind.Keyword,
+  builtin: CompletionItemKind.Function,
+  function: CompletionItemKind.Function,
+  enum: CompletionItemKind.Enum,
+  variable: CompletionItemKind.Variable,
+  variant: CompletionItemKind.EnumMember,
+};
+
+const SYMBOL_KINDS: Record<SymbolKind, LspSymbolKind> = {
+  function: LspSymbolKind.Function,
+  enum: LspSymbolKind.Enum,
+  variable: LspSymbolKind.Variable,
+};
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new Map<string, OpenDocument>();
+
+// LSP positions are 0-based, Ragelang's are 1-based
+
+function toSourcePosition(position: Position): SourcePosition {
+  return { line: position.line + 1, column: position.character + 1 };
+}
+
+function toRange(loc: SourceLocation): Range {
+  return {
+    start: { line: loc.start.line - 1, character: loc.start.column - 1 },
+    end: { line: loc.end.line - 1, character: loc.end.column - 1 },
+  };
+}
+
+function analyze(uri: string): DocumentAnalysis | null {
+  const open = documents.get(uri);
+  if (!open) return null;
+  open.analysis ??= analyzeDocument(open.document.getText(), open.processor);
+  return open.analysis;
+}
+
+function publishDiagnostics(uri: string): void {
+  const analysis = analyze(uri);
+  if (!analysis) return;
+
+  const diagnostics: Diagnostic[] = analysis.diagnostics.map((diagnostic) => ({
+    range: {
+      start: { line: diagnostic.line - 1, character: diagnostic.column - 1 },
+      end: { line: diagnostic.endLine - 1, character: diagnostic.endColumn - 1 },
+    },
+    severity:
+      diagnostic.severity === "error" ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+    code: diagnostic.code,
+    source: "ragelang",
+    message: diagnostic.message,
+  }));
+  void connection.sendDiagnostics({ uri, diagnostics });
+}
+
+/**
+ * Run a feature against a request's document and position
+ */
+function atPosition<T>(
+  params: TextDocumentPositionParams,
+  feature: (analysis: DocumentAnalysis, position: SourcePosition) => T
+): T | null {
+  const analysis = analyze(params.textDocument.uri);
+  return analysis ? feature(analysis, toSourcePosition(params.position)) : null;
+}
+
+function toLocations(document: TextDocumentIdentifier, locs: SourceLocation[]): Location[] {
+  return locs.map((loc) => ({ uri: document.uri, range: toRange(loc) }));
+}
+
+connection.onInitialize(() => ({
+  capabilities: {
+    textDocumentSync: {
+      openClose: true,
+      change: TextDocumentSyncKind.Incremental,
+    },
+    completionProvider: { triggerCharacters: ["."] },
+    hoverProvider: true,
+    signatureHelpProvider: { triggerCharacters: ["(", ","] },
+    definitionProvider: true,
+    referencesProvider: true,
+    documentSymbolProvider: true,
+    renameProvider: { prepareProvider: true },
+  },
+}));
+
+connection.onDidOpenTextDocument(({ textDocument }) => {
+  const { uri, languageId, version, text } = textDocument;
+  documents.set(uri, {
+    document: TextDocument.create(uri, languageId, version, text),
+    processor: new IncrementalFallingProcessor(text),
+    analysis: null,
+  });
+  publishDiagnostics(uri);
+});
+
+connection.onDidChangeTextDocument(({ textDocument, contentChanges }) => {
+  const open = documents.get(textDocument.uri);
+  if (!open) return;
+
+  for (const change of contentChanges) {
+    if ("range" in change) {
+      const { start, end } = change.range;
+      open.processor.applyEdit({
+        startRow: start.line,
+        startCol: start.character,
+        endRow: end.line,
+        endCol: end.character,
+        text: change.text,
+      });
+    } else {
+      open.processor.setText(change.text);
+    }
+  }
+  open.document = TextDocument.update(open.document, contentChanges, textDocument.version);
+  open.analysis = null;
+  publishDiagnostics(textDocument.uri);
+});
+
+connection.onDidCloseTextDocument(({ textDocument }) => {
+  documents.delete(textDocument.uri);
+  void connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [] });
+});
+
+connection.onCompletion((params) =>
+  atPosition(params, (analysis, position) =>
+    getCompletions(analysis, position).map((completion) => ({
+      label: completion.label,
+      kind: COMPLETION_KINDS[completion.kind],
+      detail: completion.detail,
+      documentation: completion.documentation,
+    }))
+  )
+);
+
+connection.onHover((params) =>
+  atPosition(params, (analysis, position) => {
+    const hover = getHover(analysis, position);
+    if (!hover) return null;
+    return {
+      contents: { kind: MarkupKind.Markdown, value: hover.contents },
+      range: toRange(hover.range),
+    };
+  })
+);
+
+connection.onSignatureHelp((params) =>
+  atPosition(params, (analysis, position) => {
+    const help = getSignatureHelp(analysis, position);
+    if (!help) return null;
+    // Parameters are given as offsets into the label, since names like "h" in
+    // "hsl(h, s, l)" can also appear before them
+    let offset = help.label.indexOf("(");
+    const parameters = help.parameters.map((name) => {
+      const start = help.label.indexOf(name, offset);
+      offset = start + name.length;
+      return { label: [start, offset] as [number, number] };
+    });
+    return {
+      signatures: [{ label: help.label, documentation: help.documentation, parameters }],
+      activeSignature: 0,
+      activeParameter: help.activeParameter,
+    };
+  })
+);
+
+connection.onDefinition((params) =>
+  atPosition(params, (analysis, position) => {
+    const definition = getDefinition(analysis, position);
+    return definition ? toLocations(params.textDocument, [definition]) : null;
+  })
+);
+
+connection.onReferences((params) =>
+  atPosition(params, (analysis, position) =>
+    toLocations(
+      params.textDocument,
+      getReferences(analysis, position, params.context.includeDeclaration)
+    )
+  )
+);
+
+connection.onDocumentSymbol(({ textDocument }) => {
+  const analysis = analyze(textDocument.uri);
+  if (!analysis) return null;
+  return getDocumentSymbols(analysis).map((symbol) => ({
+    name: symbol.name,
+    kind: SYMBOL_KINDS[symbol.kind],
+    detail: symbol.detail,
+    range: toRange(symbol.range),
+    selectionRange: toRange(symbol.selectionRange),
+  }));
+});
+
+connection.onPrepareRename((params) =>
+  atPosition(params, (analysis, position) => {
+    const range = getRenameRange(analysis, position);
+    return range ? toRange(range) : null;
+  })
+);
+
+connection.onRenameRequest((params) =>
+  atPosition(params, (analysis, position) => {
+    let locs: SourceLocation[];
+    try {
+      locs = getRenameLocations(analysis, position, params.newName);
+    } catch (error) {
+      throw new ResponseError(ErrorCodes.InvalidParams, (error as Error).message);
+    }
+    const edits = locs.map((loc) => ({ range: toRange(loc), newText: params.newName }));
+    return { changes: { [params.textDocument.uri]: edits } };
+  })
+);
+
+connection.listen();
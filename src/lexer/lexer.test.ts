@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { Lexer } from "./lexer.js";
 import { TokenType } from "./tokens.js";
+import { FallingProcessor } from "../falling/processor.js";
 
 describe("Lexer", () => {
   it("should tokenize simple identifiers", () => {
@@ -133,6 +134,20 @@ describe("Lexer", () => {
     expect(tokens[2].type).toBe(TokenType.FOUNDATION);
   });
 
+  it("should tokenize custom foundation markers", () => {
+    const lexer = new Lexer("@#$ x", { foundation: "@$x" });
+    const tokens = lexer.tokenize();
+
+    expect(tokens.map((t) => t.type)).toEqual([
+      TokenType.FOUNDATION,
+      TokenType.FOUNDATION,
+      TokenType.FOUNDATION,
+      TokenType.IDENTIFIER, // Language characters are never foundation markers
+      TokenType.EOF,
+    ]);
+    expect(tokens[0].lexeme).toBe("@");
+  });
+
   it("should tokenize a complete program", () => {
     const source = `
 player = prototype()
@@ -439,4 +454,46 @@ match state {
     expect(tokens[2].type).toBe(TokenType.NULL);
     expect(tokens[2].lexeme).toBe("null");
   });
+
+  it("should report token positions in the original source when given a source map", () => {
+    const source = `  b
+a
+###`;
+    const processor = new FallingProcessor(source);
+    const processed = processor.process();
+    const lexer = new Lexer(processed, { sourceMap: processor.getSourceMap() });
+    const tokens = lexer.tokenize();
+
+    const a = tokens.find((t) => t.lexeme === "a")!;
+    const b = tokens.find((t) => t.lexeme === "b")!;
+    expect(a.line).toBe(2);
+    expect(a.column).toBe(1);
+    // b fell onto line 2, but was written on line 1
+    expect(b.line).toBe(1);
+    expect(b.column).toBe(3);
+  });
+
+  it("should throw on an unterminated string", () => {
+    expect(() => new Lexer('x = "abc\ny = 1').tokenize()).toThrow("Unterminated string at line 1");
+  });
+
+  it("should carry on after an unterminated string when collecting diagnostics", () => {
+    const { tokens, diagnostics } = new Lexer('x = 1\ny = "abc\nz = 2').tokenizeWithDiagnostics();
+
+    expect(diagnostics).toEqual([
+      {
+        code: "unterminated-string",
+        severity: "error",
+        message: "Unterminated string",
+        line: 2,
+        column: 5,
+        endLine: 2,
+        endColumn: 9,
+      },
+    ]);
+    // The string is cut off at the end of its line, and lexing carries on
+    expect(tokens.find((t) => t.type === TokenType.STRING)?.literal).toBe("abc");
+    expect(tokens.find((t) => t.lexeme === "z")).toMatchObject({ line: 3, column: 1 });
+    expect(tokens[tokens.length - 1].type).toBe(TokenType.EOF);
+  });
 });
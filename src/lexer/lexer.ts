@@ -1,4 +1,16 @@
 import { TokenType, Token, KEYWORDS } from "./tokens.js";
+import type { SourceMap } from "../falling/sourcemap.js";
+import { RageSyntaxError, type Diagnostic } from "../diagnostics/diagnostic.js";
+
+export interface LexerOptions {
+  /** Map token positions in processed source back to the original file */
+  sourceMap?: SourceMap;
+  /**
+   * Extra characters to treat as foundation markers, besides #.
+   * Only characters the lexer would otherwise ignore (like @ or $) can be used.
+   */
+  foundation?: string;
+}
 
 /**
  * Lexer for Ragelang
@@ -11,9 +23,15 @@ export class Lexer {
   private current = 0;
   private line = 1;
   private column = 1;
+  private sourceMap: SourceMap | null;
+  private foundationChars: string;
+  private recover = false;
+  private diagnostics: Diagnostic[] = [];
 
-  constructor(source: string) {
+  constructor(source: string, options: LexerOptions = {}) {
     this.source = source;
+    this.sourceMap = options.sourceMap ?? null;
+    this.foundationChars = options.foundation ?? "";
   }
 
   tokenize(): Token[] {
@@ -22,7 +40,7 @@ export class Lexer {
       this.scanToken();
     }
 
-    this.tokens.push({
+    this.pushToken({
       type: TokenType.EOF,
       lexeme: "",
       literal: null,
@@ -33,6 +51,31 @@ export class Lexer {
     return this.tokens;
   }
 
+  /**
+   * Tokenize without stopping at errors.
+   * An unterminated string is assumed to end at the end of its line.
+   */
+  tokenizeWithDiagnostics(): { tokens: Token[]; diagnostics: Diagnostic[] } {
+    this.recover = true;
+    const tokens = this.tokenize();
+    return { tokens, diagnostics: this.diagnostics };
+  }
+
+  /**
+   * Get the errors found so far (only collected by tokenizeWithDiagnostics)
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Get the tokens scanned so far.
+   * Useful after tokenize() throws, to inspect everything before the error.
+   */
+  getTokens(): Token[] {
+    return this.tokens;
+  }
+
   private scanToken(): void {
     const c = this.advance();
 
@@ -186,6 +229,8 @@ export class Lexer {
           this.number();
         } else if (this.isAlpha(c)) {
           this.identifier();
+        } else if (this.foundationChars.includes(c)) {
+          this.foundation();
         } else {
           // Unknown character - could be part of art/supports
           // We'll skip it for now
@@ -200,7 +245,7 @@ export class Lexer {
       this.advance();
     }
     // Include the comment token for support tracking
-    this.tokens.push({
+    this.pushToken({
       type: TokenType.COMMENT,
       lexeme: this.source.substring(this.start, this.current),
       literal: null,
@@ -212,9 +257,9 @@ export class Lexer {
   private foundation(): void {
     const startColumn = this.column - 1;
     // We already consumed one #, now just add the token
-    this.tokens.push({
+    this.pushToken({
       type: TokenType.FOUNDATION,
-      lexeme: "#",
+      lexeme: this.source.substring(this.start, this.current),
       literal: null,
       line: this.line,
       column: startColumn,
@@ -222,6 +267,7 @@ export class Lexer {
   }
 
   private string(): void {
+    const startLine = this.line;
     const startColumn = this.column - 1;
     while (this.peek() !== '"' && !this.isAtEnd()) {
       if (this.peek() === "\n") {
@@ -232,7 +278,8 @@ export class Lexer {
     }
 
     if (this.isAtEnd()) {
-      throw new Error(`Unterminated string at line ${this.line}`);
+      this.unterminatedString(startLine, startColumn);
+      return;
     }
 
     // Consume closing "
@@ -240,7 +287,7 @@ export class Lexer {
 
     // Trim the surrounding quotes
     const value = this.source.substring(this.start + 1, this.current - 1);
-    this.tokens.push({
+    this.pushToken({
       type: TokenType.STRING,
       lexeme: this.source.substring(this.start, this.current),
       literal: value,
@@ -249,6 +296,37 @@ export class Lexer {
     });
   }
 
+  private unterminatedString(startLine: number, startColumn: number): void {
+    const lineEnd = this.source.indexOf("\n", this.start);
+    const end = lineEnd === -1 ? this.source.length : lineEnd;
+    const { line, column } = this.mapPosition(startLine, startColumn);
+    const error = new RageSyntaxError({
+      code: "unterminated-string",
+      severity: "error",
+      message: "Unterminated string",
+      line,
+      column,
+      endLine: line,
+      endColumn: column + (end - this.start),
+    });
+    if (!this.recover) {
+      throw error;
+    }
+    this.diagnostics.push(error.diagnostic);
+
+    // Carry on lexing from the end of the line the string started on
+    this.current = end;
+    this.line = startLine;
+    this.column = startColumn + (end - this.start);
+    this.pushToken({
+      type: TokenType.STRING,
+      lexeme: this.source.substring(this.start, end),
+      literal: this.source.substring(this.start + 1, end),
+      line: startLine,
+      column: startColumn,
+    });
+  }
+
   private number(): void {
     const startColumn = this.column - 1;
     const firstChar = this.source[this.start];
@@ -260,7 +338,7 @@ export class Lexer {
         this.advance();
       }
       const lexeme = this.source.substring(this.start, this.current);
-      this.tokens.push({
+      this.pushToken({
         type: TokenType.NUMBER,
         lexeme,
         literal: parseInt(lexeme, 16),
@@ -277,7 +355,7 @@ export class Lexer {
         this.advance();
       }
       const lexeme = this.source.substring(this.start, this.current);
-      this.tokens.push({
+      this.pushToken({
         type: TokenType.NUMBER,
         lexeme,
         literal: parseInt(lexeme.slice(2), 2),
@@ -312,7 +390,7 @@ export class Lexer {
     }
 
     const lexeme = this.source.substring(this.start, this.current);
-    this.tokens.push({
+    this.pushToken({
       type: TokenType.NUMBER,
       lexeme,
       literal: parseFloat(lexeme),
@@ -335,7 +413,7 @@ export class Lexer {
 
     // Check for standalone underscore (wildcard pattern)
     if (text === "_") {
-      this.tokens.push({
+      this.pushToken({
         type: TokenType.UNDERSCORE,
         lexeme: text,
         literal: null,
@@ -351,7 +429,7 @@ export class Lexer {
     if (type === TokenType.TRUE) literal = true;
     else if (type === TokenType.FALSE) literal = false;
 
-    this.tokens.push({
+    this.pushToken({
       type,
       lexeme: text,
       literal,
@@ -402,9 +480,21 @@ export class Lexer {
     return this.isAlpha(c) || this.isDigit(c);
   }
 
+  /**
+   * Map a processed line/column back to the original source, if we have a source map
+   */
+  private mapPosition(line: number, column: number): { line: number; column: number } {
+    return this.sourceMap ? this.sourceMap.mapLineColumn(line, column) : { line, column };
+  }
+
+  private pushToken(token: Token): void {
+    const { line, column } = this.mapPosition(token.line, token.column);
+    this.tokens.push({ ...token, line, column });
+  }
+
   private addToken(type: TokenType, literal: string | number | boolean | null = null): void {
     const text = this.source.substring(this.start, this.current);
-    this.tokens.push({
+    this.pushToken({
       type,
       lexeme: text,
       literal,
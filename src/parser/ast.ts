@@ -2,6 +2,21 @@
  * AST node definitions for Ragelang
  */
 
+// Positions are in the original source (before falling), 1-based
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceLocation {
+  start: SourcePosition; // First character of the node's first token
+  end: SourcePosition; // Just past the last character of the node's last token
+}
+
+export interface BaseNode {
+  loc: SourceLocation;
+}
+
 export type ASTNode =
   | Program
   | DrawBlock
@@ -31,9 +46,10 @@ export type ASTNode =
   | ArrayLiteral
   | ObjectLiteral
   | PrototypeExpression
-  | MatchExpression;
+  | MatchExpression
+  | FunctionExpression;
 
-export interface Program {
+export interface Program extends BaseNode {
   type: "Program";
   body: Statement[];
 }
@@ -68,64 +84,72 @@ export type Expression =
   | ArrayLiteral
   | ObjectLiteral
   | PrototypeExpression
-  | MatchExpression;
+  | MatchExpression
+  | FunctionExpression;
 
-export interface DrawBlock {
+export interface DrawBlock extends BaseNode {
   type: "DrawBlock";
   body: BlockStatement;
 }
 
-export interface UpdateBlock {
+export interface UpdateBlock extends BaseNode {
   type: "UpdateBlock";
   parameter: string; // dt parameter
   body: BlockStatement;
 }
 
-export interface FunctionDeclaration {
+export interface FunctionDeclaration extends BaseNode {
   type: "FunctionDeclaration";
   name: string;
   parameters: string[];
   body: BlockStatement;
 }
 
-export interface ReturnStatement {
+// Anonymous function: fun (x) { ... }, or (x) => x * 2 or (x) => { ... }
+export interface FunctionExpression extends BaseNode {
+  type: "FunctionExpression";
+  parameters: string[];
+  body: BlockStatement | Expression; // An arrow function's expression is its return value
+}
+
+export interface ReturnStatement extends BaseNode {
   type: "ReturnStatement";
   argument: Expression | null;
 }
 
-export interface IfStatement {
+export interface IfStatement extends BaseNode {
   type: "IfStatement";
   condition: Expression;
   consequent: BlockStatement;
   alternate: BlockStatement | IfStatement | null;
 }
 
-export interface LoopStatement {
+export interface LoopStatement extends BaseNode {
   type: "LoopStatement";
   body: BlockStatement;
 }
 
-export interface BreakStatement {
+export interface BreakStatement extends BaseNode {
   type: "BreakStatement";
 }
 
-export interface BlockStatement {
+export interface BlockStatement extends BaseNode {
   type: "BlockStatement";
   body: Statement[];
 }
 
-export interface ExpressionStatement {
+export interface ExpressionStatement extends BaseNode {
   type: "ExpressionStatement";
   expression: Expression;
 }
 
-export interface VariableDeclaration {
+export interface VariableDeclaration extends BaseNode {
   type: "VariableDeclaration";
   name: string;
   init: Expression;
 }
 
-export interface AssignmentExpression {
+export interface AssignmentExpression extends BaseNode {
   type: "AssignmentExpression";
   operator: "=" | "+=" | "-=" | "*=" | "/=" | "%=" | "&=" | "|=" | "^=";
   left: Identifier | MemberExpression | IndexExpression;
@@ -133,27 +157,27 @@ export interface AssignmentExpression {
 }
 
 // Update expression for ++/-- operators
-export interface UpdateExpression {
+export interface UpdateExpression extends BaseNode {
   type: "UpdateExpression";
   operator: "++" | "--";
   argument: Identifier | MemberExpression | IndexExpression;
   prefix: boolean; // true for ++x, false for x++
 }
 
-export interface BinaryExpression {
+export interface BinaryExpression extends BaseNode {
   type: "BinaryExpression";
   operator: string;
   left: Expression;
   right: Expression;
 }
 
-export interface UnaryExpression {
+export interface UnaryExpression extends BaseNode {
   type: "UnaryExpression";
   operator: string;
   argument: Expression;
 }
 
-export interface CallExpression {
+export interface CallExpression extends BaseNode {
   type: "CallExpression";
   callee: Expression;
   arguments: CallArgument[];
@@ -165,61 +189,61 @@ export interface CallArgument {
   value: Expression;
 }
 
-export interface MemberExpression {
+export interface MemberExpression extends BaseNode {
   type: "MemberExpression";
   object: Expression;
   property: Identifier;
 }
 
-export interface IndexExpression {
+export interface IndexExpression extends BaseNode {
   type: "IndexExpression";
   object: Expression;
   index: Expression;
 }
 
 // Slice expression: arr[start:end] or arr[start:] or arr[:end] or arr[:]
-export interface SliceExpression {
+export interface SliceExpression extends BaseNode {
   type: "SliceExpression";
   object: Expression;
   start: Expression | null; // null means from beginning
   end: Expression | null; // null means to end
 }
 
-export interface Identifier {
+export interface Identifier extends BaseNode {
   type: "Identifier";
   name: string;
 }
 
-export interface NumberLiteral {
+export interface NumberLiteral extends BaseNode {
   type: "NumberLiteral";
   value: number;
 }
 
-export interface StringLiteral {
+export interface StringLiteral extends BaseNode {
   type: "StringLiteral";
   value: string;
 }
 
-export interface BooleanLiteral {
+export interface BooleanLiteral extends BaseNode {
   type: "BooleanLiteral";
   value: boolean;
 }
 
-export interface NullLiteral {
+export interface NullLiteral extends BaseNode {
   type: "NullLiteral";
 }
 
-export interface ArrayLiteral {
+export interface ArrayLiteral extends BaseNode {
   type: "ArrayLiteral";
   elements: Expression[];
 }
 
-export interface PrototypeExpression {
+export interface PrototypeExpression extends BaseNode {
   type: "PrototypeExpression";
 }
 
 // Object literal: {key: value, key2: value2}
-export interface ObjectLiteral {
+export interface ObjectLiteral extends BaseNode {
   type: "ObjectLiteral";
   properties: ObjectProperty[];
 }
@@ -230,7 +254,7 @@ export interface ObjectProperty {
 }
 
 // Enum declaration: enum State { Idle, Running(speed), Jumping(height, velocity) }
-export interface EnumDeclaration {
+export interface EnumDeclaration extends BaseNode {
   type: "EnumDeclaration";
   name: string;
   variants: EnumVariant[];
@@ -242,7 +266,7 @@ export interface EnumVariant {
 }
 
 // Match expression with pattern matching
-export interface MatchExpression {
+export interface MatchExpression extends BaseNode {
   type: "MatchExpression";
   subject: Expression;
   arms: MatchArm[];
@@ -260,21 +284,21 @@ export type Pattern =
   | IdentifierPattern // x (binds to value)
   | VariantPattern; // SomeEnum::Variant(x, y)
 
-export interface WildcardPattern {
+export interface WildcardPattern extends BaseNode {
   type: "WildcardPattern";
 }
 
-export interface LiteralPattern {
+export interface LiteralPattern extends BaseNode {
   type: "LiteralPattern";
   value: number | string | boolean | null;
 }
 
-export interface IdentifierPattern {
+export interface IdentifierPattern extends BaseNode {
   type: "IdentifierPattern";
   name: string;
 }
 
-export interface VariantPattern {
+export interface VariantPattern extends BaseNode {
   type: "VariantPattern";
   enumName: string | null; // Optional enum name (for fully qualified)
   variantName: string;
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { Lexer } from "../lexer/lexer.js";
 import { Parser } from "./parser.js";
+import { RageSyntaxError } from "../diagnostics/diagnostic.js";
 import {
   Program,
   VariableDeclaration,
@@ -14,6 +15,7 @@ import {
   UpdateBlock,
   IfStatement,
   FunctionDeclaration,
+  FunctionExpression,
   LoopStatement,
   ArrayLiteral,
   ObjectLiteral,
@@ -23,6 +25,8 @@ import {
   AssignmentExpression,
   ReturnStatement,
   SliceExpression,
+  UnaryExpression,
+  MemberExpression,
 } from "./ast.js";
 
 function parse(source: string): Program {
@@ -802,6 +806,59 @@ players = []
     expect((ast.body[0] as FunctionDeclaration).type).toBe("FunctionDeclaration");
   });
 
+  // ============ FUNCTION EXPRESSIONS ============
+
+  it("should parse anonymous functions", () => {
+    const ast = parse("double = fun (x) { return x * 2 }");
+
+    const fn = (ast.body[0] as VariableDeclaration).init as FunctionExpression;
+    expect(fn.type).toBe("FunctionExpression");
+    expect(fn.parameters).toEqual(["x"]);
+    expect(fn.body.type).toBe("BlockStatement");
+  });
+
+  it("should parse arrow functions with expression and block bodies", () => {
+    const ast = parse(`
+add = (a, b) => a + b
+tick = () => { count += 1 }
+make = () => {x: 1}
+`);
+
+    const [add, tick, make] = ast.body.map(
+      (stmt) => (stmt as VariableDeclaration).init as FunctionExpression
+    );
+    expect(add.parameters).toEqual(["a", "b"]);
+    expect(add.body.type).toBe("BinaryExpression");
+    expect(tick.parameters).toEqual([]);
+    expect(tick.body.type).toBe("BlockStatement");
+    expect(make.body.type).toBe("ObjectLiteral");
+  });
+
+  it("should tell arrow functions from parenthesized expressions", () => {
+    const ast = parse(`
+a = (x)
+b = (x, y) => x
+c = (x + 1) * 2
+`);
+
+    const [a, b, c] = ast.body.map((stmt) => (stmt as VariableDeclaration).init);
+    expect(a.type).toBe("Identifier");
+    expect(b.type).toBe("FunctionExpression");
+    expect(c.type).toBe("BinaryExpression");
+  });
+
+  it("should parse functions as arguments and object fields", () => {
+    const ast = parse(`
+on("hit", (e) => e.damage)
+enemy = {think: fun (self) { self.x += 1 }}
+`);
+
+    const call = (ast.body[0] as ExpressionStatement).expression as CallExpression;
+    expect(call.arguments[1].value.type).toBe("FunctionExpression");
+    const obj = (ast.body[1] as VariableDeclaration).init as ObjectLiteral;
+    expect(obj.properties[0].value.type).toBe("FunctionExpression");
+  });
+
   // ============ NULL LITERAL ============
 
   it("should parse null literal", () => {
@@ -865,3 +922,160 @@ result = match value {
     expect(obj.properties[0].value.type).toBe("NullLiteral");
   });
 });
+
+describe("Parser error recovery", () => {
+  function parseWithDiagnostics(source: string) {
+    return new Parser(new Lexer(source).tokenize()).parseWithDiagnostics();
+  }
+
+  it("should throw a syntax error with a diagnostic from parse()", () => {
+    expect(() => parse("print(1")).toThrow(RageSyntaxError);
+    expect(() => parse("x = )")).toThrow("Unexpected token: ) at line 1");
+    try {
+      parse("x = 1\nprint(1 2)");
+    } catch (error) {
+      expect((error as RageSyntaxError).diagnostic).toEqual({
+        code: "expected-token",
+        severity: "error",
+        message: "Expected ')' after arguments. Got: 2",
+        line: 2,
+        column: 9,
+        endLine: 2,
+        endColumn: 10,
+      });
+    }
+  });
+
+  it("should report every syntax error in one pass", () => {
+    const { program, diagnostics } = parseWithDiagnostics(`a = )
+b = 2
+c = [1, 2
+d = 4
+1 = e`);
+
+    expect(diagnostics.map((d) => [d.code, d.line])).toEqual([
+      ["unexpected-token", 1],
+      ["expected-token", 4],
+      ["invalid-assignment-target", 5],
+    ]);
+    expect(program.body.map((s) => (s as VariableDeclaration).name)).toEqual(["b", "d"]);
+  });
+
+  it("should recover inside blocks and keep the rest of the block", () => {
+    const { program, diagnostics } = parseWithDiagnostics(`fun f() {
+  x = * 2
+  return 1
+}
+y = 3`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: "unexpected-token", line: 2, column: 7 });
+    const fn = program.body[0] as FunctionDeclaration;
+    expect(fn.body.body.map((s) => s.type)).toEqual(["ReturnStatement"]);
+    expect(program.body[1]).toMatchObject({ type: "VariableDeclaration", name: "y" });
+  });
+
+  it("should skip the braces of a broken statement as a whole", () => {
+    const { program, diagnostics } = parseWithDiagnostics(`draw {
+  m = match x { + => 1 }
+  y = 2
+}`);
+
+    expect(diagnostics.map((d) => d.code)).toEqual(["unexpected-pattern"]);
+    const draw = program.body[0] as DrawBlock;
+    expect(draw.body.body).toEqual([
+      expect.objectContaining({ type: "VariableDeclaration", name: "y" }),
+    ]);
+  });
+
+  it("should report an unclosed block once", () => {
+    const { diagnostics } = parseWithDiagnostics(`draw {
+  if (x) {
+    y = 1`);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "expected-token",
+        message: "Expected '}' after block. Got: end of file",
+      }),
+    ]);
+  });
+
+  it("should report bad patterns and argument order", () => {
+    const { diagnostics } = parseWithDiagnostics(`m = match x { + => 1 }
+f(a=1, 2)
+++1`);
+
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "unexpected-pattern",
+      "positional-after-keyword",
+      "invalid-update-target",
+    ]);
+  });
+
+  it("should not report anything for valid programs", () => {
+    const { program, diagnostics } = parseWithDiagnostics("x = 1\nprint(x)");
+
+    expect(diagnostics).toEqual([]);
+    expect(program).toEqual(parse("x = 1\nprint(x)"));
+  });
+});
+
+describe("Parser source locations", () => {
+  it("should give every node the span of its tokens", () => {
+    const ast = parse(`x = 1 + foo(2)
+draw {
+  print(x)
+}`);
+
+    expect(ast.loc).toEqual({ start: { line: 1, column: 1 }, end: { line: 4, column: 2 } });
+
+    const decl = ast.body[0] as VariableDeclaration;
+    expect(decl.loc).toEqual({ start: { line: 1, column: 1 }, end: { line: 1, column: 15 } });
+    const sum = decl.init as BinaryExpression;
+    expect(sum.loc).toEqual({ start: { line: 1, column: 5 }, end: { line: 1, column: 15 } });
+    expect(sum.left.loc).toEqual({ start: { line: 1, column: 5 }, end: { line: 1, column: 6 } });
+    const call = sum.right as CallExpression;
+    expect(call.callee.loc).toEqual({
+      start: { line: 1, column: 9 },
+      end: { line: 1, column: 12 },
+    });
+
+    const draw = ast.body[1] as DrawBlock;
+    expect(draw.loc).toEqual({ start: { line: 2, column: 1 }, end: { line: 4, column: 2 } });
+    expect(draw.body.loc.start).toEqual({ line: 2, column: 6 });
+    expect(draw.body.body[0].loc).toEqual({
+      start: { line: 3, column: 3 },
+      end: { line: 3, column: 11 },
+    });
+  });
+
+  it("should locate member names, patterns and prefix operators", () => {
+    const ast = parse(`y = -a.b
+m = match y { Some(v) => v, _ => 0 }`);
+
+    const neg = (ast.body[0] as VariableDeclaration).init as UnaryExpression;
+    expect(neg.loc).toEqual({ start: { line: 1, column: 5 }, end: { line: 1, column: 9 } });
+    const member = neg.argument as MemberExpression;
+    expect(member.property.loc).toEqual({
+      start: { line: 1, column: 8 },
+      end: { line: 1, column: 9 },
+    });
+
+    const match = (ast.body[1] as VariableDeclaration).init as MatchExpression;
+    expect(match.loc).toEqual({ start: { line: 2, column: 5 }, end: { line: 2, column: 37 } });
+    expect(match.arms[0].pattern.loc).toEqual({
+      start: { line: 2, column: 15 },
+      end: { line: 2, column: 22 },
+    });
+    expect(match.arms[1].pattern.loc.start).toEqual({ line: 2, column: 29 });
+  });
+
+  it("should span multi-line strings from their opening quote", () => {
+    const ast = parse(`s = "a
+bc"`);
+
+    const str = (ast.body[0] as VariableDeclaration).init as StringLiteral;
+    expect(str.loc).toEqual({ start: { line: 1, column: 5 }, end: { line: 2, column: 4 } });
+  });
+});
@@ -1,4 +1,11 @@
 import { Token, TokenType } from "../lexer/tokens.js";
+import {
+  RageSyntaxError,
+  describeToken,
+  tokenDiagnostic,
+  type Diagnostic,
+  type DiagnosticCode,
+} from "../diagnostics/diagnostic.js";
 import type {
   Program,
   Statement,
@@ -6,6 +13,7 @@ import type {
   DrawBlock,
   UpdateBlock,
   FunctionDeclaration,
+  FunctionExpression,
   EnumDeclaration,
   EnumVariant,
   ReturnStatement,
@@ -25,8 +33,23 @@ import type {
   MatchArm,
   Pattern,
   Identifier,
+  BaseNode,
+  SourceLocation,
+  SourcePosition,
 } from "./ast.js";
 
+// Keywords that start a new statement, where parsing can pick up after an error
+const STATEMENT_KEYWORDS = new Set([
+  TokenType.DRAW,
+  TokenType.UPDATE,
+  TokenType.FUN,
+  TokenType.ENUM,
+  TokenType.RETURN,
+  TokenType.IF,
+  TokenType.LOOP,
+  TokenType.BREAK,
+]);
+
 /**
  * Parser for Ragelang
  * Converts tokens into an AST
@@ -50,6 +73,9 @@ import type {
 export class Parser {
   private tokens: Token[];
   private current = 0;
+  private recover = false;
+  private blockDepth = 0;
+  private diagnostics: Diagnostic[] = [];
 
   constructor(tokens: Token[]) {
     // Filter out comments, foundation markers, and newlines for parsing
@@ -62,16 +88,124 @@ export class Parser {
   }
 
   parse(): Program {
+    const start = this.peek();
     const body: Statement[] = [];
 
     while (!this.isAtEnd()) {
-      const stmt = this.declaration();
+      const stmt = this.recoverableDeclaration();
       if (stmt) {
         body.push(stmt);
       }
     }
 
-    return { type: "Program", body };
+    // An empty program is an empty span at the end of the file
+    const end = this.current > 0 ? this.endOf(this.previous()) : this.startOf(start);
+    return { type: "Program", body, loc: { start: this.startOf(start), end } };
+  }
+
+  /**
+   * Parse without stopping at the first error.
+   * Statements with syntax errors are skipped and left out of the program.
+   */
+  parseWithDiagnostics(): { program: Program; diagnostics: Diagnostic[] } {
+    this.recover = true;
+    const program = this.parse();
+    return { program, diagnostics: this.diagnostics };
+  }
+
+  /**
+   * Get the errors found so far (only collected by parseWithDiagnostics)
+   */
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Parse a declaration, recording any syntax error and skipping to the
+   * next statement when recovering
+   */
+  private recoverableDeclaration(): Statement | null {
+    if (!this.recover) {
+      return this.declaration();
+    }
+
+    const start = this.current;
+    try {
+      return this.declaration();
+    } catch (error) {
+      if (!(error instanceof RageSyntaxError)) {
+        throw error;
+      }
+      this.report(error.diagnostic);
+      this.synchronize(start);
+      return null;
+    }
+  }
+
+  private report(diagnostic: Diagnostic): void {
+    // Unclosed blocks fail at the same token once per level of nesting
+    const last = this.diagnostics[this.diagnostics.length - 1];
+    if (last && last.line === diagnostic.line && last.column === diagnostic.column) {
+      return;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Skip tokens until something that looks like the start of a statement:
+   * a statement keyword, a token on a new line, or the end of the enclosing
+   * block. Braces opened by the failed statement are skipped as a whole.
+   * @param start Where the failed statement started, so we always make progress
+   */
+  private synchronize(start: number): void {
+    let open = 0;
+    for (let i = start; i < this.current; i++) {
+      if (this.tokens[i].type === TokenType.LBRACE) open++;
+      if (this.tokens[i].type === TokenType.RBRACE) open = Math.max(0, open - 1);
+    }
+    if (this.current === start) {
+      this.advance();
+    }
+
+    while (!this.isAtEnd()) {
+      if (open === 0) {
+        if (this.peek().line > this.previous().line) return;
+        if (STATEMENT_KEYWORDS.has(this.peek().type)) return;
+        if (this.check(TokenType.RBRACE) && this.blockDepth > 0) return;
+      }
+      if (this.check(TokenType.LBRACE)) open++;
+      if (this.check(TokenType.RBRACE)) open = Math.max(0, open - 1);
+      this.advance();
+    }
+  }
+
+  private error(token: Token, code: DiagnosticCode, message: string): RageSyntaxError {
+    return new RageSyntaxError(tokenDiagnostic(token, code, message));
+  }
+
+  /**
+   * Location from the start of a token or node to the end of the last token consumed
+   */
+  private locFrom(start: Token | BaseNode): SourceLocation {
+    return {
+      start: "loc" in start ? start.loc.start : this.startOf(start),
+      end: this.endOf(this.previous()),
+    };
+  }
+
+  private startOf(token: Token): SourcePosition {
+    // Multi-line strings report the line they end on
+    const extraLines = token.lexeme.split("\n").length - 1;
+    return { line: token.line - extraLines, column: token.column };
+  }
+
+  private endOf(token: Token): SourcePosition {
+    const lines = token.lexeme.split("\n");
+    const last = lines[lines.length - 1];
+    return {
+      line: token.line,
+      column: lines.length > 1 ? last.length + 1 : token.column + last.length,
+    };
   }
 
   private declaration(): Statement | null {
@@ -85,8 +219,8 @@ export class Parser {
       return this.updateBlock();
     }
 
-    // Check for function declaration
-    if (this.check(TokenType.FUN)) {
+    // Check for function declaration (without a name, it's a function expression)
+    if (this.check(TokenType.FUN) && this.peekNext()?.type === TokenType.IDENTIFIER) {
       return this.functionDeclaration();
     }
 
@@ -120,10 +254,26 @@ export class Parser {
   }
 
   private functionDeclaration(): FunctionDeclaration {
-    this.advance(); // consume 'fun'
+    const start = this.advance(); // consume 'fun'
     const name = this.consume(TokenType.IDENTIFIER, "Expected function name");
     this.consume(TokenType.LPAREN, "Expected '(' after function name");
+    const parameters = this.parameterList();
+    this.consume(TokenType.LBRACE, "Expected '{' before function body");
+    const body = this.blockStatement();
 
+    return {
+      type: "FunctionDeclaration",
+      name: name.lexeme,
+      parameters,
+      body,
+      loc: this.locFrom(start),
+    };
+  }
+
+  /**
+   * Parse parameter names up to and including the closing ')'
+   */
+  private parameterList(): string[] {
     const parameters: string[] = [];
     if (!this.check(TokenType.RPAREN)) {
       do {
@@ -133,19 +283,11 @@ export class Parser {
     }
 
     this.consume(TokenType.RPAREN, "Expected ')' after parameters");
-    this.consume(TokenType.LBRACE, "Expected '{' before function body");
-    const body = this.blockStatement();
-
-    return {
-      type: "FunctionDeclaration",
-      name: name.lexeme,
-      parameters,
-      body,
-    };
+    return parameters;
   }
 
   private returnStatement(): ReturnStatement {
-    this.advance(); // consume 'return'
+    const start = this.advance(); // consume 'return'
 
     // Check if there's a return value (not immediately followed by } or end)
     let argument: Expression | null = null;
@@ -153,24 +295,24 @@ export class Parser {
       argument = this.expression();
     }
 
-    return { type: "ReturnStatement", argument };
+    return { type: "ReturnStatement", argument, loc: this.locFrom(start) };
   }
 
   private loopStatement(): LoopStatement {
-    this.advance(); // consume 'loop'
+    const start = this.advance(); // consume 'loop'
     this.consume(TokenType.LBRACE, "Expected '{' after 'loop'");
     const body = this.blockStatement();
 
-    return { type: "LoopStatement", body };
+    return { type: "LoopStatement", body, loc: this.locFrom(start) };
   }
 
   private breakStatement(): BreakStatement {
-    this.advance(); // consume 'break'
-    return { type: "BreakStatement" };
+    const start = this.advance(); // consume 'break'
+    return { type: "BreakStatement", loc: this.locFrom(start) };
   }
 
   private enumDeclaration(): EnumDeclaration {
-    this.advance(); // consume 'enum'
+    const start = this.advance(); // consume 'enum'
     const name = this.consume(TokenType.IDENTIFIER, "Expected enum name");
     this.consume(TokenType.LBRACE, "Expected '{' after enum name");
 
@@ -202,28 +344,29 @@ export class Parser {
       type: "EnumDeclaration",
       name: name.lexeme,
       variants,
+      loc: this.locFrom(start),
     };
   }
 
   private drawBlock(): DrawBlock {
-    this.advance(); // consume 'draw'
+    const start = this.advance(); // consume 'draw'
     this.consume(TokenType.LBRACE, "Expected '{' after 'draw'");
     const body = this.blockStatement();
-    return { type: "DrawBlock", body };
+    return { type: "DrawBlock", body, loc: this.locFrom(start) };
   }
 
   private updateBlock(): UpdateBlock {
-    this.advance(); // consume 'update'
+    const start = this.advance(); // consume 'update'
     this.consume(TokenType.LPAREN, "Expected '(' after 'update'");
     const param = this.consume(TokenType.IDENTIFIER, "Expected parameter name");
     this.consume(TokenType.RPAREN, "Expected ')' after parameter");
     this.consume(TokenType.LBRACE, "Expected '{' after 'update(...)'");
     const body = this.blockStatement();
-    return { type: "UpdateBlock", parameter: param.lexeme, body };
+    return { type: "UpdateBlock", parameter: param.lexeme, body, loc: this.locFrom(start) };
   }
 
   private ifStatement(): IfStatement {
-    this.advance(); // consume 'if'
+    const start = this.advance(); // consume 'if'
     this.consume(TokenType.LPAREN, "Expected '(' after 'if'");
     const condition = this.expression();
     this.consume(TokenType.RPAREN, "Expected ')' after condition");
@@ -240,21 +383,33 @@ export class Parser {
       }
     }
 
-    return { type: "IfStatement", condition, consequent, alternate };
+    return {
+      type: "IfStatement",
+      condition,
+      consequent,
+      alternate,
+      loc: this.locFrom(start),
+    };
   }
 
   private blockStatement(): BlockStatement {
+    const start = this.previous(); // the '{', already consumed
     const statements: Statement[] = [];
 
-    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      const stmt = this.declaration();
-      if (stmt) {
-        statements.push(stmt);
+    this.blockDepth++;
+    try {
+      while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+        const stmt = this.recoverableDeclaration();
+        if (stmt) {
+          statements.push(stmt);
+        }
       }
+    } finally {
+      this.blockDepth--;
     }
 
     this.consume(TokenType.RBRACE, "Expected '}' after block");
-    return { type: "BlockStatement", body: statements };
+    return { type: "BlockStatement", body: statements, loc: this.locFrom(start) };
   }
 
   private expressionStatement(): ExpressionStatement | VariableDeclaration | null {
@@ -269,11 +424,12 @@ export class Parser {
           type: "VariableDeclaration",
           name: (assign.left as Identifier).name,
           init: assign.right,
+          loc: assign.loc,
         };
       }
     }
 
-    return { type: "ExpressionStatement", expression: expr };
+    return { type: "ExpressionStatement", expression: expr, loc: expr.loc };
   }
 
   private expression(): Expression {
@@ -281,6 +437,7 @@ export class Parser {
   }
 
   private assignment(): Expression {
+    const target = this.peek();
     const expr = this.logicalOr();
 
     // Check for all assignment operators
@@ -322,10 +479,11 @@ export class Parser {
           operator,
           left: expr as Identifier | MemberExpression | IndexExpression,
           right: value,
+          loc: this.locFrom(expr),
         };
       }
 
-      throw new Error("Invalid assignment target");
+      throw this.error(target, "invalid-assignment-target", "Invalid assignment target");
     }
 
     return expr;
@@ -343,6 +501,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -361,6 +520,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -378,6 +538,7 @@ export class Parser {
         operator: "|",
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -395,6 +556,7 @@ export class Parser {
         operator: "^",
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -412,6 +574,7 @@ export class Parser {
         operator: "&",
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -430,6 +593,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -450,6 +614,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -468,6 +633,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -486,6 +652,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -504,6 +671,7 @@ export class Parser {
         operator,
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -521,6 +689,7 @@ export class Parser {
         operator: "**",
         left: expr,
         right,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -531,30 +700,37 @@ export class Parser {
   private unary(): Expression {
     // Prefix ++/--
     if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
-      const operator = this.previous().lexeme as "++" | "--";
+      const operatorToken = this.previous();
+      const operator = operatorToken.lexeme as "++" | "--";
       const argument = this.unary();
       if (
         argument.type !== "Identifier" &&
         argument.type !== "MemberExpression" &&
         argument.type !== "IndexExpression"
       ) {
-        throw new Error("Invalid increment/decrement target");
+        throw this.error(
+          operatorToken,
+          "invalid-update-target",
+          "Invalid increment/decrement target"
+        );
       }
       return {
         type: "UpdateExpression",
         operator,
         argument: argument as Identifier | MemberExpression | IndexExpression,
         prefix: true,
+        loc: this.locFrom(operatorToken),
       };
     }
 
     if (this.match(TokenType.BANG, TokenType.MINUS, TokenType.TILDE)) {
-      const operator = this.previous().lexeme;
+      const operatorToken = this.previous();
       const argument = this.unary();
       return {
         type: "UnaryExpression",
-        operator,
+        operator: operatorToken.lexeme,
         argument,
+        loc: this.locFrom(operatorToken),
       };
     }
 
@@ -572,13 +748,18 @@ export class Parser {
         expr.type !== "MemberExpression" &&
         expr.type !== "IndexExpression"
       ) {
-        throw new Error("Invalid increment/decrement target");
+        throw this.error(
+          this.previous(),
+          "invalid-update-target",
+          "Invalid increment/decrement target"
+        );
       }
       return {
         type: "UpdateExpression",
         operator,
         argument: expr as Identifier | MemberExpression | IndexExpression,
         prefix: false,
+        loc: this.locFrom(expr),
       };
     }
 
@@ -596,7 +777,8 @@ export class Parser {
         expr = {
           type: "MemberExpression",
           object: expr,
-          property: { type: "Identifier", name: name.lexeme },
+          property: { type: "Identifier", name: name.lexeme, loc: this.locFrom(name) },
+          loc: this.locFrom(expr),
         };
       } else if (this.match(TokenType.LBRACKET)) {
         expr = this.finishIndexOrSlice(expr);
@@ -641,12 +823,14 @@ export class Parser {
         object,
         start,
         end,
+        loc: this.locFrom(object),
       };
     } else {
       return {
         type: "IndexExpression",
         object,
         index: start!,
+        loc: this.locFrom(object),
       };
     }
   }
@@ -668,8 +852,10 @@ export class Parser {
         } else {
           // Positional argument
           if (seenKeyword) {
-            throw new Error(
-              `Positional argument cannot follow keyword argument at line ${this.peek().line}`
+            throw this.error(
+              this.peek(),
+              "positional-after-keyword",
+              "Positional argument cannot follow keyword argument"
             );
           }
           args.push({ name: null, value: this.expression() });
@@ -683,6 +869,7 @@ export class Parser {
       type: "CallExpression",
       callee,
       arguments: args,
+      loc: this.locFrom(callee),
     };
   }
 
@@ -693,33 +880,60 @@ export class Parser {
 
   private primary(): Expression {
     if (this.match(TokenType.TRUE)) {
-      return { type: "BooleanLiteral", value: true };
+      return { type: "BooleanLiteral", value: true, loc: this.locFrom(this.previous()) };
     }
 
     if (this.match(TokenType.FALSE)) {
-      return { type: "BooleanLiteral", value: false };
+      return { type: "BooleanLiteral", value: false, loc: this.locFrom(this.previous()) };
     }
 
     if (this.match(TokenType.NULL)) {
-      return { type: "NullLiteral" };
+      return { type: "NullLiteral", loc: this.locFrom(this.previous()) };
     }
 
     if (this.match(TokenType.NUMBER)) {
-      return { type: "NumberLiteral", value: this.previous().literal as number };
+      return {
+        type: "NumberLiteral",
+        value: this.previous().literal as number,
+        loc: this.locFrom(this.previous()),
+      };
     }
 
     if (this.match(TokenType.STRING)) {
-      return { type: "StringLiteral", value: this.previous().literal as string };
+      return {
+        type: "StringLiteral",
+        value: this.previous().literal as string,
+        loc: this.locFrom(this.previous()),
+      };
     }
 
     if (this.match(TokenType.PROTOTYPE)) {
+      const start = this.previous();
       this.consume(TokenType.LPAREN, "Expected '(' after 'prototype'");
       this.consume(TokenType.RPAREN, "Expected ')' after 'prototype('");
-      return { type: "PrototypeExpression" };
+      return { type: "PrototypeExpression", loc: this.locFrom(start) };
     }
 
     if (this.match(TokenType.IDENTIFIER)) {
-      return { type: "Identifier", name: this.previous().lexeme };
+      return {
+        type: "Identifier",
+        name: this.previous().lexeme,
+        loc: this.locFrom(this.previous()),
+      };
+    }
+
+    if (this.match(TokenType.FUN)) {
+      // Anonymous function: fun (x) { ... }
+      const start = this.previous();
+      this.consume(TokenType.LPAREN, "Expected '(' after 'fun'");
+      const parameters = this.parameterList();
+      this.consume(TokenType.LBRACE, "Expected '{' before function body");
+      const body = this.blockStatement();
+      return { type: "FunctionExpression", parameters, body, loc: this.locFrom(start) };
+    }
+
+    if (this.check(TokenType.LPAREN) && this.isArrowFunction()) {
+      return this.arrowFunction();
     }
 
     if (this.match(TokenType.LPAREN)) {
@@ -730,6 +944,7 @@ export class Parser {
 
     if (this.match(TokenType.LBRACKET)) {
       // Array literal
+      const start = this.previous();
       const elements: Expression[] = [];
       if (!this.check(TokenType.RBRACKET)) {
         do {
@@ -737,7 +952,7 @@ export class Parser {
         } while (this.match(TokenType.COMMA));
       }
       this.consume(TokenType.RBRACKET, "Expected ']' after array elements");
-      return { type: "ArrayLiteral", elements };
+      return { type: "ArrayLiteral", elements, loc: this.locFrom(start) };
     }
 
     if (this.match(TokenType.LBRACE)) {
@@ -750,7 +965,11 @@ export class Parser {
       return this.matchExpression();
     }
 
-    throw new Error(`Unexpected token: ${this.peek().lexeme} at line ${this.peek().line}`);
+    throw this.error(
+      this.peek(),
+      "unexpected-token",
+      `Unexpected token: ${describeToken(this.peek())}`
+    );
   }
 
   // Helper methods
@@ -789,11 +1008,16 @@ export class Parser {
 
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw new Error(`${message}. Got: ${this.peek().lexeme} at line ${this.peek().line}`);
+    throw this.error(
+      this.peek(),
+      "expected-token",
+      `${message}. Got: ${describeToken(this.peek())}`
+    );
   }
 
   private objectLiteral(): ObjectLiteral {
     // We've already consumed the opening {
+    const start = this.previous();
     const properties: ObjectProperty[] = [];
 
     if (!this.check(TokenType.RBRACE)) {
@@ -807,11 +1031,37 @@ export class Parser {
 
     this.consume(TokenType.RBRACE, "Expected '}' after object properties");
 
-    return { type: "ObjectLiteral", properties };
+    return { type: "ObjectLiteral", properties, loc: this.locFrom(start) };
+  }
+
+  /**
+   * Lookahead to tell an arrow function's parameters from a parenthesized
+   * expression: ( IDENTIFIER, ... ) =>
+   */
+  private isArrowFunction(): boolean {
+    let index = this.current + 1;
+    while (this.tokens[index]?.type === TokenType.IDENTIFIER) {
+      index++;
+      if (this.tokens[index]?.type !== TokenType.COMMA) break;
+      index++;
+    }
+    return (
+      this.tokens[index]?.type === TokenType.RPAREN &&
+      this.tokens[index + 1]?.type === TokenType.FAT_ARROW
+    );
+  }
+
+  private arrowFunction(): FunctionExpression {
+    const start = this.advance(); // consume '('
+    const parameters = this.parameterList();
+    this.consume(TokenType.FAT_ARROW, "Expected '=>' after parameters");
+    const body = this.blockOrExpression();
+    return { type: "FunctionExpression", parameters, body, loc: this.locFrom(start) };
   }
 
   private matchExpression(): MatchExpression {
     // 'match' has already been consumed
+    const start = this.previous();
     const subject = this.expression();
     this.consume(TokenType.LBRACE, "Expected '{' after match subject");
 
@@ -821,18 +1071,18 @@ export class Parser {
       do {
         const pattern = this.pattern();
         this.consume(TokenType.FAT_ARROW, "Expected '=>' after pattern");
-        const body = this.matchArmBody();
+        const body = this.blockOrExpression();
         arms.push({ pattern, body });
       } while (this.match(TokenType.COMMA));
     }
 
     this.consume(TokenType.RBRACE, "Expected '}' after match arms");
 
-    return { type: "MatchExpression", subject, arms };
+    return { type: "MatchExpression", subject, arms, loc: this.locFrom(start) };
   }
 
   /**
-   * Parse the body of a match arm.
+   * Parse the body of a match arm or arrow function.
    * Could be either a block statement { ... } or a single expression.
    *
    * To distinguish between object literal { key: value } and block { statement },
@@ -841,7 +1091,7 @@ export class Parser {
    * - Otherwise, if we see { followed by IDENTIFIER followed by EQUAL or other statement-starters,
    *   it's a block statement
    */
-  private matchArmBody(): Expression | BlockStatement {
+  private blockOrExpression(): Expression | BlockStatement {
     if (this.check(TokenType.LBRACE)) {
       // Look ahead to determine if this is a block or object literal
       // Save current position for potential backtracking
@@ -927,33 +1177,42 @@ export class Parser {
   private pattern(): Pattern {
     // Wildcard pattern: _
     if (this.match(TokenType.UNDERSCORE)) {
-      return { type: "WildcardPattern" };
+      return { type: "WildcardPattern", loc: this.locFrom(this.previous()) };
     }
 
     // Literal patterns: numbers, strings, booleans
     if (this.match(TokenType.NUMBER)) {
-      return { type: "LiteralPattern", value: this.previous().literal as number };
+      return {
+        type: "LiteralPattern",
+        value: this.previous().literal as number,
+        loc: this.locFrom(this.previous()),
+      };
     }
 
     if (this.match(TokenType.STRING)) {
-      return { type: "LiteralPattern", value: this.previous().literal as string };
+      return {
+        type: "LiteralPattern",
+        value: this.previous().literal as string,
+        loc: this.locFrom(this.previous()),
+      };
     }
 
     if (this.match(TokenType.TRUE)) {
-      return { type: "LiteralPattern", value: true };
+      return { type: "LiteralPattern", value: true, loc: this.locFrom(this.previous()) };
     }
 
     if (this.match(TokenType.FALSE)) {
-      return { type: "LiteralPattern", value: false };
+      return { type: "LiteralPattern", value: false, loc: this.locFrom(this.previous()) };
     }
 
     if (this.match(TokenType.NULL)) {
-      return { type: "LiteralPattern", value: null };
+      return { type: "LiteralPattern", value: null, loc: this.locFrom(this.previous()) };
     }
 
     // Identifier or Variant pattern
     if (this.match(TokenType.IDENTIFIER)) {
-      const name = this.previous().lexeme;
+      const start = this.previous();
+      const name = start.lexeme;
 
       // Check if it's a variant pattern: Name(binding1, binding2)
       if (this.match(TokenType.LPAREN)) {
@@ -971,13 +1230,18 @@ export class Parser {
           enumName: null, // Will be inferred from match subject type
           variantName: name,
           bindings,
+          loc: this.locFrom(start),
         };
       }
 
       // Otherwise it's a simple identifier pattern (binds to the value)
-      return { type: "IdentifierPattern", name };
+      return { type: "IdentifierPattern", name, loc: this.locFrom(start) };
     }
 
-    throw new Error(`Unexpected pattern at line ${this.peek().line}`);
+    throw this.error(
+      this.peek(),
+      "unexpected-pattern",
+      `Unexpected pattern: ${describeToken(this.peek())}`
+    );
   }
 }
@@ -3,15 +3,10 @@
  * Provides drawing capabilities for 2D platformer games
  */
 
-export interface RenderOptions {
-  width: number;
-  height: number;
-}
+import { wrapText, type ErrorOverlayContent, type ErrorOverlayOptions } from "./overlay.js";
+import type { RenderContext, RenderOptions, Renderer } from "./renderer.js";
 
-export interface RenderContext {
-  canvas: HTMLCanvasElement;
-  ctx: CanvasRenderingContext2D;
-}
+export type { RenderContext, RenderOptions } from "./renderer.js";
 
 export interface SpriteData {
   image: HTMLImageElement;
@@ -21,7 +16,7 @@ export interface SpriteData {
 /**
  * Canvas-based renderer for Ragelang games
  */
-export class CanvasRenderer {
+export class CanvasRenderer implements Renderer {
   private canvas: HTMLCanvasElement | null;
   private ctx: CanvasRenderingContext2D | null;
   private width: number;
@@ -63,6 +58,11 @@ export class CanvasRenderer {
     return this.height;
   }
 
+  /**
+   * Start a frame (the canvas keeps whatever was drawn until it's cleared)
+   */
+  beginFrame(): void {}
+
   /**
    * Clear the canvas
    */
@@ -296,6 +296,45 @@ export class CanvasRenderer {
     this.ctx.globalAlpha = prevAlpha;
   }
 
+  /**
+   * Draw an error overlay over whatever is on the canvas
+   */
+  errorOverlay(content: ErrorOverlayContent, style: Required<ErrorOverlayOptions>): void {
+    if (!this.ctx) return;
+
+    const width = this.getWidth();
+    const padding = 24;
+    const size = 16;
+    const lineHeight = size * 1.5;
+    // Monospace characters are roughly 0.6em wide
+    const columns = Math.max(10, Math.floor((width - padding * 2) / (size * 0.6)));
+
+    this.ctx.save();
+    this.ctx.fillStyle = style.background;
+    this.ctx.fillRect(0, 0, width, this.getHeight());
+    this.ctx.textBaseline = "top";
+
+    let y = padding;
+    this.text(content.title, padding, y, size * 1.5, style.accentColor);
+    y += lineHeight * 1.5;
+    for (const line of wrapText(content.message, columns)) {
+      this.text(line, padding, y, size, style.textColor);
+      y += lineHeight;
+    }
+    if (content.location) {
+      this.text(content.location, padding, y, size, style.textColor, 0.7);
+      y += lineHeight;
+    }
+    y += lineHeight / 2;
+    for (const line of content.snippet) {
+      this.text(line, padding, y, size, style.accentColor);
+      y += lineHeight;
+    }
+    y += lineHeight / 2;
+    this.text(content.prompt, padding, y, size, style.textColor);
+    this.ctx.restore();
+  }
+
   /**
    * Get the render context
    */
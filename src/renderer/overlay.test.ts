@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { describeErrorForOverlay, wrapText } from "./overlay.js";
+import { RageRuntimeError } from "../runtime/errors.js";
+import { Lexer } from "../lexer/lexer.js";
+import { Parser } from "../parser/parser.js";
+
+describe("Error overlay", () => {
+  it("should describe runtime errors with their location and a snippet", () => {
+    const source = `x = 5
+y = 1 + x(2)`;
+    const error = new RageRuntimeError(
+      "Can only call functions or enum variant constructors",
+      { start: { line: 2, column: 9 }, end: { line: 2, column: 13 } },
+      [],
+      "update"
+    );
+
+    expect(describeErrorForOverlay(error, source)).toEqual({
+      title: "Runtime error",
+      message: "Can only call functions or enum variant constructors",
+      location: "line 2, column 9 in the update block",
+      snippet: ["y = 1 + x(2)", "        ^"],
+      prompt: "Press R to restart scene",
+    });
+  });
+
+  it("should describe syntax errors", () => {
+    const source = "x = )";
+    let error: Error | null = null;
+    try {
+      new Parser(new Lexer(source).tokenize()).parse();
+    } catch (e) {
+      error = e as Error;
+    }
+
+    const content = describeErrorForOverlay(error!, source, "Enter");
+    expect(content.title).toBe("Syntax error");
+    expect(content.message).toBe("Unexpected token: )");
+    expect(content.snippet).toEqual(["x = )", "    ^"]);
+    expect(content.prompt).toBe("Press Enter to restart scene");
+  });
+
+  it("should still describe errors without a location", () => {
+    const content = describeErrorForOverlay(new Error("Failed to load scene: 404"), "x = 1");
+
+    expect(content.location).toBeNull();
+    expect(content.snippet).toEqual([]);
+    expect(content.message).toBe("Failed to load scene: 404");
+  });
+
+  it("should wrap long messages at spaces", () => {
+    expect(wrapText("the quick brown fox", 10)).toEqual(["the quick", "brown fox"]);
+    expect(wrapText("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+    expect(wrapText("short", 10)).toEqual(["short"]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Error overlay for Ragelang
+ * Describes a crash so it can be drawn over the frozen game, instead of
+ * leaving players looking at the last frame.
+ */
+
+import { RageRuntimeError } from "../runtime/errors.js";
+import { RageSyntaxError } from "../diagnostics/diagnostic.js";
+import { FoundationError } from "../falling/foundation.js";
+
+export interface ErrorOverlayOptions {
+  /** Key that restarts the scene (a letter or key name, like "r" or "Enter") */
+  restartKey?: string;
+  background?: string;
+  textColor?: string;
+  accentColor?: string;
+}
+
+export const DEFAULT_ERROR_OVERLAY: Required<ErrorOverlayOptions> = {
+  restartKey: "r",
+  background: "rgba(20, 0, 8, 0.85)",
+  textColor: "#ffffff",
+  accentColor: "#ff3366",
+};
+
+export interface ErrorOverlayContent {
+  title: string;
+  message: string;
+  location: string | null; // e.g. "line 3, column 7 in the update block"
+  snippet: string[]; // The offending line and a caret under the column
+  prompt: string;
+}
+
+/**
+ * Describe an error for the overlay
+ * @param source The original source, for the snippet
+ */
+export function describeErrorForOverlay(
+  error: Error,
+  source: string,
+  restartKey: string = DEFAULT_ERROR_OVERLAY.restartKey
+): ErrorOverlayContent {
+  const position = errorPosition(error);
+  const keyName = restartKey.length === 1 ? restartKey.toUpperCase() : restartKey;
+
+  let location: string | null = null;
+  if (position) {
+    location = `line ${position.line}, column ${position.column}`;
+  }
+  if (error instanceof RageRuntimeError && error.block) {
+    location = `${location ?? "somewhere"} in the ${error.block} block`;
+  }
+
+  return {
+    title: error instanceof RageSyntaxError ? "Syntax error" : "Runtime error",
+    message: errorReason(error),
+    location,
+    snippet: position ? snippetAt(source, position.line, position.column) : [],
+    prompt: `Press ${keyName} to restart scene`,
+  };
+}
+
+/**
+ * Split text into lines of at most `width` characters, breaking at spaces where possible
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let rest = text;
+  while (rest.length > width) {
+    const space = rest.lastIndexOf(" ", width);
+    const cut = space > 0 ? space : width;
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  lines.push(rest);
+  return lines;
+}
+
+function errorPosition(error: Error): { line: number; column: number } | null {
+  if (error instanceof RageRuntimeError) {
+    return error.loc.start;
+  }
+  if (error instanceof RageSyntaxError) {
+    return error.diagnostic;
+  }
+  if (error instanceof FoundationError) {
+    return error;
+  }
+  return null;
+}
+
+function errorReason(error: Error): string {
+  if (error instanceof RageRuntimeError) {
+    return error.reason;
+  }
+  if (error instanceof RageSyntaxError) {
+    return error.diagnostic.message;
+  }
+  return error.message;
+}
+
+function snippetAt(source: string, line: number, column: number): string[] {
+  const text = source.split("\n")[line - 1];
+  if (text === undefined) {
+    return [];
+  }
+  // Keep the indentation the caret needs, but not trailing art
+  const trimmed = text.trimEnd();
+  return [trimmed, " ".repeat(Math.max(0, column - 1)) + "^"];
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { RecordingRenderer } from "./recording.js";
+import { Lexer } from "../lexer/lexer.js";
+import { Parser } from "../parser/parser.js";
+import { Interpreter } from "../runtime/interpreter.js";
+
+function record(source: string): { renderer: RecordingRenderer; interpreter: Interpreter } {
+  const renderer = new RecordingRenderer({ width: 320, height: 240 });
+  const interpreter = new Interpreter(renderer);
+  interpreter.run(new Parser(new Lexer(source).tokenize()).parse());
+  return { renderer, interpreter };
+}
+
+describe("RecordingRenderer", () => {
+  it("should record draw calls with their defaults filled in", () => {
+    const renderer = new RecordingRenderer({ width: 320, height: 240 });
+    renderer.clear();
+    renderer.text("hi", 1, 2);
+    renderer.rect(0, 0, 10, 20, "#ff0000", 2);
+    renderer.line(0, 0, 5, 5, "#00ff00", 3, -1);
+
+    expect(renderer.getFrame()).toEqual([
+      { type: "clear", color: "#000000" },
+      { type: "text", text: "hi", x: 1, y: 2, size: 16, color: "#ffffff", alpha: 1 },
+      { type: "rect", x: 0, y: 0, width: 10, height: 20, color: "#ff0000", alpha: 1 },
+      { type: "line", x1: 0, y1: 0, x2: 5, y2: 5, color: "#00ff00", width: 3, alpha: 0 },
+    ]);
+  });
+
+  it("should default to the canvas size", () => {
+    const renderer = new RecordingRenderer();
+
+    expect(renderer.getWidth()).toBe(800);
+    expect(renderer.getHeight()).toBe(600);
+  });
+
+  it("should only record a sprite sheet region when all of it is given", () => {
+    const renderer = new RecordingRenderer({ width: 320, height: 240 });
+    renderer.sprite("hero.png", 10, 20, 16, 16, 32, 0, 16, 16);
+    renderer.sprite("hero.png", 10, 20, 16, 16, 32, 0);
+    renderer.sprite(null, 0, 0, 8, 8, 1, 2, 3, 4, "#123456", 0.5);
+
+    const [sheet, partial, placeholder] = renderer.getFrame();
+    expect(sheet).toMatchObject({
+      path: "hero.png",
+      source: { x: 32, y: 0, width: 16, height: 16 },
+    });
+    expect(partial).toMatchObject({ source: null });
+    expect(placeholder).toMatchObject({ path: null, source: null, color: "#123456", alpha: 0.5 });
+  });
+
+  it("should record each frame of the game loop separately", () => {
+    const { renderer, interpreter } = record(`x = 0
+update(dt) {
+  x = x + 10
+}
+draw {
+  clear("#112233")
+  circle(x, 50, 5, "#ffffff")
+}`);
+
+    interpreter.runFrames(3);
+
+    const frames = renderer.getFrames();
+    expect(frames).toHaveLength(3);
+    expect(frames.map((frame) => frame[1])).toEqual([
+      { type: "circle", x: 10, y: 50, radius: 5, color: "#ffffff", alpha: 1 },
+      { type: "circle", x: 20, y: 50, radius: 5, color: "#ffffff", alpha: 1 },
+      { type: "circle", x: 30, y: 50, radius: 5, color: "#ffffff", alpha: 1 },
+    ]);
+    expect(renderer.getFrame(0)[0]).toEqual({ type: "clear", color: "#112233" });
+    expect(JSON.parse(JSON.stringify(frames))).toEqual(frames);
+  });
+
+  it("should record drawing from top-level code and report its size", () => {
+    const { renderer } = record(`rect(0, 0, width(), height(), "#000000")`);
+
+    expect(renderer.getFrames()).toEqual([
+      [{ type: "rect", x: 0, y: 0, width: 320, height: 240, color: "#000000", alpha: 1 }],
+    ]);
+
+    renderer.reset();
+    expect(renderer.getFrames()).toEqual([]);
+    expect(renderer.getFrame()).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Recording Renderer for Ragelang
+ * Captures draw calls frame by frame instead of drawing them, so tests can
+ * check (or snapshot) what a game draws without a browser.
+ */
+
+import type { ErrorOverlayContent, ErrorOverlayOptions } from "./overlay.js";
+import type { DrawCommand, RenderContext, RenderOptions, Renderer } from "./renderer.js";
+
+export class RecordingRenderer implements Renderer {
+  private width: number;
+  private height: number;
+  private frames: DrawCommand[][] = [];
+
+  /**
+   * @param options The size games see, 800x600 by default like Ragelang's canvas
+   */
+  constructor(options: RenderOptions = { width: 800, height: 600 }) {
+    this.width = options.width;
+    this.height = options.height;
+  }
+
+  getWidth(): number {
+    return this.width;
+  }
+
+  getHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Start recording a new frame
+   */
+  beginFrame(): void {
+    this.frames.push([]);
+  }
+
+  /**
+   * Get every recorded frame, oldest first
+   */
+  getFrames(): DrawCommand[][] {
+    return this.frames;
+  }
+
+  /**
+   * Get the commands of one frame (0-based), or the last frame if no index is given
+   */
+  getFrame(index: number = this.frames.length - 1): DrawCommand[] {
+    return this.frames[index] ?? [];
+  }
+
+  /**
+   * Forget the recorded frames
+   */
+  reset(): void {
+    this.frames = [];
+  }
+
+  clear(color: string = "#000000"): void {
+    this.record({ type: "clear", color });
+  }
+
+  text(
+    text: string,
+    x: number,
+    y: number,
+    size: number = 16,
+    color: string = "#ffffff",
+    alpha: number = 1
+  ): void {
+    this.record({ type: "text", text, x, y, size, color, alpha: clampAlpha(alpha) });
+  }
+
+  sprite(
+    path: string | null,
+    x: number,
+    y: number,
+    width: number = 32,
+    height: number = 32,
+    sx: number | null = null,
+    sy: number | null = null,
+    sw: number | null = null,
+    sh: number | null = null,
+    color: string = "#ffffff",
+    alpha: number = 1
+  ): void {
+    // Like the canvas, the sheet region is only used when all of it is given
+    const source =
+      path && sx !== null && sy !== null && sw !== null && sh !== null
+        ? { x: sx, y: sy, width: sw, height: sh }
+        : null;
+    this.record({
+      type: "sprite",
+      path: path || null,
+      x,
+      y,
+      width,
+      height,
+      source,
+      color,
+      alpha: clampAlpha(alpha),
+    });
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    alpha: number = 1
+  ): void {
+    this.record({ type: "rect", x, y, width, height, color, alpha: clampAlpha(alpha) });
+  }
+
+  strokeRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    lineWidth: number = 1,
+    alpha: number = 1
+  ): void {
+    this.record({
+      type: "strokeRect",
+      x,
+      y,
+      width,
+      height,
+      color,
+      lineWidth,
+      alpha: clampAlpha(alpha),
+    });
+  }
+
+  circle(x: number, y: number, radius: number, color: string, alpha: number = 1): void {
+    this.record({ type: "circle", x, y, radius, color, alpha: clampAlpha(alpha) });
+  }
+
+  strokeCircle(
+    x: number,
+    y: number,
+    radius: number,
+    color: string,
+    lineWidth: number = 1,
+    alpha: number = 1
+  ): void {
+    this.record({ type: "strokeCircle", x, y, radius, color, lineWidth, alpha: clampAlpha(alpha) });
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string,
+    width: number = 1,
+    alpha: number = 1
+  ): void {
+    this.record({ type: "line", x1, y1, x2, y2, color, width, alpha: clampAlpha(alpha) });
+  }
+
+  errorOverlay(content: ErrorOverlayContent, _style: Required<ErrorOverlayOptions>): void {
+    this.record({ type: "errorOverlay", content });
+  }
+
+  getContext(): RenderContext | null {
+    return null;
+  }
+
+  private record(command: DrawCommand): void {
+    // Drawing outside the game loop (like in top-level code) starts a frame
+    if (this.frames.length === 0) {
+      this.beginFrame();
+    }
+    this.frames[this.frames.length - 1].push(command);
+  }
+}
+
+function clampAlpha(alpha: number): number {
+  return Math.max(0, Math.min(1, alpha));
+}
@@ -0,0 +1,137 @@
+/**
+ * Renderer interface for Ragelang
+ * What the interpreter draws with, so games can draw to a canvas or be
+ * recorded without a browser.
+ */
+
+import type { ErrorOverlayContent, ErrorOverlayOptions } from "./overlay.js";
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+}
+
+export interface RenderContext {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+}
+
+export interface Renderer {
+  getWidth(): number;
+  getHeight(): number;
+  /** Called by the interpreter before each frame's update and draw blocks */
+  beginFrame(): void;
+  clear(color?: string): void;
+  text(text: string, x: number, y: number, size?: number, color?: string, alpha?: number): void;
+  sprite(
+    path: string | null,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number,
+    sx?: number | null,
+    sy?: number | null,
+    sw?: number | null,
+    sh?: number | null,
+    color?: string,
+    alpha?: number
+  ): void;
+  rect(x: number, y: number, width: number, height: number, color: string, alpha?: number): void;
+  strokeRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    lineWidth?: number,
+    alpha?: number
+  ): void;
+  circle(x: number, y: number, radius: number, color: string, alpha?: number): void;
+  strokeCircle(
+    x: number,
+    y: number,
+    radius: number,
+    color: string,
+    lineWidth?: number,
+    alpha?: number
+  ): void;
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string,
+    width?: number,
+    alpha?: number
+  ): void;
+  errorOverlay(content: ErrorOverlayContent, style: Required<ErrorOverlayOptions>): void;
+  /** The canvas being drawn to, or null if there isn't one */
+  getContext(): RenderContext | null;
+}
+
+/**
+ * A draw call with its defaults filled in and alpha clamped to 0-1,
+ * as plain data so frames can be compared or serialized
+ */
+export type DrawCommand =
+  | { type: "clear"; color: string }
+  | {
+      type: "text";
+      text: string;
+      x: number;
+      y: number;
+      size: number;
+      color: string;
+      alpha: number;
+    }
+  | {
+      type: "sprite";
+      path: string | null; // null draws a colored rectangle
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      source: { x: number; y: number; width: number; height: number } | null; // Sprite sheet region
+      color: string;
+      alpha: number;
+    }
+  | {
+      type: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      color: string;
+      alpha: number;
+    }
+  | {
+      type: "strokeRect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      color: string;
+      lineWidth: number;
+      alpha: number;
+    }
+  | { type: "circle"; x: number; y: number; radius: number; color: string; alpha: number }
+  | {
+      type: "strokeCircle";
+      x: number;
+      y: number;
+      radius: number;
+      color: string;
+      lineWidth: number;
+      alpha: number;
+    }
+  | {
+      type: "line";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      color: string;
+      width: number;
+      alpha: number;
+    }
+  | { type: "errorOverlay"; content: ErrorOverlayContent };
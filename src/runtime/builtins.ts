@@ -1,6 +1,8 @@
-import { CanvasRenderer } from "../renderer/canvas.js";
+import type { Renderer } from "../renderer/renderer.js";
 import { AudioManager } from "../audio/audio.js";
 import { InputManager } from "../input/input.js";
+import { SeededRandom } from "./random.js";
+import type { BuiltinName } from "./registry.js";
 
 /**
  * Built-in functions for Ragelang
@@ -8,11 +10,20 @@ import { InputManager } from "../input/input.js";
 
 export type BuiltinFunction = (...args: RageValue[]) => RageValue;
 
+/**
+ * Lets builtins call a Ragelang function (or a builtin, or an enum variant
+ * constructor), as if the program called it where it called the builtin
+ */
+export type FunctionCaller = (fn: RageValue, args: RageValue[]) => RageValue;
+
+// The name functions created by `fun (x) { ... }` and `(x) => ...` go by in stack traces
+export const ANONYMOUS_FUNCTION = "<anonymous>";
+
 export interface RageFunction {
   __type: "function";
   name: string;
   parameters: string[];
-  body: unknown; // BlockStatement - avoid circular import
+  body: unknown; // BlockStatement, or an arrow function's Expression - avoid circular import
   closure: unknown; // Environment - avoid circular import
 }
 
@@ -58,13 +69,19 @@ export interface RagePrototype {
 }
 
 export function createBuiltins(
-  renderer: CanvasRenderer,
+  renderer: Renderer,
   audio?: AudioManager,
   input?: InputManager,
   getFrameCount?: () => number,
-  loadScene?: (path: string) => void
+  loadScene?: (path: string) => void,
+  getTime?: () => number,
+  random?: SeededRandom,
+  getFrameAlpha?: () => number,
+  callFunction?: FunctionCaller
 ): Map<string, BuiltinFunction> {
   const builtins = new Map<string, BuiltinFunction>();
+  // Arguments arrive bound by the registry (see bindArguments), defaults filled in
+  const define = (name: BuiltinName, fn: BuiltinFunction) => builtins.set(name, fn);
 
   // Audio manager (created lazily if not provided)
   const audioManager = audio ?? new AudioManager();
@@ -78,17 +95,34 @@ export function createBuiltins(
   // Scene loader (no-op if not provided)
   const sceneLoader = loadScene ?? (() => {});
 
+  // Clock in seconds (default to the wall clock)
+  const timeGetter = getTime ?? (() => Date.now() / 1000);
+
+  // Random number generator (randomly seeded if not provided)
+  const rng = random ?? new SeededRandom();
+
+  // Interpolation alpha getter (default to 1, the latest update, if not provided)
+  const alphaGetter = getFrameAlpha ?? (() => 1);
+
+  // Function caller (only builtins can be called if not provided)
+  const call: FunctionCaller =
+    callFunction ??
+    ((fn, args) => {
+      if (typeof fn === "function") return fn(...args);
+      throw new Error("Can only call builtin functions here");
+    });
+
   // Drawing functions
   // text(text, x, y, size, color, alpha)
-  builtins.set(
+  define(
     "text",
     (
       text: RageValue,
       x: RageValue,
       y: RageValue,
-      size: RageValue = 16,
-      color: RageValue = "#ffffff",
-      alpha: RageValue = 1
+      size: RageValue,
+      color: RageValue,
+      alpha: RageValue
     ) => {
       renderer.text(String(text), Number(x), Number(y), Number(size), String(color), Number(alpha));
       return null;
@@ -102,20 +136,20 @@ export function createBuiltins(
   // sx, sy, sw, sh: source rectangle from sprite sheet (optional)
   // color: placeholder/fallback color
   // alpha: transparency (0-1)
-  builtins.set(
+  define(
     "sprite",
     (
       path: RageValue,
       x: RageValue,
       y: RageValue,
-      width: RageValue = 32,
-      height: RageValue = 32,
-      sx: RageValue = null,
-      sy: RageValue = null,
-      sw: RageValue = null,
-      sh: RageValue = null,
-      color: RageValue = "#ffffff",
-      alpha: RageValue = 1
+      width: RageValue,
+      height: RageValue,
+      sx: RageValue,
+      sy: RageValue,
+      sw: RageValue,
+      sh: RageValue,
+      color: RageValue,
+      alpha: RageValue
     ) => {
       renderer.sprite(
         path ? String(path) : null,
@@ -134,13 +168,13 @@ export function createBuiltins(
     }
   );
 
-  builtins.set("clear", (color: RageValue = "#000000") => {
+  define("clear", (color: RageValue) => {
     renderer.clear(String(color));
     return null;
   });
 
   // rect(x, y, width, height, color, alpha) - draw filled rectangle
-  builtins.set(
+  define(
     "rect",
     (
       x: RageValue,
@@ -148,7 +182,7 @@ export function createBuiltins(
       width: RageValue,
       height: RageValue,
       color: RageValue,
-      alpha: RageValue = 1
+      alpha: RageValue
     ) => {
       renderer.rect(
         Number(x),
@@ -163,16 +197,16 @@ export function createBuiltins(
   );
 
   // circle(x, y, radius, color, alpha) - draw filled circle
-  builtins.set(
+  define(
     "circle",
-    (x: RageValue, y: RageValue, radius: RageValue, color: RageValue, alpha: RageValue = 1) => {
+    (x: RageValue, y: RageValue, radius: RageValue, color: RageValue, alpha: RageValue) => {
       renderer.circle(Number(x), Number(y), Number(radius), String(color), Number(alpha));
       return null;
     }
   );
 
   // line(x1, y1, x2, y2, color, width, alpha) - draw a line
-  builtins.set(
+  define(
     "line",
     (
       x1: RageValue,
@@ -180,8 +214,8 @@ export function createBuiltins(
       x2: RageValue,
       y2: RageValue,
       color: RageValue,
-      width: RageValue = 1,
-      alpha: RageValue = 1
+      width: RageValue,
+      alpha: RageValue
     ) => {
       renderer.line(
         Number(x1),
@@ -197,93 +231,105 @@ export function createBuiltins(
   );
 
   // Math functions
-  builtins.set("abs", (x: RageValue) => Math.abs(Number(x)));
-  builtins.set("floor", (x: RageValue) => Math.floor(Number(x)));
-  builtins.set("ceil", (x: RageValue) => Math.ceil(Number(x)));
-  builtins.set("round", (x: RageValue) => Math.round(Number(x)));
-  builtins.set("min", (a: RageValue, b: RageValue) => Math.min(Number(a), Number(b)));
-  builtins.set("max", (a: RageValue, b: RageValue) => Math.max(Number(a), Number(b)));
+  define("abs", (x: RageValue) => Math.abs(Number(x)));
+  define("floor", (x: RageValue) => Math.floor(Number(x)));
+  define("ceil", (x: RageValue) => Math.ceil(Number(x)));
+  define("round", (x: RageValue) => Math.round(Number(x)));
+  define("min", (a: RageValue, b: RageValue) => Math.min(Number(a), Number(b)));
+  define("max", (a: RageValue, b: RageValue) => Math.max(Number(a), Number(b)));
 
   // Trigonometry
-  builtins.set("sin", (x: RageValue) => Math.sin(Number(x)));
-  builtins.set("cos", (x: RageValue) => Math.cos(Number(x)));
-  builtins.set("tan", (x: RageValue) => Math.tan(Number(x)));
-  builtins.set("asin", (x: RageValue) => Math.asin(Number(x)));
-  builtins.set("acos", (x: RageValue) => Math.acos(Number(x)));
-  builtins.set("atan", (x: RageValue) => Math.atan(Number(x)));
-  builtins.set("atan2", (y: RageValue, x: RageValue) => Math.atan2(Number(y), Number(x)));
-  builtins.set("sinh", (x: RageValue) => Math.sinh(Number(x)));
-  builtins.set("cosh", (x: RageValue) => Math.cosh(Number(x)));
-  builtins.set("tanh", (x: RageValue) => Math.tanh(Number(x)));
+  define("sin", (x: RageValue) => Math.sin(Number(x)));
+  define("cos", (x: RageValue) => Math.cos(Number(x)));
+  define("tan", (x: RageValue) => Math.tan(Number(x)));
+  define("asin", (x: RageValue) => Math.asin(Number(x)));
+  define("acos", (x: RageValue) => Math.acos(Number(x)));
+  define("atan", (x: RageValue) => Math.atan(Number(x)));
+  define("atan2", (y: RageValue, x: RageValue) => Math.atan2(Number(y), Number(x)));
+  define("sinh", (x: RageValue) => Math.sinh(Number(x)));
+  define("cosh", (x: RageValue) => Math.cosh(Number(x)));
+  define("tanh", (x: RageValue) => Math.tanh(Number(x)));
 
   // Constants
-  builtins.set("PI", () => Math.PI);
-  builtins.set("TAU", () => Math.PI * 2); // Full circle
-  builtins.set("E", () => Math.E);
+  define("PI", () => Math.PI);
+  define("TAU", () => Math.PI * 2); // Full circle
+  define("E", () => Math.E);
 
   // Time and frame functions
   // time() - returns time since epoch in seconds
-  builtins.set("time", () => Date.now() / 1000);
+  // (simulated time when ticked manually or run at a fixed timestep)
+  define("time", () => timeGetter());
 
   // frames() - returns number of frames that have been rendered
-  builtins.set("frames", () => frameGetter());
+  // (number of updates when run at a fixed timestep)
+  define("frames", () => frameGetter());
+
+  // frame_alpha() - how far between the last update and the next one the
+  // frame is drawn (0-1), for smoothing movement at a fixed timestep:
+  // lerp(prev_x, x, frame_alpha())
+  define("frame_alpha", () => alphaGetter());
 
   // Canvas dimensions
   // width() - returns canvas width in pixels
-  builtins.set("width", () => renderer.getWidth());
+  define("width", () => renderer.getWidth());
 
   // height() - returns canvas height in pixels
-  builtins.set("height", () => renderer.getHeight());
+  define("height", () => renderer.getHeight());
 
   // Angle conversion
-  builtins.set("deg", (radians: RageValue) => Number(radians) * (180 / Math.PI));
-  builtins.set("rad", (degrees: RageValue) => Number(degrees) * (Math.PI / 180));
+  define("deg", (radians: RageValue) => Number(radians) * (180 / Math.PI));
+  define("rad", (degrees: RageValue) => Number(degrees) * (Math.PI / 180));
 
   // More math
-  builtins.set("sqrt", (x: RageValue) => Math.sqrt(Number(x)));
-  builtins.set("pow", (base: RageValue, exp: RageValue) => Math.pow(Number(base), Number(exp)));
-  builtins.set("log", (x: RageValue) => Math.log(Number(x)));
-  builtins.set("log10", (x: RageValue) => Math.log10(Number(x)));
-  builtins.set("exp", (x: RageValue) => Math.exp(Number(x)));
+  define("sqrt", (x: RageValue) => Math.sqrt(Number(x)));
+  define("pow", (base: RageValue, exp: RageValue) => Math.pow(Number(base), Number(exp)));
+  define("log", (x: RageValue) => Math.log(Number(x)));
+  define("log10", (x: RageValue) => Math.log10(Number(x)));
+  define("exp", (x: RageValue) => Math.exp(Number(x)));
 
   // Random
-  builtins.set("random", () => Math.random());
-  builtins.set("randomInt", (min: RageValue, max: RageValue) => {
+  define("random", () => rng.next());
+  define("randomInt", (min: RageValue, max: RageValue) => {
     const nmin = Math.floor(Number(min));
     const nmax = Math.floor(Number(max));
-    return Math.floor(Math.random() * (nmax - nmin + 1)) + nmin;
+    return Math.floor(rng.next() * (nmax - nmin + 1)) + nmin;
+  });
+  // seed(n) - restart random numbers from a seed, so they come out the same every run
+  define("seed", (n: RageValue) => {
+    rng.seed(Number(n));
+    return null;
   });
 
   // Utility functions
-  builtins.set("print", (...args: RageValue[]) => {
+  define("print", (...args: RageValue[]) => {
     console.log(...args.map((a) => String(a)));
     return null;
   });
 
   // Platformer helpers
-  builtins.set("lerp", (a: RageValue, b: RageValue, t: RageValue) => {
+  define("lerp", (a: RageValue, b: RageValue, t: RageValue) => {
     const na = Number(a);
     const nb = Number(b);
     const nt = Number(t);
     return na + (nb - na) * nt;
   });
 
-  builtins.set("clamp", (value: RageValue, min: RageValue, max: RageValue) => {
+  define("clamp", (value: RageValue, min: RageValue, max: RageValue) => {
     return Math.max(Number(min), Math.min(Number(max), Number(value)));
   });
 
   // Sign function for direction
-  builtins.set("sign", (x: RageValue) => Math.sign(Number(x)));
+  define("sign", (x: RageValue) => Math.sign(Number(x)));
 
   // Distance calculation
-  builtins.set("distance", (x1: RageValue, y1: RageValue, x2: RageValue, y2: RageValue) => {
+  define("distance", (x1: RageValue, y1: RageValue, x2: RageValue, y2: RageValue) => {
     const dx = Number(x2) - Number(x1);
     const dy = Number(y2) - Number(y1);
     return Math.sqrt(dx * dx + dy * dy);
   });
 
   // Collision detection helper
-  builtins.set(
+  define(
     "rect_overlap",
     (
       x1: RageValue,
@@ -309,18 +355,18 @@ export function createBuiltins(
   );
 
   // Array helpers
-  builtins.set("array", (size: RageValue = 0) => {
+  define("array", (size: RageValue) => {
     const n = Math.max(0, Math.floor(Number(size)));
     return new Array(n).fill(null);
   });
 
-  builtins.set("len", (arr: RageValue) => {
+  define("len", (arr: RageValue) => {
     if (Array.isArray(arr)) return arr.length;
     if (typeof arr === "string") return arr.length;
     return 0;
   });
 
-  builtins.set("push", (arr: RageValue, value: RageValue) => {
+  define("push", (arr: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       arr.push(value);
       return arr.length;
@@ -328,7 +374,7 @@ export function createBuiltins(
     return null;
   });
 
-  builtins.set("pop", (arr: RageValue) => {
+  define("pop", (arr: RageValue) => {
     if (Array.isArray(arr)) {
       return arr.pop() ?? null;
     }
@@ -336,7 +382,7 @@ export function createBuiltins(
   });
 
   // sort(arr) - sorts array in place, returns the array
-  builtins.set("sort", (arr: RageValue) => {
+  define("sort", (arr: RageValue) => {
     if (Array.isArray(arr)) {
       arr.sort((a, b) => {
         // Handle different types
@@ -351,7 +397,7 @@ export function createBuiltins(
   });
 
   // sorted(arr) - returns a new sorted array (doesn't modify original)
-  builtins.set("sorted", (arr: RageValue) => {
+  define("sorted", (arr: RageValue) => {
     if (Array.isArray(arr)) {
       const copy = [...arr];
       copy.sort((a, b) => {
@@ -366,7 +412,7 @@ export function createBuiltins(
   });
 
   // reverse(arr) - reverses array in place, returns the array
-  builtins.set("reverse", (arr: RageValue) => {
+  define("reverse", (arr: RageValue) => {
     if (Array.isArray(arr)) {
       arr.reverse();
       return arr;
@@ -375,7 +421,7 @@ export function createBuiltins(
   });
 
   // reversed(arr) - returns a new reversed array
-  builtins.set("reversed", (arr: RageValue) => {
+  define("reversed", (arr: RageValue) => {
     if (Array.isArray(arr)) {
       return [...arr].reverse();
     }
@@ -383,7 +429,7 @@ export function createBuiltins(
   });
 
   // slice(arr, start, end) - returns a slice of the array
-  builtins.set("slice", (arr: RageValue, start: RageValue = 0, end: RageValue = null) => {
+  define("slice", (arr: RageValue, start: RageValue, end: RageValue) => {
     if (Array.isArray(arr)) {
       const s = Number(start) | 0;
       const e = end === null ? arr.length : Number(end) | 0;
@@ -398,7 +444,7 @@ export function createBuiltins(
   });
 
   // index(arr, value) - returns index of value, or -1 if not found
-  builtins.set("index", (arr: RageValue, value: RageValue) => {
+  define("index", (arr: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       return arr.indexOf(value);
     }
@@ -409,7 +455,7 @@ export function createBuiltins(
   });
 
   // contains(arr, value) - returns true if value is in arr
-  builtins.set("contains", (arr: RageValue, value: RageValue) => {
+  define("contains", (arr: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       return arr.includes(value);
     }
@@ -420,7 +466,7 @@ export function createBuiltins(
   });
 
   // insert(arr, index, value) - inserts value at index
-  builtins.set("insert", (arr: RageValue, idx: RageValue, value: RageValue) => {
+  define("insert", (arr: RageValue, idx: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       const i = Number(idx) | 0;
       arr.splice(i, 0, value);
@@ -430,7 +476,7 @@ export function createBuiltins(
   });
 
   // remove(arr, value) - removes first occurrence of value
-  builtins.set("remove", (arr: RageValue, value: RageValue) => {
+  define("remove", (arr: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       const idx = arr.indexOf(value);
       if (idx !== -1) {
@@ -443,7 +489,7 @@ export function createBuiltins(
   });
 
   // extend(arr, other) - adds all elements from other to arr
-  builtins.set("extend", (arr: RageValue, other: RageValue) => {
+  define("extend", (arr: RageValue, other: RageValue) => {
     if (Array.isArray(arr) && Array.isArray(other)) {
       arr.push(...other);
       return arr.length;
@@ -452,7 +498,7 @@ export function createBuiltins(
   });
 
   // count(arr, value) - counts occurrences of value
-  builtins.set("count", (arr: RageValue, value: RageValue) => {
+  define("count", (arr: RageValue, value: RageValue) => {
     if (Array.isArray(arr)) {
       return arr.filter((x) => x === value).length;
     }
@@ -463,33 +509,80 @@ export function createBuiltins(
   });
 
   // join(arr, separator) - joins array elements into a string
-  builtins.set("join", (arr: RageValue, sep: RageValue = ",") => {
+  define("join", (arr: RageValue, sep: RageValue) => {
     if (Array.isArray(arr)) {
       return arr.map((x) => String(x)).join(String(sep));
     }
     return "";
   });
 
+  // Higher-order array helpers, which call fn on each element (of a copy, in
+  // case fn changes the array)
+  // map(arr, fn) - returns a new array of fn's results
+  define("map", (arr: RageValue, fn: RageValue) => {
+    return [...(arr as RageValue[])].map((x) => call(fn, [x]));
+  });
+
+  // filter(arr, fn) - returns a new array of the elements fn is truthy for
+  define("filter", (arr: RageValue, fn: RageValue) => {
+    return [...(arr as RageValue[])].filter((x) => isTruthy(call(fn, [x])));
+  });
+
+  // reduce(arr, fn, initial) - combines the elements with fn(total, element)
+  define("reduce", (arr: RageValue, fn: RageValue, initial: RageValue) => {
+    return [...(arr as RageValue[])].reduce((total, x) => call(fn, [total, x]), initial);
+  });
+
+  // find(arr, fn) - returns the first element fn is truthy for, or null
+  define("find", (arr: RageValue, fn: RageValue) => {
+    return [...(arr as RageValue[])].find((x) => isTruthy(call(fn, [x]))) ?? null;
+  });
+
+  // any(arr, fn) - returns true if fn is truthy for some element
+  define("any", (arr: RageValue, fn: RageValue) => {
+    return [...(arr as RageValue[])].some((x) => isTruthy(call(fn, [x])));
+  });
+
+  // all(arr, fn) - returns true if fn is truthy for every element
+  define("all", (arr: RageValue, fn: RageValue) => {
+    return [...(arr as RageValue[])].every((x) => isTruthy(call(fn, [x])));
+  });
+
+  // sort_by(arr, compare) - sorts in place, with compare(a, b) < 0 putting a first
+  define("sort_by", (arr: RageValue, compare: RageValue) => {
+    const sorted = [...(arr as RageValue[])].sort((a, b) => {
+      const order = call(compare, [a, b]);
+      if (typeof order !== "number") {
+        throw new Error(
+          `sort_by() compare must return a number, got ${order === null ? "null" : typeof order}`
+        );
+      }
+      return order;
+    });
+    (arr as RageValue[]).splice(0, sorted.length, ...sorted);
+    return arr;
+  });
+
   // Color helpers
   // rgba(r, g, b, a) - creates an rgba color string
   // r, g, b: 0-255, a: 0-1
-  builtins.set("rgba", (r: RageValue, g: RageValue, b: RageValue, a: RageValue = 1) => {
+  define("rgba", (r: RageValue, g: RageValue, b: RageValue, a: RageValue) => {
     return `rgba(${Math.floor(Number(r))}, ${Math.floor(Number(g))}, ${Math.floor(Number(b))}, ${Number(a)})`;
   });
 
   // rgb(r, g, b) - creates an rgb color string
-  builtins.set("rgb", (r: RageValue, g: RageValue, b: RageValue) => {
+  define("rgb", (r: RageValue, g: RageValue, b: RageValue) => {
     return `rgb(${Math.floor(Number(r))}, ${Math.floor(Number(g))}, ${Math.floor(Number(b))})`;
   });
 
   // hsla(h, s, l, a) - creates an hsla color string
   // h: 0-360, s: 0-100, l: 0-100, a: 0-1
-  builtins.set("hsla", (h: RageValue, s: RageValue, l: RageValue, a: RageValue = 1) => {
+  define("hsla", (h: RageValue, s: RageValue, l: RageValue, a: RageValue) => {
     return `hsla(${Number(h)}, ${Number(s)}%, ${Number(l)}%, ${Number(a)})`;
   });
 
   // hsl(h, s, l) - creates an hsl color string
-  builtins.set("hsl", (h: RageValue, s: RageValue, l: RageValue) => {
+  define("hsl", (h: RageValue, s: RageValue, l: RageValue) => {
     return `hsl(${Number(h)}, ${Number(s)}%, ${Number(l)}%)`;
   });
 
@@ -497,41 +590,41 @@ export function createBuiltins(
   // music(path, volume) - plays looping background music
   // path: audio file path (null to stop)
   // volume: 0-10 (default 5)
-  builtins.set("music", (path: RageValue = null, volume: RageValue = 5) => {
+  define("music", (path: RageValue, volume: RageValue) => {
     audioManager.music(path ? String(path) : null, Number(volume));
     return null;
   });
 
   // stop_music() - stops the current music
-  builtins.set("stop_music", () => {
+  define("stop_music", () => {
     audioManager.stopMusic();
     return null;
   });
 
   // music_volume(volume) - sets music volume
-  builtins.set("music_volume", (volume: RageValue) => {
+  define("music_volume", (volume: RageValue) => {
     audioManager.setMusicVolume(Number(volume));
     return null;
   });
 
-  // sound(path, gain) - plays a one-shot sound effect
+  // sound(path, volume) - plays a one-shot sound effect
   // path: audio file path
-  // gain: 0-10 (default 5)
-  builtins.set("sound", (path: RageValue, gain: RageValue = 5) => {
+  // volume: 0-10 (default 5)
+  define("sound", (path: RageValue, volume: RageValue) => {
     if (path) {
-      audioManager.sound(String(path), Number(gain));
+      audioManager.sound(String(path), Number(volume));
     }
     return null;
   });
 
   // stop_sounds() - stops all currently playing sounds
-  builtins.set("stop_sounds", () => {
+  define("stop_sounds", () => {
     audioManager.stopAllSounds();
     return null;
   });
 
   // master_volume(volume) - sets master volume for all audio
-  builtins.set("master_volume", (volume: RageValue) => {
+  define("master_volume", (volume: RageValue) => {
     audioManager.setMasterVolume(Number(volume));
     return null;
   });
@@ -540,81 +633,82 @@ export function createBuiltins(
 
   // pressed(action) - returns true on the frame an action starts
   // Actions: "left", "right", "up", "down", "jump", "action", "a", "b", "start", "select"
-  builtins.set("pressed", (action: RageValue) => {
+  define("pressed", (action: RageValue) => {
     return inputManager.pressed(String(action));
   });
 
   // held(action) - returns true while an action is held
-  builtins.set("held", (action: RageValue) => {
+  define("held", (action: RageValue) => {
     return inputManager.held(String(action));
   });
 
   // released(action) - returns true on the frame an action ends
-  builtins.set("released", (action: RageValue) => {
+  define("released", (action: RageValue) => {
     return inputManager.released(String(action));
   });
 
   // key_pressed(key) - returns true if specific key was just pressed
-  builtins.set("key_pressed", (key: RageValue) => {
+  define("key_pressed", (key: RageValue) => {
     return inputManager.keyPressed(String(key));
   });
 
   // key_held(key) - returns true while specific key is held
-  builtins.set("key_held", (key: RageValue) => {
+  define("key_held", (key: RageValue) => {
     return inputManager.keyHeld(String(key));
   });
 
   // key_released(key) - returns true if specific key was just released
-  builtins.set("key_released", (key: RageValue) => {
+  define("key_released", (key: RageValue) => {
     return inputManager.keyReleased(String(key));
   });
 
   // mouse_x() - returns mouse/touch X position
-  builtins.set("mouse_x", () => {
+  define("mouse_x", () => {
     return inputManager.getMouseX();
   });
 
   // mouse_y() - returns mouse/touch Y position
-  builtins.set("mouse_y", () => {
+  define("mouse_y", () => {
     return inputManager.getMouseY();
   });
 
   // mouse_pressed(button) - returns true if mouse button just pressed (0=left, 1=middle, 2=right)
-  builtins.set("mouse_pressed", (button: RageValue = 0) => {
+  define("mouse_pressed", (button: RageValue) => {
     return inputManager.mousePressed(Number(button) | 0);
   });
 
   // mouse_held(button) - returns true while mouse button is held
-  builtins.set("mouse_held", (button: RageValue = 0) => {
+  define("mouse_held", (button: RageValue) => {
     return inputManager.mouseHeld(Number(button) | 0);
   });
 
   // mouse_released(button) - returns true if mouse button just released
-  builtins.set("mouse_released", (button: RageValue = 0) => {
+  define("mouse_released", (button: RageValue) => {
     return inputManager.mouseReleased(Number(button) | 0);
   });
 
   // touch_count() - returns number of active touches
-  builtins.set("touch_count", () => {
+  define("touch_count", () => {
     return inputManager.getTouchCount();
   });
 
   // touch_x(index) - returns X position of touch at index
-  builtins.set("touch_x", (index: RageValue = 0) => {
+  define("touch_x", (index: RageValue) => {
     const pos = inputManager.getTouchPosition(Number(index) | 0);
     return pos ? pos.x : 0;
   });
 
   // touch_y(index) - returns Y position of touch at index
-  builtins.set("touch_y", (index: RageValue = 0) => {
+  define("touch_y", (index: RageValue) => {
     const pos = inputManager.getTouchPosition(Number(index) | 0);
     return pos ? pos.y : 0;
   });
 
   // window_focused() - returns true if the window/document has focus
   // Use this to pause the game when the player switches tabs or windows
-  builtins.set("window_focused", () => {
-    return document.hasFocus();
+  define("window_focused", () => {
+    // Headless games (no document) are always focused
+    return typeof document === "undefined" || document.hasFocus();
   });
 
   // ============ Input Buffer (Platformer Mechanics) ============
@@ -622,36 +716,36 @@ export function createBuiltins(
   // buffer_input(action, duration) - buffers an input for duration seconds
   // Use this for jump buffering: if player presses jump before landing,
   // the jump will still happen when they land
-  builtins.set("buffer_input", (action: RageValue, duration: RageValue = 0.1) => {
+  define("buffer_input", (action: RageValue, duration: RageValue) => {
     inputManager.bufferInput(String(action), Number(duration));
     return null;
   });
 
   // check_buffer(action) - checks if action is buffered and consumes it
   // Returns true if buffered, false otherwise
-  builtins.set("check_buffer", (action: RageValue) => {
+  define("check_buffer", (action: RageValue) => {
     return inputManager.checkBuffer(String(action));
   });
 
   // peek_buffer(action) - checks if action is buffered WITHOUT consuming it
-  builtins.set("peek_buffer", (action: RageValue) => {
+  define("peek_buffer", (action: RageValue) => {
     return inputManager.peekBuffer(String(action));
   });
 
   // clear_buffer(action) - clears a specific buffered action
-  builtins.set("clear_buffer", (action: RageValue) => {
+  define("clear_buffer", (action: RageValue) => {
     inputManager.clearBuffer(String(action));
     return null;
   });
 
   // clear_all_buffers() - clears all buffered inputs
-  builtins.set("clear_all_buffers", () => {
+  define("clear_all_buffers", () => {
     inputManager.clearAllBuffers();
     return null;
   });
 
   // buffer_time(action) - returns remaining buffer time in seconds
-  builtins.set("buffer_time", (action: RageValue) => {
+  define("buffer_time", (action: RageValue) => {
     return inputManager.getBufferTime(String(action));
   });
 
@@ -659,7 +753,7 @@ export function createBuiltins(
 
   // load_scene(path) - loads a new rage script, resetting the current runtime
   // The path is relative to the game's asset directory
-  builtins.set("load_scene", (path: RageValue) => {
+  define("load_scene", (path: RageValue) => {
     sceneLoader(String(path));
     return null;
   });
@@ -667,6 +761,17 @@ export function createBuiltins(
   return builtins;
 }
 
+/**
+ * Check if a value counts as true in conditions
+ */
+export function isTruthy(value: RageValue): boolean {
+  if (value === null) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string") return value.length > 0;
+  return true;
+}
+
 /**
  * Create a new prototype object
  */
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Lexer } from "../lexer/lexer.js";
+import { Parser } from "../parser/parser.js";
+import { Interpreter } from "./interpreter.js";
+import { CanvasRenderer } from "../renderer/canvas.js";
+import {
+  Debugger,
+  describeValue,
+  findStatementLines,
+  type DebugAction,
+  type PauseEvent,
+} from "./debugger.js";
+import { createEnumVariant, type RagePrototype } from "./builtins.js";
+
+function parse(source: string) {
+  return new Parser(new Lexer(source).tokenize()).parse();
+}
+
+function debug(source: string, actions: DebugAction[] = []) {
+  const interpreter = new Interpreter(new CanvasRenderer(null, { width: 800, height: 600 }));
+  const debugger_ = new Debugger(interpreter);
+  const pauses: PauseEvent[] = [];
+  debugger_.onPause((event) => {
+    pauses.push(event);
+    return actions.shift();
+  });
+  const run = () => interpreter.run(parse(source));
+  return { interpreter, debugger: debugger_, pauses, run };
+}
+
+const program = `fun add(a, b) {
+  sum = a + b
+  return sum
+}
+x = 1
+y = add(x, 2)
+z = y * 2`;
+
+describe("Debugger", () => {
+  it("should stop at breakpoints with the variables in scope", () => {
+    const { debugger: dbg, pauses, run } = debug(program);
+    dbg.setBreakpoint(6);
+    run();
+
+    expect(pauses).toHaveLength(1);
+    expect(pauses[0]).toMatchObject({ reason: "breakpoint", line: 6, column: 1 });
+    expect(pauses[0].breakpoint?.line).toBe(6);
+    const [frame] = pauses[0].frames;
+    expect(frame.name).toBe("program");
+    expect(frame.scopes.map((scope) => scope.name)).toEqual(["Globals"]);
+    expect([...frame.scopes[0].variables.keys()]).toEqual(["add", "x"]);
+  });
+
+  it("should show function locals and the frames that called them", () => {
+    const { debugger: dbg, pauses, run } = debug(program);
+    dbg.setBreakpoint(3);
+    run();
+
+    const [inner, outer] = pauses[0].frames;
+    expect(inner).toMatchObject({ name: "add", line: 3, column: 3 });
+    expect(inner.scopes[0].name).toBe("Locals");
+    expect(Object.fromEntries(inner.scopes[0].variables)).toEqual({ a: 1, b: 2 });
+    // Assigning a new variable makes a global
+    expect(inner.scopes[1].variables.get("sum")).toBe(3);
+    expect(outer).toMatchObject({ name: "program", line: 6, column: 5 });
+  });
+
+  it("should stop at a breakpoint every time its statement runs", () => {
+    const {
+      interpreter,
+      debugger: dbg,
+      pauses,
+      run,
+    } = debug(`x = 0
+update(dt) { x = x + 1 }
+n = 0
+loop { n += 1 if (n > 2) { break } }`);
+    dbg.setBreakpoint(2);
+    dbg.setBreakpoint(4);
+    run();
+    interpreter.runFrames(5);
+
+    // Once for the update block's declaration, then once a frame
+    expect(pauses.map((pause) => pause.line)).toEqual([2, 4, 4, 4, 2, 2, 2, 2, 2]);
+  });
+
+  it("should only stop at conditional breakpoints when the condition holds", () => {
+    const {
+      debugger: dbg,
+      pauses,
+      run,
+    } = debug(`i = 0
+loop {
+  i++
+  if (i == 5) {
+    break
+  }
+}`);
+    dbg.setBreakpoint(3, "i % 2 == 1");
+    run();
+
+    expect(pauses.map((pause) => pause.frames[0].scopes[0].variables.get("i"))).toEqual([1, 3]);
+  });
+
+  it("should stop at breakpoints whose condition fails, with the error", () => {
+    const { debugger: dbg, pauses, run } = debug("x = 1\ny = 2");
+    dbg.setBreakpoint(2, "missing > 1");
+    run();
+
+    expect(pauses[0].conditionError).toBe("Undefined variable: missing at line 1, column 1");
+    expect(() => dbg.setBreakpoint(1, "x +")).toThrow();
+  });
+
+  it("should step in, over and out of functions", () => {
+    const stepIn = debug(program, ["stepIn", "stepIn", "stepIn"]);
+    stepIn.debugger.setBreakpoint(6);
+    stepIn.run();
+    expect(stepIn.pauses.map((pause) => pause.line)).toEqual([6, 2, 3, 7]);
+
+    const stepOver = debug(program, ["stepOver", "stepOver"]);
+    stepOver.debugger.setBreakpoint(5);
+    stepOver.run();
+    expect(stepOver.pauses.map((pause) => pause.line)).toEqual([5, 6, 7]);
+
+    const stepOut = debug(program, ["stepOut"]);
+    stepOut.debugger.setBreakpoint(2);
+    stepOut.run();
+    expect(stepOut.pauses.map((pause) => [pause.reason, pause.line])).toEqual([
+      ["breakpoint", 2],
+      ["step", 7],
+    ]);
+  });
+
+  it("should step from the update block into the draw block", () => {
+    const { debugger: dbg, interpreter, pauses } = debug("", ["stepOver", "stepOver"]);
+    interpreter.run(
+      parse(`x = 0
+update(dt) {
+  x = x + dt
+}
+draw {
+  rect(x, 0, 1, 1, "#fff")
+}`)
+    );
+    dbg.setBreakpoint(3);
+    interpreter.tick(0.5);
+
+    expect(pauses.map((pause) => [pause.line, pause.frames[0].name])).toEqual([
+      [3, "update"],
+      [6, "draw"],
+    ]);
+    expect(pauses[0].frames[0].scopes[0].variables.get("dt")).toBe(0.5);
+  });
+
+  it("should evaluate expressions in any frame", () => {
+    const { debugger: dbg, run } = debug(program);
+    const values: unknown[] = [];
+    dbg.onPause(() => {
+      values.push(dbg.evaluate("a + b"), dbg.evaluate("x", 1), dbg.evaluate("add(10, 20)"));
+    });
+    dbg.setBreakpoint(3);
+    run();
+
+    expect(values).toEqual([3, 1, 30]);
+    expect(() => dbg.evaluate("x", 5)).toThrow("No frame 5");
+  });
+
+  it("should pause at the next statement when asked to", () => {
+    const { debugger: dbg, pauses, run } = debug(program);
+    dbg.pause();
+    run();
+
+    expect(pauses.map((pause) => [pause.reason, pause.line])).toEqual([["pause", 1]]);
+  });
+
+  it("should stop stopping once detached", () => {
+    const { debugger: dbg, interpreter, pauses } = debug("");
+    dbg.setBreakpoint(1);
+    dbg.detach();
+    interpreter.run(parse("x = 1"));
+
+    expect(pauses).toEqual([]);
+    expect(dbg.getFrames()).toEqual([]);
+  });
+
+  describe("with the game loop", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should pause and resume the game loop between frames", () => {
+      const frames: Array<() => void> = [];
+      vi.stubGlobal(
+        "requestAnimationFrame",
+        vi.fn((callback: () => void) => frames.push(callback))
+      );
+      vi.stubGlobal("cancelAnimationFrame", vi.fn());
+      const { debugger: dbg, interpreter } = debug("");
+      interpreter.run(parse("n = 0\nupdate(dt) {\n  n++\n}"));
+
+      interpreter.startGameLoop();
+      dbg.pauseGame();
+      expect(dbg.isGamePaused()).toBe(true);
+      frames[frames.length - 1]();
+      expect(interpreter.getGlobal("n")).toBe(1);
+
+      dbg.resumeGame();
+      expect(dbg.isGamePaused()).toBe(false);
+      expect(interpreter.getGlobal("n")).toBe(2);
+    });
+  });
+});
+
+describe("describeValue", () => {
+  it("should describe values for a variables view", () => {
+    const point: RagePrototype = { __type: "prototype", x: 1, y: 2 };
+    const variant = createEnumVariant("State", "Idle", new Map());
+
+    expect(describeValue(null)).toBe("null");
+    expect(describeValue(1.5)).toBe("1.5");
+    expect(describeValue("hi")).toBe('"hi"');
+    expect(describeValue([1, 2, 3])).toBe("array(3)");
+    expect(describeValue(point)).toBe("prototype { x, y }");
+    expect(describeValue(variant)).toBe("State.Idle");
+    expect(describeValue(() => null)).toBe("builtin function");
+  });
+});
+
+describe("findStatementLines", () => {
+  it("should find the lines where statements start, including in match arms", () => {
+    const source = `fun pick(n) {
+  if (n > 1) {
+    return match n {
+      2 => {
+        x = "two"
+        x
+      },
+      _ => "many"
+    }
+  }
+
+  return "one"
+}`;
+
+    expect(findStatementLines(parse(source))).toEqual([1, 2, 3, 5, 6, 12]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Debugger for Ragelang
+ *
+ * Breakpoints, stepping and variable inspection on top of the interpreter's
+ * debug hook. The interpreter runs synchronously, so pausing at a breakpoint
+ * means calling the pause handler in the middle of the statement: the handler
+ * inspects what it needs and returns how to carry on. (A debugger UI that has
+ * to wait for the user can run the game in a worker and block there.)
+ *
+ * The game loop can also be paused between frames, with pauseGame().
+ */
+
+import type { Expression, Program, Statement } from "../parser/ast.js";
+import { Lexer } from "../lexer/lexer.js";
+import { Parser } from "../parser/parser.js";
+import type { DebugFrame, DebugHook, Interpreter } from "./interpreter.js";
+import {
+  ANONYMOUS_FUNCTION,
+  isEnumVariant,
+  isEnumVariantDef,
+  isPrototype,
+  type RageFunction,
+  type RageValue,
+} from "./builtins.js";
+
+export interface Breakpoint {
+  id: number;
+  line: number; // Line in the original source
+  condition: string | null; // Only stop when this expression is truthy
+}
+
+export type PauseReason = "breakpoint" | "step" | "pause";
+
+export interface PauseEvent {
+  reason: PauseReason;
+  line: number;
+  column: number;
+  breakpoint: Breakpoint | null;
+  conditionError: string | null; // Set when the breakpoint's condition failed to evaluate
+  frames: DebugFrame[]; // Innermost first
+}
+
+/**
+ * How to carry on after a pause: run until the next breakpoint, or stop at
+ * the next line (stepIn), the next line of this function (stepOver) or the
+ * next line of its caller (stepOut)
+ */
+export type DebugAction = "continue" | "stepIn" | "stepOver" | "stepOut";
+
+type StepMode = DebugAction | "pause";
+
+export class Debugger implements DebugHook {
+  private interpreter: Interpreter;
+  private breakpoints: Map<number, Breakpoint> = new Map();
+  private nextBreakpointId: number = 1;
+  private onPauseHandler: ((event: PauseEvent) => DebugAction | void) | null = null;
+
+  // Stepping
+  private mode: StepMode = "continue";
+  private stepDepth: number = 0;
+  private lastLine: number = -1;
+  private lastDepth: number = -1;
+  private lineStatements: Set<Statement> = new Set(); // Run since the last new line
+  private evaluating: boolean = false;
+
+  constructor(interpreter: Interpreter) {
+    this.interpreter = interpreter;
+    interpreter.setDebugHook(this);
+  }
+
+  /**
+   * Stop debugging, letting the game run at full speed
+   */
+  detach(): void {
+    this.interpreter.setDebugHook(null);
+  }
+
+  /**
+   * Set the handler called when execution pauses. Return how to carry on
+   * (continue if nothing is returned).
+   */
+  onPause(handler: (event: PauseEvent) => DebugAction | void): void {
+    this.onPauseHandler = handler;
+  }
+
+  // ============ Breakpoints ============
+
+  /**
+   * Break on a line, optionally only when a condition is truthy
+   */
+  setBreakpoint(line: number, condition: string | null = null): Breakpoint {
+    if (condition !== null) {
+      // Report syntax errors now rather than every time the line runs
+      this.parseExpression(condition);
+    }
+    const breakpoint: Breakpoint = { id: this.nextBreakpointId++, line, condition };
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    return breakpoint;
+  }
+
+  removeBreakpoint(id: number): void {
+    this.breakpoints.delete(id);
+  }
+
+  clearBreakpoints(): void {
+    this.breakpoints.clear();
+  }
+
+  getBreakpoints(): Breakpoint[] {
+    return [...this.breakpoints.values()];
+  }
+
+  // ============ Pausing ============
+
+  /**
+   * Pause at the next statement that runs
+   */
+  pause(): void {
+    this.mode = "pause";
+  }
+
+  /**
+   * Stop the game loop after the current frame, keeping the game's state
+   */
+  pauseGame(): void {
+    this.interpreter.stopGameLoop();
+  }
+
+  /**
+   * Start the game loop again after pauseGame()
+   */
+  resumeGame(): void {
+    this.interpreter.startGameLoop();
+  }
+
+  isGamePaused(): boolean {
+    return !this.interpreter.isGameLoopRunning();
+  }
+
+  // ============ Inspection ============
+
+  /**
+   * Get the calls in progress, innermost first, with their variables
+   */
+  getFrames(): DebugFrame[] {
+    return this.interpreter.getDebugFrames();
+  }
+
+  /**
+   * Evaluate an expression in a frame's scope (the innermost by default)
+   */
+  evaluate(expression: string, frameIndex: number = 0): RageValue {
+    const expr = this.parseExpression(expression);
+    // Don't stop at breakpoints in functions the expression calls
+    const wasEvaluating = this.evaluating;
+    this.evaluating = true;
+    try {
+      return this.interpreter.evaluateInFrame(expr, frameIndex);
+    } finally {
+      this.evaluating = wasEvaluating;
+    }
+  }
+
+  // ============ Debug Hook ============
+
+  beforeStatement(stmt: Statement, depth: number): void {
+    if (this.evaluating) return;
+
+    const { line, column } = stmt.loc.start;
+    // Statements that share a line (like `if (x) { y = 1 }`) only count once,
+    // until one of them runs again (in the next frame or loop iteration)
+    const newLine =
+      line !== this.lastLine || depth !== this.lastDepth || this.lineStatements.has(stmt);
+    if (newLine) this.lineStatements.clear();
+    this.lineStatements.add(stmt);
+    this.lastLine = line;
+    this.lastDepth = depth;
+
+    let reason: PauseReason | null = null;
+    if (this.mode === "pause") {
+      reason = "pause";
+    } else if (newLine && this.mode === "stepIn") {
+      reason = "step";
+    } else if (newLine && this.mode === "stepOver" && depth <= this.stepDepth) {
+      reason = "step";
+    } else if (this.mode === "stepOut" && depth < this.stepDepth) {
+      reason = "step";
+    }
+
+    let breakpoint: Breakpoint | null = null;
+    let conditionError: string | null = null;
+    if (newLine) {
+      for (const candidate of this.breakpoints.values()) {
+        if (candidate.line !== line) continue;
+        const hit = this.checkCondition(candidate);
+        if (hit === true) {
+          breakpoint = candidate;
+          break;
+        }
+        if (typeof hit === "string") {
+          // Stop on broken conditions, so they get noticed
+          breakpoint = candidate;
+          conditionError = hit;
+          break;
+        }
+      }
+    }
+    if (breakpoint && !reason) {
+      reason = "breakpoint";
+    }
+    if (!reason) return;
+
+    const event: PauseEvent = {
+      reason,
+      line,
+      column,
+      breakpoint,
+      conditionError,
+      frames: this.getFrames(),
+    };
+    this.mode = this.onPauseHandler?.(event) ?? "continue";
+    this.stepDepth = depth;
+  }
+
+  /**
+   * @returns Whether the breakpoint should stop, or the error if its condition failed
+   */
+  private checkCondition(breakpoint: Breakpoint): boolean | string {
+    if (breakpoint.condition === null) return true;
+    try {
+      return this.interpreter.isTruthy(this.evaluate(breakpoint.condition));
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  private parseExpression(source: string): Expression {
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+    const [statement] = program.body;
+    if (program.body.length !== 1 || statement.type !== "ExpressionStatement") {
+      throw new Error(`Expected an expression, got: ${source}`);
+    }
+    return statement.expression;
+  }
+}
+
+/**
+ * Describe a value for a debugger's variables view
+ */
+export function describeValue(value: RageValue): string {
+  if (value === null) return "null";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value !== "object" && typeof value !== "function") return String(value);
+  if (typeof value === "function") return "builtin function";
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (isPrototype(value)) {
+    const fields = Object.keys(value).filter((key) => key !== "__type");
+    return fields.length > 0 ? `prototype { ${fields.join(", ")} }` : "prototype {}";
+  }
+  if (isEnumVariant(value)) return `${value.enumName}.${value.variantName}`;
+  if (isEnumVariantDef(value)) return `${value.enumName}.${value.variantName} constructor`;
+  if (value.__type === "function") {
+    const fn = value as RageFunction;
+    const name = fn.name === ANONYMOUS_FUNCTION ? "" : fn.name;
+    return `fun ${name}(${fn.parameters.join(", ")})`;
+  }
+  return `enum ${value.name}`;
+}
+
+// Statements the debugger stops at (blocks stop at their first statement instead)
+const STOPPING_STATEMENTS: ReadonlySet<string> = new Set<Statement["type"]>([
+  "DrawBlock",
+  "UpdateBlock",
+  "FunctionDeclaration",
+  "EnumDeclaration",
+  "ReturnStatement",
+  "IfStatement",
+  "LoopStatement",
+  "BreakStatement",
+  "ExpressionStatement",
+  "VariableDeclaration",
+]);
+
+/**
+ * Get the lines a breakpoint can stop at (where a statement starts), in order.
+ * Includes the statements in match arms, which are nested in expressions.
+ */
+export function findStatementLines(program: Program): number[] {
+  const lines = new Set<number>();
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node !== "object" || node === null) return;
+    const { type, loc } = node as Partial<Statement>;
+    if (type && loc && STOPPING_STATEMENTS.has(type)) {
+      lines.add(loc.start.line);
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== "loc") visit(value);
+    }
+  };
+  visit(program.body);
+  return [...lines].sort((a, b) => a - b);
+}
@@ -0,0 +1,73 @@
+/**
+ * Runtime errors for Ragelang
+ */
+
+import type { SourceLocation } from "../parser/ast.js";
+
+export type GameBlock = "update" | "draw";
+
+/**
+ * A call to a user function that was in progress when an error happened
+ */
+export interface StackFrame {
+  functionName: string;
+  line: number; // Line of the call site
+  column: number;
+  block: GameBlock | null; // The game block the call ran in, or null for top-level code
+}
+
+/**
+ * Error thrown while running a program, pointing at the node that failed
+ */
+export class RageRuntimeError extends Error {
+  readonly reason: string; // The message without the location
+  readonly loc: SourceLocation;
+  readonly callStack: StackFrame[]; // Innermost call first
+  readonly block: GameBlock | null; // The game block that was running, or null for top-level code
+
+  constructor(
+    reason: string,
+    loc: SourceLocation,
+    callStack: StackFrame[] = [],
+    block: GameBlock | null = null,
+    options?: ErrorOptions
+  ) {
+    super(`${reason} at line ${loc.start.line}, column ${loc.start.column}`, options);
+    this.name = "RageRuntimeError";
+    this.reason = reason;
+    this.loc = loc;
+    this.callStack = callStack;
+    this.block = block;
+  }
+
+  /**
+   * Format the error with its Ragelang call stack, one frame per line
+   */
+  formatTrace(): string {
+    const frames = this.callStack.map((frame) => {
+      const block = frame.block ? ` in ${frame.block}` : "";
+      return `    at ${frame.functionName} (called at line ${frame.line}, column ${frame.column})${block}`;
+    });
+    const lines = [`${this.name}: ${this.message}`, ...frames];
+    if (this.block) {
+      lines.push(`    in the ${this.block} block`);
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Error thrown when a program runs past one of its execution limits,
+ * like a loop that never breaks
+ */
+export class RageLimitError extends RageRuntimeError {
+  constructor(
+    reason: string,
+    loc: SourceLocation,
+    callStack: StackFrame[] = [],
+    block: GameBlock | null = null
+  ) {
+    super(reason, loc, callStack, block);
+    this.name = "RageLimitError";
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Host builtins for Ragelang
+ *
+ * Lets a page embedding Ragelang give games its own functions (leaderboards,
+ * achievements, analytics...), either as globals or grouped into modules
+ * called like `leaderboard.submit(score)`. They take keyword arguments and
+ * defaults like any builtin, since each gets a spec in the builtin registry.
+ */
+
+import { KEYWORDS } from "../lexer/tokens.js";
+import {
+  createPrototype,
+  isEnumVariant,
+  isEnumVariantDef,
+  isPrototype,
+  type BuiltinFunction,
+  type RageValue,
+} from "./builtins.js";
+import type { BuiltinParam, BuiltinSpec } from "./registry.js";
+
+/**
+ * A function provided by the host. It may return anything JSON-like; other
+ * results reach the game as null. Promises do too, and if one rejects, the
+ * error is reported like the game's own (see createHostBuiltin).
+ */
+export type HostFunction = (...args: RageValue[]) => unknown;
+
+export interface HostBuiltinOptions {
+  /**
+   * Parameter names, so the function can be called with keyword arguments.
+   * Without them it takes any number of arguments, positionally.
+   */
+  params?: string[];
+  /** Values for parameters the caller leaves out */
+  defaults?: Record<string, RageValue>;
+  /** Types to check arguments against, by parameter (default "any") */
+  types?: Record<string, BuiltinParam["type"]>;
+}
+
+export interface HostBuiltin {
+  fn: BuiltinFunction;
+  spec: BuiltinSpec;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check that a host-given name can be written in Ragelang code
+ */
+export function checkHostName(name: string): void {
+  if (!IDENTIFIER.test(name) || name in KEYWORDS) {
+    throw new Error(`'${name}' isn't a valid Ragelang name`);
+  }
+}
+
+/**
+ * Convert a host function's result into a Ragelang value: plain objects become
+ * prototypes, and undefined, promises and other non-values become null
+ */
+export function toRageValue(value: unknown): RageValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(toRageValue);
+  if (typeof value !== "object" || value instanceof Promise) return null;
+
+  const rageValue = value as RageValue;
+  if (isPrototype(rageValue) || isEnumVariant(rageValue) || isEnumVariantDef(rageValue)) {
+    return rageValue;
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) return null;
+  const prototype = createPrototype();
+  for (const [key, field] of Object.entries(value)) {
+    prototype[key] = toRageValue(field);
+  }
+  return prototype;
+}
+
+/**
+ * Wrap a host function as a builtin, with a spec to bind its arguments by
+ * @param name The name it's called by in errors, like "leaderboard.submit"
+ * @param onCall Called with each call, to get what reports the error if the
+ * promise it returns rejects
+ */
+export function createHostBuiltin(
+  name: string,
+  fn: HostFunction,
+  options: HostBuiltinOptions = {},
+  onCall: () => (error: Error) => void = () => (error) => console.error(error)
+): HostBuiltin {
+  const { params, defaults = {}, types = {} } = options;
+  for (const param of [...Object.keys(defaults), ...Object.keys(types)]) {
+    if (!params?.includes(param)) {
+      throw new Error(`${name}() has no parameter ${param}`);
+    }
+  }
+
+  const spec: BuiltinSpec = {
+    name,
+    category: "host",
+    doc: "",
+    params: (params ?? []).map((param) => {
+      checkHostName(param);
+      const type = types[param] ?? "any";
+      return param in defaults
+        ? { name: param, type, default: defaults[param] }
+        : { name: param, type };
+    }),
+    ...(params ? {} : { rest: { name: "args", type: "any" } }),
+  };
+  const builtin: BuiltinFunction = (...args) => {
+    const result = fn(...args);
+    if (result instanceof Promise) {
+      const report = onCall();
+      result.catch((reason: unknown) => {
+        const message = reason instanceof Error ? reason.message : String(reason);
+        report(new Error(`${name}() failed: ${message}`));
+      });
+    }
+    return toRageValue(result);
+  };
+  return { fn: builtin, spec };
+}
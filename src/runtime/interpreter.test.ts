@@ -1,9 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Lexer } from "../lexer/lexer.js";
 import { Parser } from "../parser/parser.js";
 import { Interpreter } from "./interpreter.js";
 import { CanvasRenderer } from "../renderer/canvas.js";
 import { RagePrototype } from "./builtins.js";
+import { RageLimitError, RageRuntimeError } from "./errors.js";
+import { InputManager } from "../input/input.js";
+import type { ExecutionLimits } from "./limits.js";
 
 function createInterpreter() {
   const renderer = new CanvasRenderer(null, { width: 800, height: 600 });
@@ -739,6 +742,94 @@ b = apply(triple, 5)
     expect(env.get("b")).toBe(15);
   });
 
+  it("should call anonymous and arrow functions", () => {
+    const interpreter = runProgram(`
+double = fun (x) { return x * 2 }
+add = (a, b) => a + b
+nothing = () => {}
+a = double(4)
+b = add(b = 2, a = 1)
+c = ((x) => x * x)(5)
+d = nothing()
+`);
+    const env = interpreter.getEnvironment();
+    expect(env.get("a")).toBe(8);
+    expect(env.get("b")).toBe(3);
+    expect(env.get("c")).toBe(25);
+    expect(env.get("d")).toBe(null);
+  });
+
+  it("should capture the defining environment in function expressions", () => {
+    const interpreter = runProgram(`
+fun adder(n) {
+  return (x) => x + n
+}
+add2 = adder(2)
+add10 = adder(10)
+a = add2(1)
+b = add10(1)
+`);
+    const env = interpreter.getEnvironment();
+    expect(env.get("a")).toBe(3);
+    expect(env.get("b")).toBe(11);
+  });
+
+  it("should store functions in prototypes, arrays and enum fields", () => {
+    const interpreter = runProgram(`
+enum Event { Timer(delay, callback) }
+enemy = {speed: 3, move: fun (x) { return x + 1 }}
+steps = [(x) => x + 1, (x) => x * 10]
+timer = Timer(1, () => "ring")
+a = enemy.move(enemy.speed)
+b = steps[1](steps[0](1))
+c = match timer {
+  Timer(delay, callback) => callback(),
+  _ => null
+}
+`);
+    const env = interpreter.getEnvironment();
+    expect(env.get("a")).toBe(4);
+    expect(env.get("b")).toBe(20);
+    expect(env.get("c")).toBe("ring");
+  });
+
+  it("should call back into functions from higher-order array builtins", () => {
+    const interpreter = runProgram(`
+fun is_even(n) {
+  return n % 2 == 0
+}
+nums = [5, 2, 8, 3]
+doubled = map(nums, (n) => n * 2)
+evens = filter(nums, is_even)
+total = reduce(nums, (sum, n) => sum + n, 0)
+big = find(nums, (n) => n > 6)
+none = find(nums, (n) => n > 100)
+some_even = any(nums, is_even)
+all_even = all(nums, is_even)
+rounded = map([1.5, 2.5], floor)
+`);
+    const env = interpreter.getEnvironment();
+    expect(env.get("doubled")).toEqual([10, 4, 16, 6]);
+    expect(env.get("evens")).toEqual([2, 8]);
+    expect(env.get("total")).toBe(18);
+    expect(env.get("big")).toBe(8);
+    expect(env.get("none")).toBe(null);
+    expect(env.get("some_even")).toBe(true);
+    expect(env.get("all_even")).toBe(false);
+    expect(env.get("rounded")).toEqual([1, 2]);
+    expect(env.get("nums")).toEqual([5, 2, 8, 3]);
+  });
+
+  it("should sort in place with a comparator", () => {
+    const interpreter = runProgram(`
+enemies = [{name: "b", hp: 3}, {name: "a", hp: 9}, {name: "c", hp: 3}]
+sort_by(enemies, (a, b) => b.hp - a.hp)
+names = map(enemies, (e) => e.name)
+`);
+    const env = interpreter.getEnvironment();
+    expect(env.get("names")).toEqual(["a", "b", "c"]);
+  });
+
   // Array builtin tests
   it("should create array with array(size) builtin", () => {
     const interpreter = runProgram(`
@@ -1583,6 +1674,20 @@ length = len(result)
     expect(env.get("length")).toBe(2);
   });
 
+  it("should fill in builtin defaults skipped by keyword arguments", () => {
+    const interpreter = runProgram(`
+parts = slice([1, 2, 3, 4], end=2)
+joined = join(parts, separator="-")
+`);
+    expect(interpreter.getGlobal("joined")).toBe("1-2");
+  });
+
+  it("should check builtin argument types", () => {
+    expect(() => runProgram(`x = sqrt("4")`)).toThrow(
+      "sqrt() expects x to be a number, got string at line 1, column 5"
+    );
+  });
+
   it("should support passing prototypes to functions", () => {
     const interpreter = runProgram(`
 fun draw_entity(entity) {
@@ -2450,3 +2555,703 @@ result = true || increment() || increment()
     expect(env.get("call_count")).toBe(0);
   });
 });
+
+describe("Interpreter errors", () => {
+  function runError(source: string): RageRuntimeError {
+    try {
+      runProgram(source);
+    } catch (e) {
+      return e as RageRuntimeError;
+    }
+    throw new Error("Expected the program to throw");
+  }
+
+  it("should point at the expression that failed", () => {
+    const error = runError(`x = 5
+y = 1 + x(2)`);
+
+    expect(error).toBeInstanceOf(RageRuntimeError);
+    expect(error.reason).toBe("Can only call functions or enum variant constructors");
+    expect(error.message).toBe(
+      "Can only call functions or enum variant constructors at line 2, column 9"
+    );
+    expect(error.loc).toEqual({ start: { line: 2, column: 9 }, end: { line: 2, column: 13 } });
+  });
+
+  it("should locate errors inside functions and from builtins", () => {
+    const undefinedError = runError(`fun f() {
+  return missing + 1
+}
+f()`);
+    expect(undefinedError.reason).toBe("Undefined variable: missing");
+    expect(undefinedError.loc.start).toEqual({ line: 2, column: 10 });
+
+    const indexError = runError("n = 3\nv = n[0]");
+    expect(indexError.loc.start).toEqual({ line: 2, column: 5 });
+  });
+
+  it("should record the Ragelang call stack", () => {
+    const error = runError(`fun inner(v) {
+  return v.missing
+}
+fun outer() {
+  return inner(1)
+}
+outer()`);
+
+    expect(error.callStack).toEqual([
+      { functionName: "inner", line: 5, column: 10, block: null },
+      { functionName: "outer", line: 7, column: 1, block: null },
+    ]);
+    expect(error.formatTrace()).toBe(
+      [
+        "RageRuntimeError: Can only access properties on prototypes at line 2, column 10",
+        "    at inner (called at line 5, column 10)",
+        "    at outer (called at line 7, column 1)",
+      ].join("\n")
+    );
+  });
+
+  it("should name anonymous functions in the call stack", () => {
+    const error = runError(`fail = (v) => v.missing
+fail(1)`);
+
+    expect(error.formatTrace()).toContain("    at <anonymous> (called at line 2, column 1)");
+  });
+
+  it("should report errors in callbacks with the builtin's call in the stack", () => {
+    const error = runError(`fun hp(enemy) {
+  return enemy.hp
+}
+hps = map([1], hp)`);
+
+    expect(error.message).toBe("Can only access properties on prototypes at line 2, column 10");
+    expect(error.loc.start).toEqual({ line: 2, column: 10 });
+    expect(error.callStack).toEqual([{ functionName: "hp", line: 4, column: 7, block: null }]);
+    expect(() => runProgram("sort_by([2, 1], (a, b) => a < b)")).toThrow(
+      "sort_by() compare must return a number, got boolean"
+    );
+    expect(() => runProgram("map([1], 5)")).toThrow(
+      "map() expects fn to be a function, got number"
+    );
+  });
+
+  it("should unwind the call stack and scope after a caught call", () => {
+    const interpreter = createInterpreter();
+    const program = new Parser(
+      new Lexer(`fun fail(param) {
+  return missing
+}`).tokenize()
+    ).parse();
+    interpreter.run(program);
+
+    const call = new Parser(new Lexer("fail(7)").tokenize()).parse();
+    expect(() => interpreter.run(call)).toThrow(RageRuntimeError);
+    // The next error only has its own frames, and runs in the global scope again
+    const error = (() => {
+      try {
+        interpreter.run(call);
+      } catch (e) {
+        return e as RageRuntimeError;
+      }
+    })();
+    expect(error?.callStack).toHaveLength(1);
+    const leak = new Parser(new Lexer("seen = param").tokenize()).parse();
+    expect(() => interpreter.run(leak)).toThrow("Undefined variable: param");
+  });
+
+  describe("in the game loop", () => {
+    beforeEach(() => {
+      vi.stubGlobal(
+        "requestAnimationFrame",
+        vi.fn(() => 1)
+      );
+      vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should stop the loop and report errors with the block they happened in", () => {
+      const interpreter = runProgram(`fun step() {
+  return nothing
+}
+update(dt) {
+  step()
+}`);
+      const onError = vi.fn();
+      interpreter.setOnError(onError);
+      interpreter.startGameLoop();
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      const error = onError.mock.calls[0][0] as RageRuntimeError;
+      expect(error.reason).toBe("Undefined variable: nothing");
+      expect(error.block).toBe("update");
+      expect(error.callStack).toEqual([
+        { functionName: "step", line: 5, column: 3, block: "update" },
+      ]);
+      expect(error.formatTrace()).toContain("    in the update block");
+      // No next frame is scheduled
+      expect(requestAnimationFrame).not.toHaveBeenCalled();
+    });
+
+    it("should throw from the loop when there is no error handler", () => {
+      const interpreter = runProgram(`draw {
+  x = 1 + nothing
+}`);
+
+      expect(() => interpreter.startGameLoop()).toThrow("Undefined variable: nothing");
+    });
+  });
+});
+
+describe("Interpreter headless ticking", () => {
+  function createHeadless(source: string) {
+    const input = new InputManager();
+    const interpreter = new Interpreter(
+      new CanvasRenderer(null, { width: 800, height: 600 }),
+      input
+    );
+    interpreter.run(new Parser(new Lexer(source).tokenize()).parse());
+    return { interpreter, input };
+  }
+
+  it("should run update and draw once per tick with the given dt", () => {
+    const { interpreter } = createHeadless(`total = 0
+drawn = 0
+update(dt) {
+  total = total + dt
+}
+draw {
+  drawn = frames()
+  rect(0, 0, 10, 10)
+}`);
+
+    interpreter.tick(0.5);
+    interpreter.runFrames(3, 0.25);
+
+    expect(interpreter.getGlobal("total")).toBe(1.25);
+    expect(interpreter.getGlobal("drawn")).toBe(4);
+    expect(interpreter.getGlobal("missing")).toBeUndefined();
+  });
+
+  it("should use simulated time", () => {
+    const { interpreter } = createHeadless(`t = -1
+update(dt) {
+  t = time()
+}`);
+
+    interpreter.runFrames(30);
+    expect(interpreter.getGlobal("t")).toBeCloseTo(0.5);
+  });
+
+  it("should read scripted input", () => {
+    const { interpreter, input } = createHeadless(`x = 0
+jumps = 0
+update(dt) {
+  if (held("right")) {
+    x = x + 100 * dt
+  }
+  if (pressed("jump")) {
+    jumps = jumps + 1
+  }
+}`);
+
+    input.press("right");
+    input.press("jump");
+    interpreter.runFrames(60);
+    input.release("right");
+    interpreter.runFrames(60);
+
+    expect(interpreter.getGlobal("x")).toBeCloseTo(100);
+    // Held keys are only pressed on the first frame
+    expect(interpreter.getGlobal("jumps")).toBe(1);
+
+    input.releaseAll();
+    input.press("space");
+    interpreter.tick(1 / 60);
+    expect(interpreter.getGlobal("jumps")).toBe(2);
+  });
+
+  it("should expire input buffers in simulated time", () => {
+    const { interpreter } = createHeadless(`fresh = false
+stale = false
+buffer_input("jump", 0.1)
+update(dt) {
+  if (frames() == 3) {
+    fresh = check_buffer("jump")
+    buffer_input("jump", 0.1)
+  }
+  if (frames() == 20) {
+    stale = check_buffer("jump")
+  }
+}`);
+
+    interpreter.runFrames(20);
+    expect(interpreter.getGlobal("fresh")).toBe(true);
+    expect(interpreter.getGlobal("stale")).toBe(false);
+  });
+
+  it("should throw errors from tick", () => {
+    const { interpreter } = createHeadless(`update(dt) {
+  x = nothing
+}`);
+
+    expect(() => interpreter.tick(1 / 60)).toThrow(RageRuntimeError);
+  });
+});
+
+describe("Interpreter fixed timestep and seeding", () => {
+  function create(source: string): Interpreter {
+    const interpreter = new Interpreter(new CanvasRenderer(null, { width: 800, height: 600 }));
+    interpreter.run(new Parser(new Lexer(source).tokenize()).parse());
+    return interpreter;
+  }
+
+  const physics = `y = 0
+vel = 0
+updates = 0
+alphas = []
+update(dt) {
+  vel = vel + 980 * dt
+  y = y + vel * dt
+  updates++
+}
+draw {
+  push(alphas, frame_alpha())
+}`;
+
+  it("should run the same updates at any frame rate", () => {
+    const at60 = create(physics);
+    at60.setFixedTimestep(1 / 60);
+    at60.runFrames(60, 1 / 60);
+
+    const at144 = create(physics);
+    at144.setFixedTimestep(1 / 60);
+    at144.runFrames(144, 1 / 144);
+
+    expect(at60.getGlobal("updates")).toBe(60);
+    expect(at144.getGlobal("updates")).toBe(60);
+    expect(at144.getGlobal("y")).toBe(at60.getGlobal("y"));
+  });
+
+  it("should draw with how far the frame is between updates", () => {
+    const interpreter = create(physics);
+    interpreter.setFixedTimestep(0.1);
+    interpreter.runFrames(3, 0.025);
+    interpreter.tick(0.2);
+
+    expect(interpreter.getGlobal("updates")).toBe(2);
+    const alphas = interpreter.getGlobal("alphas") as number[];
+    expect(alphas.map((alpha) => Math.round(alpha * 100) / 100)).toEqual([0.25, 0.5, 0.75, 0.75]);
+  });
+
+  it("should only catch up on a few updates after a long frame", () => {
+    const interpreter = create(physics);
+    interpreter.setFixedTimestep(1 / 60);
+    interpreter.tick(10);
+
+    expect(interpreter.getGlobal("updates")).toBe(8);
+  });
+
+  it("should count updates with frames() and simulate time()", () => {
+    const interpreter = create(`count = 0
+t = 0
+update(dt) {
+  count = frames()
+  t = time()
+}`);
+    interpreter.setFixedTimestep(0.5);
+    interpreter.runFrames(4, 0.25);
+
+    expect(interpreter.getGlobal("count")).toBe(2);
+    expect(interpreter.getGlobal("t")).toBe(1);
+  });
+
+  it("should reject timesteps that aren't positive", () => {
+    const interpreter = create("");
+    expect(() => interpreter.setFixedTimestep(0)).toThrow("Fixed timestep must be a positive");
+    expect(() => interpreter.setFixedTimestep(NaN)).toThrow("Fixed timestep must be a positive");
+  });
+
+  it("should repeat random numbers after seed()", () => {
+    const interpreter = create(`seed(7)
+a = [random(), randomInt(1, 100), random()]
+seed(7)
+b = [random(), randomInt(1, 100), random()]`);
+
+    const a = interpreter.getGlobal("a") as number[];
+    expect(interpreter.getGlobal("b")).toEqual(a);
+    expect(a[0]).toBeGreaterThanOrEqual(0);
+    expect(a[0]).toBeLessThan(1);
+    expect(Number.isInteger(a[1])).toBe(true);
+  });
+
+  it("should make the same choices in every seeded run and after reset", () => {
+    const source = `rolls = [randomInt(1, 6), randomInt(1, 6), randomInt(1, 6), random()]`;
+    const program = new Parser(new Lexer(source).tokenize()).parse();
+
+    const first = new Interpreter(new CanvasRenderer(null, { width: 800, height: 600 }));
+    first.setSeed(1234);
+    first.run(program);
+    const rolls = first.getGlobal("rolls");
+
+    const second = new Interpreter(new CanvasRenderer(null, { width: 800, height: 600 }));
+    second.setSeed(1234);
+    second.run(program);
+    expect(second.getGlobal("rolls")).toEqual(rolls);
+
+    first.reset();
+    first.run(program);
+    expect(first.getGlobal("rolls")).toEqual(rolls);
+  });
+});
+
+describe("Interpreter execution limits", () => {
+  function parse(source: string) {
+    return new Parser(new Lexer(source).tokenize()).parse();
+  }
+
+  function withLimits(limits: ExecutionLimits) {
+    const interpreter = createInterpreter();
+    interpreter.setLimits(limits);
+    return interpreter;
+  }
+
+  it("should stop a loop that never breaks", () => {
+    const interpreter = createInterpreter();
+    let error: unknown;
+    try {
+      interpreter.run(
+        parse(`x = 0
+loop {
+  x++
+}`)
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RageLimitError);
+    expect((error as RageLimitError).message).toBe(
+      "Loop exceeded 1,000,000 iterations at line 2, column 1"
+    );
+    expect(interpreter.getGlobal("x")).toBe(1_000_000);
+  });
+
+  it("should let loops that break run", () => {
+    const interpreter = withLimits({ maxLoopIterations: 10 });
+    interpreter.run(
+      parse(`x = 0
+loop {
+  x++
+  if (x == 10) {
+    break
+  }
+}`)
+    );
+
+    expect(interpreter.getGlobal("x")).toBe(10);
+  });
+
+  it("should count iterations for each run of a loop", () => {
+    const interpreter = withLimits({ maxLoopIterations: 5 });
+    interpreter.run(
+      parse(`total = 0
+fun count_to(n) {
+  i = 0
+  loop {
+    if (i == n) {
+      break
+    }
+    i++
+    total++
+  }
+}
+count_to(4)
+count_to(4)`)
+    );
+
+    expect(interpreter.getGlobal("total")).toBe(8);
+  });
+
+  it("should stop loops in the update block with their block and call stack", () => {
+    const interpreter = withLimits({ maxLoopIterations: 100 });
+    interpreter.run(
+      parse(`fun spin() {
+  loop {
+  }
+}
+update(dt) {
+  spin()
+}`)
+    );
+
+    let error: RageLimitError | undefined;
+    try {
+      interpreter.tick(1 / 60);
+    } catch (e) {
+      error = e as RageLimitError;
+    }
+
+    expect(error?.reason).toBe("Loop exceeded 100 iterations");
+    expect(error?.block).toBe("update");
+    expect(error?.callStack).toEqual([
+      { functionName: "spin", line: 6, column: 3, block: "update" },
+    ]);
+  });
+
+  it("should limit the steps of each frame", () => {
+    const interpreter = withLimits({ maxStepsPerFrame: 500 });
+    interpreter.run(
+      parse(`n = 0
+update(dt) {
+  i = 0
+  loop {
+    i++
+    if (i > n) {
+      break
+    }
+  }
+  n = n + 100
+}`)
+    );
+
+    // Each frame starts a new budget
+    interpreter.runFrames(2);
+    expect(() => interpreter.runFrames(3)).toThrow(
+      "Frame exceeded its budget of 500 steps at line 5, column 5"
+    );
+  });
+
+  it("should limit the steps of the program's top-level code", () => {
+    const interpreter = withLimits({ maxStepsPerRun: 50 });
+    const program = parse(`i = 0
+loop {
+  i++
+}`);
+
+    expect(() => interpreter.run(program)).toThrow(
+      new RageLimitError("Program exceeded its budget of 50 steps", {
+        start: { line: 3, column: 3 },
+        end: { line: 3, column: 6 },
+      })
+    );
+
+    // Code run later, outside of run(), isn't limited by it
+    interpreter.setLimits({ maxStepsPerRun: 1000 });
+    interpreter.run(parse("x = 1"));
+    expect(interpreter.getGlobal("x")).toBe(1);
+  });
+
+  describe("in the game loop", () => {
+    beforeEach(() => {
+      vi.stubGlobal(
+        "requestAnimationFrame",
+        vi.fn(() => 1)
+      );
+      vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const spinning = `update(dt) {
+  loop {
+  }
+}`;
+
+    it("should report hitting a limit as an error", () => {
+      const interpreter = withLimits({ maxLoopIterations: 10 });
+      interpreter.run(parse(spinning));
+      const onError = vi.fn();
+      const onPause = vi.fn();
+      interpreter.setOnError(onError);
+      interpreter.setOnPause(onPause);
+      interpreter.startGameLoop();
+
+      expect(onError).toHaveBeenCalledWith(expect.any(RageLimitError));
+      expect(onPause).not.toHaveBeenCalled();
+    });
+
+    it("should pause instead when asked to", () => {
+      const interpreter = withLimits({ maxLoopIterations: 10, pauseOnExceeded: true });
+      interpreter.run(parse(spinning));
+      const onError = vi.fn();
+      const onPause = vi.fn();
+      interpreter.setOnError(onError);
+      interpreter.setOnPause(onPause);
+      interpreter.startGameLoop();
+
+      expect(onPause).toHaveBeenCalledWith(expect.any(RageLimitError));
+      expect(onError).not.toHaveBeenCalled();
+      expect(requestAnimationFrame).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("Interpreter host builtins", () => {
+  function runWithHost(source: string, register: (interpreter: Interpreter) => void) {
+    const interpreter = createInterpreter();
+    register(interpreter);
+    interpreter.run(new Parser(new Lexer(source).tokenize()).parse());
+    return interpreter;
+  }
+
+  it("should call a host function with keyword arguments and defaults", () => {
+    const greet = vi.fn((name: unknown, greeting: unknown) => `${greeting}, ${name}`);
+    const interpreter = runWithHost(
+      `a = greet("Ada")
+b = greet(greeting = "Bye", name = "Bob")`,
+      (interpreter) =>
+        interpreter.registerBuiltin("greet", greet, {
+          params: ["name", "greeting"],
+          defaults: { greeting: "Hi" },
+        })
+    );
+
+    expect(interpreter.getGlobal("a")).toBe("Hi, Ada");
+    expect(interpreter.getGlobal("b")).toBe("Bye, Bob");
+  });
+
+  it("should check host functions' arguments like builtins'", () => {
+    const register = (interpreter: Interpreter) =>
+      interpreter.registerBuiltin("unlock", () => {}, {
+        params: ["id"],
+        types: { id: "string" },
+      });
+
+    expect(() => runWithHost("unlock()", register)).toThrow("unlock() is missing argument: id");
+    expect(() => runWithHost("unlock(3)", register)).toThrow(
+      "unlock() expects id to be a string, got number"
+    );
+    expect(() => runWithHost('unlock(name = "x")', register)).toThrow(
+      "Unknown keyword argument: name for function unlock"
+    );
+  });
+
+  it("should take any positional arguments without parameter names", () => {
+    const track = vi.fn();
+    runWithHost('track("jump", 3)', (interpreter) => interpreter.registerBuiltin("track", track));
+
+    expect(track).toHaveBeenCalledWith("jump", 3);
+    expect(() =>
+      runWithHost('track(event = "jump")', (interpreter) =>
+        interpreter.registerBuiltin("track", track)
+      )
+    ).toThrow("Unknown keyword argument: event for function track");
+  });
+
+  it("should turn host results into Ragelang values", () => {
+    const interpreter = runWithHost(
+      `nothing = log("hi")
+entry = top()
+name = entry.name
+pending = fetchScores()`,
+      (interpreter) => {
+        interpreter.registerBuiltin("log", () => undefined);
+        interpreter.registerBuiltin("top", () => ({ name: "Ada", scores: [3, 2] }));
+        interpreter.registerBuiltin("fetchScores", () => Promise.resolve([1]));
+      }
+    );
+
+    expect(interpreter.getGlobal("nothing")).toBeNull();
+    expect(interpreter.getGlobal("entry")).toEqual({
+      __type: "prototype",
+      name: "Ada",
+      scores: [3, 2],
+    });
+    expect(interpreter.getGlobal("name")).toBe("Ada");
+    expect(interpreter.getGlobal("pending")).toBeNull();
+  });
+
+  it("should report host promises that reject", async () => {
+    const onError = vi.fn();
+    const interpreter = createInterpreter();
+    interpreter.setOnError(onError);
+    interpreter.registerBuiltin("submit", () => Promise.reject(new Error("offline")));
+    interpreter.run(new Parser(new Lexer("result = submit()").tokenize()).parse());
+
+    expect(interpreter.getGlobal("result")).toBeNull();
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(onError.mock.calls[0][0].message).toBe("submit() failed: offline");
+
+    // Without an error callback, they're logged
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logged = createInterpreter();
+    logged.registerModule("leaderboard", { submit: () => Promise.reject("timeout") });
+    logged.run(new Parser(new Lexer("leaderboard.submit()").tokenize()).parse());
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalled());
+    expect(consoleError.mock.calls[0][0].message).toBe("leaderboard.submit() failed: timeout");
+    consoleError.mockRestore();
+  });
+
+  it("should ignore host promises that reject after a reset", async () => {
+    const onError = vi.fn();
+    let reject: (reason: Error) => void = () => {};
+    const interpreter = createInterpreter();
+    interpreter.setOnError(onError);
+    interpreter.registerModule("leaderboard", {
+      submit: () => new Promise((_, rejectSubmit) => (reject = rejectSubmit)),
+    });
+    interpreter.run(new Parser(new Lexer("leaderboard.submit()").tokenize()).parse());
+
+    // Like a scene change, while the submission is still pending
+    interpreter.reset();
+    interpreter.run(new Parser(new Lexer("x = 1").tokenize()).parse());
+    reject(new Error("timeout"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should call module functions by member", () => {
+    const submit = vi.fn(() => 1);
+    const interpreter = runWithHost(
+      `rank = leaderboard.submit(score = 40)
+size = leaderboard.size`,
+      (interpreter) =>
+        interpreter.registerModule(
+          "leaderboard",
+          { submit, size: 10 },
+          { submit: { params: ["score", "name"], defaults: { name: "anonymous" } } }
+        )
+    );
+
+    expect(submit).toHaveBeenCalledWith(40, "anonymous");
+    expect(interpreter.getGlobal("rank")).toBe(1);
+    expect(interpreter.getGlobal("size")).toBe(10);
+    expect(() =>
+      runWithHost("leaderboard.submit()", (interpreter) =>
+        interpreter.registerModule("leaderboard", { submit }, { submit: { params: ["score"] } })
+      )
+    ).toThrow("leaderboard.submit() is missing argument: score");
+  });
+
+  it("should keep host builtins through resets", () => {
+    const interpreter = createInterpreter();
+    interpreter.registerBuiltin("answer", () => 42);
+    interpreter.registerModule("stats", { version: 2 });
+    interpreter.reset();
+    interpreter.run(new Parser(new Lexer("a = answer()\nv = stats.version").tokenize()).parse());
+
+    expect(interpreter.getGlobal("a")).toBe(42);
+    expect(interpreter.getGlobal("v")).toBe(2);
+  });
+
+  it("should reject names games can't use", () => {
+    const interpreter = createInterpreter();
+
+    expect(() => interpreter.registerBuiltin("match", () => 1)).toThrow(
+      "'match' isn't a valid Ragelang name"
+    );
+    expect(() => interpreter.registerModule("high-scores", {})).toThrow(
+      "'high-scores' isn't a valid Ragelang name"
+    );
+    expect(() =>
+      interpreter.registerBuiltin("save", () => 1, { params: ["slot"], defaults: { slto: 0 } })
+    ).toThrow("save() has no parameter slto");
+  });
+});
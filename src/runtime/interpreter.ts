@@ -1,10 +1,12 @@
 import type {
   Program,
+  SourceLocation,
   Statement,
   Expression,
   DrawBlock,
   UpdateBlock,
   FunctionDeclaration,
+  FunctionExpression,
   EnumDeclaration,
   ReturnStatement,
   IfStatement,
@@ -28,20 +30,39 @@ import type {
   StringLiteral,
   BooleanLiteral,
 } from "../parser/ast.js";
-import { CanvasRenderer } from "../renderer/canvas.js";
+import type { Renderer } from "../renderer/renderer.js";
 import { InputManager } from "../input/input.js";
+import type { InputReplay } from "../input/replay.js";
 import {
   type RageValue,
   type RageFunction,
   type RageEnumVariantDef,
   type BuiltinFunction,
+  type FunctionCaller,
+  ANONYMOUS_FUNCTION,
   createBuiltins,
   createPrototype,
   isPrototype,
   isEnumVariantDef,
   isEnumVariant,
+  isTruthy,
   createEnumVariant,
 } from "./builtins.js";
+import { bindArguments, getBuiltinSpec, type BuiltinSpec } from "./registry.js";
+import {
+  checkHostName,
+  createHostBuiltin,
+  toRageValue,
+  type HostBuiltinOptions,
+  type HostFunction,
+} from "./host.js";
+import { RageLimitError, RageRuntimeError, type GameBlock, type StackFrame } from "./errors.js";
+import { DEFAULT_LIMITS, formatCount, type ExecutionLimits } from "./limits.js";
+import { SeededRandom } from "./random.js";
+
+// Most updates a fixed-timestep frame will run to catch up
+const MAX_CATCH_UP_STEPS = 8;
+const TIMESTEP_EPSILON = 1e-9;
 
 /**
  * Return exception for unwinding the call stack
@@ -107,6 +128,44 @@ class Environment {
     if (this.parent) return this.parent.has(name);
     return false;
   }
+
+  /**
+   * Get the variables defined in this scope, not its parents
+   */
+  getValues(): Map<string, RageValue> {
+    return this.values;
+  }
+
+  getParent(): Environment | null {
+    return this.parent;
+  }
+}
+
+/**
+ * Called by the interpreter as it runs, for debuggers
+ */
+export interface DebugHook {
+  /**
+   * Called before each statement runs
+   * @param depth Number of user function calls in progress
+   */
+  beforeStatement(stmt: Statement, depth: number): void;
+}
+
+export interface DebugScope {
+  name: string; // "Locals" or "Globals"
+  variables: Map<string, RageValue>;
+}
+
+/**
+ * A function call (or game block, or top-level code) in progress, for debuggers
+ */
+export interface DebugFrame {
+  name: string; // The function name, or "update", "draw" or "program"
+  line: number; // Where the frame is: the current statement, or the call it's waiting on
+  column: number;
+  block: GameBlock | null;
+  scopes: DebugScope[];
 }
 
 /**
@@ -115,7 +174,10 @@ class Environment {
 export class Interpreter {
   private globalEnv: Environment;
   private currentEnv: Environment;
-  private builtins: Map<string, BuiltinFunction>;
+  private builtins: Map<string, RageValue>; // Including the host's builtins and modules
+  // What each builtin takes, by function so it still applies when a builtin is stored under another name
+  private builtinSpecs: Map<BuiltinFunction, BuiltinSpec> = new Map();
+  private renderer: Renderer;
   private inputManager: InputManager;
 
   private drawBlock: DrawBlock | null = null;
@@ -124,14 +186,48 @@ export class Interpreter {
   private lastTime: number = 0;
   private running: boolean = false;
   private frameCount: number = 0;
+  // Seconds of simulated time, once the game is ticked manually or run at a fixed timestep
+  private simulatedTime: number | null = null;
+
+  // Fixed timestep: updates run every `fixedTimestep` seconds, however often frames are drawn
+  private fixedTimestep: number | null = null;
+  private accumulator: number = 0; // Seconds not yet simulated
+  private frameAlpha: number = 1; // How far the drawn frame is between updates
+
+  // Random numbers, restarted from `seed` (if there is one) on reset
+  private random: SeededRandom;
+  private seed: number | null = null;
 
   // Scene loading support
   private pendingScene: string | null = null;
   private onSceneChange: ((path: string) => void) | null = null;
 
-  constructor(renderer: CanvasRenderer, inputManager?: InputManager) {
+  // Error reporting
+  private callStack: StackFrame[] = [];
+  private currentBlock: GameBlock | null = null;
+  private onError: ((error: Error) => void) | null = null;
+  private onStop: (() => void) | null = null;
+  // Counts resets, so host promises from an earlier run don't report errors in this one
+  private generation: number = 0;
+
+  // Execution limits: statements run so far, out of the budget for this run or frame
+  private limits: Required<ExecutionLimits> = DEFAULT_LIMITS;
+  private steps: number = 0;
+  private stepBudget: number = Infinity;
+  private onPause: ((error: RageLimitError) => void) | null = null;
+
+  // Debugging
+  private debugHook: DebugHook | null = null;
+  private currentStatement: Statement | null = null;
+  private callerEnvs: Environment[] = []; // The environment of each call's caller, like callStack
+
+  // Where the builtin that's running was called, while it runs
+  private builtinCall: SourceLocation | null = null;
+
+  constructor(renderer: Renderer, inputManager?: InputManager) {
     this.globalEnv = new Environment();
     this.currentEnv = this.globalEnv;
+    this.renderer = renderer;
 
     // Create or use provided input manager
     this.inputManager = inputManager ?? new InputManager();
@@ -142,20 +238,164 @@ export class Interpreter {
       this.inputManager.setCanvas(ctx.canvas);
     }
 
-    this.builtins = createBuiltins(
+    // Input buffers expire in simulated time too, once there is some
+    const inputClock = this.inputManager.getClock();
+    this.inputManager.setClock(() =>
+      this.simulatedTime !== null ? this.simulatedTime * 1000 : inputClock()
+    );
+
+    this.random = new SeededRandom();
+
+    // Builtins like map() call functions as if from where the builtin was called
+    const callFunction: FunctionCaller = (fn, args) => {
+      if (!this.builtinCall)
+        throw new Error("Builtins can only call functions while a program runs");
+      return this.callValue(fn, args, new Map(), this.builtinCall);
+    };
+
+    const builtins = createBuiltins(
       renderer,
       undefined,
       this.inputManager,
       () => this.frameCount,
-      (path: string) => this.requestSceneChange(path)
+      (path: string) => this.requestSceneChange(path),
+      () => this.simulatedTime ?? Date.now() / 1000,
+      this.random,
+      () => this.frameAlpha,
+      callFunction
     );
 
     // Add builtins to global environment
-    for (const [name, fn] of this.builtins) {
+    this.builtins = new Map(builtins);
+    for (const [name, fn] of builtins) {
       this.globalEnv.define(name, fn);
+      const spec = getBuiltinSpec(name);
+      if (spec) this.builtinSpecs.set(fn, spec);
+    }
+  }
+
+  /**
+   * Give games a function of the host's, called like any builtin. It replaces
+   * a builtin of the same name, and stays through resets and scene changes.
+   */
+  registerBuiltin(name: string, fn: HostFunction, options?: HostBuiltinOptions): void {
+    checkHostName(name);
+    const builtin = createHostBuiltin(name, fn, options, this.hostErrorReporter);
+    this.builtinSpecs.set(builtin.fn, builtin.spec);
+    this.defineBuiltin(name, builtin.fn);
+  }
+
+  /**
+   * Give games a group of the host's functions and values, used like
+   * `leaderboard.submit(score)`
+   * @param options Options for each function, by member name
+   */
+  registerModule(
+    name: string,
+    members: Record<string, HostFunction | RageValue>,
+    options: Record<string, HostBuiltinOptions> = {}
+  ): void {
+    checkHostName(name);
+    const module = createPrototype();
+    for (const [member, value] of Object.entries(members)) {
+      if (typeof value === "function") {
+        const builtin = createHostBuiltin(
+          `${name}.${member}`,
+          value as HostFunction,
+          options[member],
+          this.hostErrorReporter
+        );
+        this.builtinSpecs.set(builtin.fn, builtin.spec);
+        module[member] = builtin.fn;
+      } else {
+        module[member] = toRageValue(value);
+      }
+    }
+    this.defineBuiltin(name, module);
+  }
+
+  /**
+   * Get what reports a host function's failed promise like an error in the game
+   * loop (or logs it if there's no error callback, keeping the game running).
+   * Promises from before a reset or scene change are ignored once they fail.
+   */
+  private hostErrorReporter = (): ((error: Error) => void) => {
+    const generation = this.generation;
+    return (error) => {
+      if (generation !== this.generation) return;
+      if (!this.onError) {
+        console.error(error);
+        return;
+      }
+      this.stopGameLoop();
+      this.onError(error);
+    };
+  };
+
+  private defineBuiltin(name: string, value: RageValue): void {
+    this.builtins.set(name, value);
+    this.globalEnv.define(name, value);
+  }
+
+  /**
+   * Set callback for errors thrown while running the game loop.
+   * The game loop stops when an error happens.
+   */
+  setOnError(callback: (error: Error) => void): void {
+    this.onError = callback;
+  }
+
+  /**
+   * Set callback for when an error stops the game loop and, with no error
+   * callback, is thrown out of it
+   */
+  setOnStop(callback: () => void): void {
+    this.onStop = callback;
+  }
+
+  /**
+   * Run updates at a fixed rate instead of once per frame, so games behave the
+   * same at any refresh rate. Frames are drawn in between, with frame_alpha()
+   * saying how far between updates they are.
+   * @param step Seconds per update (like 1/60), or null to update once per frame
+   */
+  setFixedTimestep(step: number | null): void {
+    if (step !== null && !(step > 0)) {
+      throw new Error(`Fixed timestep must be a positive number of seconds, got ${step}`);
+    }
+    this.fixedTimestep = step;
+    this.accumulator = 0;
+    this.frameAlpha = 1;
+  }
+
+  /**
+   * Seed random() and randomInt(), so they come out the same every run.
+   * The seed is reused when the interpreter is reset.
+   * @param seed The seed, or null to go back to a random seed on reset
+   */
+  setSeed(seed: number | null): void {
+    this.seed = seed;
+    if (seed !== null) {
+      this.random.seed(seed);
     }
   }
 
+  /**
+   * Set the execution limits, so runaway code stops with an error
+   * instead of hanging (missing limits keep their defaults)
+   */
+  setLimits(limits: ExecutionLimits): void {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Set callback for when the game loop pauses because a limit was hit
+   * (with the pauseOnExceeded limit)
+   */
+  setOnPause(callback: (error: RageLimitError) => void): void {
+    this.onPause = callback;
+  }
+
   /**
    * Set callback for scene changes
    */
@@ -186,10 +426,12 @@ export class Interpreter {
 
   /**
    * Reset the interpreter to initial state (for scene changes)
+   * @param seed Seed for random numbers until the next reset, instead of setSeed()'s
    */
-  reset(): void {
+  reset(seed: number | null = this.seed): void {
     // Stop any running game loop
     this.stopGameLoop();
+    this.generation++;
 
     // Reset environment
     this.globalEnv = new Environment();
@@ -207,15 +449,29 @@ export class Interpreter {
     // Reset game state
     this.frameCount = 0;
     this.lastTime = 0;
+    this.simulatedTime = null;
+    this.accumulator = 0;
+    this.frameAlpha = 1;
     this.pendingScene = null;
+    this.callStack = [];
+    this.callerEnvs = [];
+    this.currentStatement = null;
+    this.currentBlock = null;
+    this.random.seed(seed ?? Math.floor(Math.random() * 2 ** 32));
   }
 
   /**
    * Run a Ragelang program
    */
   run(program: Program): void {
-    for (const statement of program.body) {
-      this.executeStatement(statement);
+    this.startBudget(this.limits.maxStepsPerRun);
+    try {
+      for (const statement of program.body) {
+        this.executeStatement(statement);
+      }
+    } finally {
+      this.stepBudget = Infinity;
+      this.currentStatement = null;
     }
   }
 
@@ -226,6 +482,9 @@ export class Interpreter {
     if (this.running) return;
     this.running = true;
     this.lastTime = performance.now();
+    if (this.fixedTimestep !== null) {
+      this.simulatedTime ??= 0;
+    }
     this.gameLoop();
   }
 
@@ -240,6 +499,50 @@ export class Interpreter {
     }
   }
 
+  /**
+   * Run one frame of the game without the browser game loop, for running
+   * games headlessly (in Node or tests). Time only moves forward by each dt,
+   * and errors are thrown rather than passed to the error callback.
+   * At a fixed timestep, this runs as many updates as fit in dt.
+   * @param dt Seconds since the last frame
+   */
+  tick(dt: number): void {
+    this.simulatedTime ??= 0;
+    this.runFrame(dt);
+  }
+
+  /**
+   * Play an input replay: updates follow the replay's frames (and their dt)
+   * instead of the real input, until it runs out. Like a recording, the
+   * replay should start from the start of the scene.
+   */
+  playReplay(replay: InputReplay): void {
+    this.inputManager.playReplay(replay);
+    this.accumulator = 0;
+  }
+
+  /**
+   * Play a whole input replay headlessly, one frame per replay frame
+   */
+  runReplay(replay: InputReplay): void {
+    this.playReplay(replay);
+    let dt = this.inputManager.nextReplayDt();
+    while (dt !== null) {
+      this.tick(dt);
+      dt = this.inputManager.nextReplayDt();
+    }
+  }
+
+  /**
+   * Run several frames with tick()
+   * @param dt Seconds per frame (defaults to 60 frames per second)
+   */
+  runFrames(count: number, dt: number = 1 / 60): void {
+    for (let i = 0; i < count; i++) {
+      this.tick(dt);
+    }
+  }
+
   private gameLoop = (): void => {
     if (!this.running) return;
 
@@ -247,51 +550,144 @@ export class Interpreter {
     const dt = (currentTime - this.lastTime) / 1000; // Convert to seconds
     this.lastTime = currentTime;
 
-    // Increment frame counter
-    this.frameCount++;
+    let changedScene: boolean;
+    try {
+      changedScene = this.runFrame(dt);
+    } catch (e) {
+      this.running = false;
+      if (e instanceof RageLimitError && this.limits.pauseOnExceeded && this.onPause) {
+        this.onPause(e);
+        return;
+      }
+      if (!this.onError) {
+        this.onStop?.();
+        throw e;
+      }
+      this.onError(e instanceof Error ? e : new Error(String(e)));
+      return;
+    }
 
-    // Update input state at start of frame
-    this.inputManager.update();
+    // Stop the current game loop, the new scene will start its own
+    if (changedScene) return;
 
-    // Execute update block if it exists
-    if (this.updateBlock) {
-      const updateEnv = new Environment(this.globalEnv);
-      updateEnv.define(this.updateBlock.parameter, dt);
-      const prevEnv = this.currentEnv;
-      this.currentEnv = updateEnv;
-      try {
-        this.executeBlock(this.updateBlock.body);
-      } catch (e) {
-        if (!(e instanceof ReturnException)) throw e;
+    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  };
+
+  /**
+   * Run the update and draw blocks for one frame
+   * @returns Whether the frame changed scene
+   */
+  private runFrame(dt: number): boolean {
+    this.renderer.beginFrame();
+    this.startBudget(this.limits.maxStepsPerFrame);
+
+    if (this.inputManager.isReplaying()) {
+      this.runReplayUpdates(dt);
+    } else if (this.fixedTimestep === null) {
+      this.runUpdate(dt);
+    } else {
+      // Don't try to catch up on more than a few updates after a long pause (like a hidden tab)
+      this.accumulator += Math.min(dt, this.fixedTimestep * MAX_CATCH_UP_STEPS);
+      // Allow for rounding, so a frame exactly one step long runs exactly one update
+      while (this.accumulator >= this.fixedTimestep - TIMESTEP_EPSILON) {
+        this.accumulator = Math.max(0, this.accumulator - this.fixedTimestep);
+        this.runUpdate(this.fixedTimestep);
+        if (this.pendingScene !== null) break;
       }
-      this.currentEnv = prevEnv;
+      this.frameAlpha = this.accumulator / this.fixedTimestep;
     }
 
     // Execute draw block if it exists
     if (this.drawBlock) {
-      const drawEnv = new Environment(this.globalEnv);
-      const prevEnv = this.currentEnv;
-      this.currentEnv = drawEnv;
-      try {
-        this.executeBlock(this.drawBlock.body);
-      } catch (e) {
-        if (!(e instanceof ReturnException)) throw e;
-      }
-      this.currentEnv = prevEnv;
+      this.executeGameBlock("draw", this.drawBlock.body, new Environment(this.globalEnv));
     }
+    this.currentStatement = null;
 
     // Check for pending scene change after update/draw
     if (this.pendingScene !== null && this.onSceneChange) {
       const scenePath = this.pendingScene;
       this.pendingScene = null;
       this.onSceneChange(scenePath);
-      return; // Stop current game loop, new scene will start its own
+      return true;
     }
+    return false;
+  }
 
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
-  };
+  /**
+   * Run the updates of a replay that fit in dt, each with the dt it was recorded with
+   */
+  private runReplayUpdates(dt: number): void {
+    this.accumulator += dt;
+    let next = this.inputManager.nextReplayDt();
+    while (next !== null && this.accumulator >= next - TIMESTEP_EPSILON) {
+      this.accumulator = Math.max(0, this.accumulator - next);
+      this.runUpdate(next);
+      if (this.pendingScene !== null) break;
+      next = this.inputManager.nextReplayDt();
+    }
+    this.frameAlpha = next ? Math.min(1, this.accumulator / next) : 1;
+  }
+
+  /**
+   * Run the update block once
+   * @param dt Seconds to simulate
+   */
+  private runUpdate(dt: number): void {
+    // Increment frame counter
+    this.frameCount++;
+    if (this.simulatedTime !== null) {
+      this.simulatedTime += dt;
+    }
+
+    // Update input state at start of frame
+    this.inputManager.update();
+    this.inputManager.recordFrame(dt);
+
+    // Execute update block if it exists
+    if (this.updateBlock) {
+      const updateEnv = new Environment(this.globalEnv);
+      updateEnv.define(this.updateBlock.parameter, dt);
+      this.executeGameBlock("update", this.updateBlock.body, updateEnv);
+    }
+  }
+
+  private executeGameBlock(block: GameBlock, body: BlockStatement, env: Environment): void {
+    const prevEnv = this.currentEnv;
+    this.currentEnv = env;
+    this.currentBlock = block;
+    try {
+      this.executeBlock(body);
+    } catch (e) {
+      if (!(e instanceof ReturnException)) throw e;
+    } finally {
+      this.currentEnv = prevEnv;
+      this.currentBlock = null;
+    }
+  }
+
+  private startBudget(budget: number): void {
+    this.steps = 0;
+    this.stepBudget = budget;
+  }
+
+  private limitError(reason: string, loc: SourceLocation): RageLimitError {
+    return new RageLimitError(reason, loc, [...this.callStack].reverse(), this.currentBlock);
+  }
 
   private executeStatement(stmt: Statement): void {
+    if (this.debugHook) {
+      this.currentStatement = stmt;
+      this.debugHook.beforeStatement(stmt, this.callStack.length);
+    }
+
+    if (++this.steps > this.stepBudget) {
+      const scope = this.currentBlock ? "Frame" : "Program";
+      throw this.limitError(
+        `${scope} exceeded its budget of ${formatCount(this.stepBudget)} steps`,
+        stmt.loc
+      );
+    }
+
     switch (stmt.type) {
       case "DrawBlock":
         this.drawBlock = stmt;
@@ -340,6 +736,16 @@ export class Interpreter {
     this.currentEnv.define(stmt.name, fn);
   }
 
+  private evaluateFunctionExpression(expr: FunctionExpression): RageFunction {
+    return {
+      __type: "function",
+      name: ANONYMOUS_FUNCTION,
+      parameters: expr.parameters,
+      body: expr.body,
+      closure: this.currentEnv,
+    };
+  }
+
   private executeEnumDeclaration(stmt: EnumDeclaration): void {
     // Register each variant as a callable constructor in the environment
     for (const variant of stmt.variants) {
@@ -382,8 +788,12 @@ export class Interpreter {
   }
 
   private executeLoop(stmt: LoopStatement): void {
+    const maxIterations = this.limits.maxLoopIterations;
     try {
-      while (true) {
+      for (let iterations = 1; ; iterations++) {
+        if (iterations > maxIterations) {
+          throw this.limitError(`Loop exceeded ${formatCount(maxIterations)} iterations`, stmt.loc);
+        }
         this.executeBlockStatements(stmt.body);
       }
     } catch (e) {
@@ -426,6 +836,21 @@ export class Interpreter {
   }
 
   private evaluate(expr: Expression): RageValue {
+    try {
+      return this.evaluateExpression(expr);
+    } catch (e) {
+      // Errors are located at the innermost expression that failed
+      if (e instanceof Error && !(e instanceof RageRuntimeError)) {
+        const callStack = [...this.callStack].reverse();
+        throw new RageRuntimeError(e.message, expr.loc, callStack, this.currentBlock, {
+          cause: e,
+        });
+      }
+      throw e;
+    }
+  }
+
+  private evaluateExpression(expr: Expression): RageValue {
     switch (expr.type) {
       case "NumberLiteral":
         return (expr as NumberLiteral).value;
@@ -445,6 +870,8 @@ export class Interpreter {
         return this.currentEnv.get((expr as Identifier).name);
       case "PrototypeExpression":
         return createPrototype();
+      case "FunctionExpression":
+        return this.evaluateFunctionExpression(expr as FunctionExpression);
       case "BinaryExpression":
         return this.evaluateBinary(expr as BinaryExpression);
       case "UnaryExpression":
@@ -680,71 +1107,6 @@ export class Interpreter {
     }
   }
 
-  // Parameter names for built-in functions (for keyword argument support)
-  private static BUILTIN_PARAMS: Record<string, string[]> = {
-    sprite: ["path", "x", "y", "width", "height", "sx", "sy", "sw", "sh", "color"],
-    text: ["text", "x", "y", "size", "color"],
-    rect: ["x", "y", "width", "height", "color"],
-    circle: ["x", "y", "radius", "color"],
-    line: ["x1", "y1", "x2", "y2", "color", "width"],
-    clear: ["color"],
-    min: ["a", "b"],
-    max: ["a", "b"],
-    clamp: ["value", "min", "max"],
-    lerp: ["a", "b", "t"],
-    distance: ["x1", "y1", "x2", "y2"],
-    rect_overlap: ["x1", "y1", "w1", "h1", "x2", "y2", "w2", "h2"],
-    randomInt: ["min", "max"],
-    push: ["arr", "value"],
-    insert: ["arr", "index", "value"],
-    remove: ["arr", "value"],
-    extend: ["arr", "other"],
-    count: ["arr", "value"],
-    index: ["arr", "value"],
-    contains: ["arr", "value"],
-    slice: ["arr", "start", "end"],
-    join: ["arr", "separator"],
-    array: ["size"],
-    // Audio
-    music: ["path", "volume"],
-    music_volume: ["volume"],
-    sound: ["path", "gain"],
-    master_volume: ["volume"],
-    // Input
-    pressed: ["action"],
-    held: ["action"],
-    released: ["action"],
-    key_pressed: ["key"],
-    key_held: ["key"],
-    key_released: ["key"],
-    mouse_pressed: ["button"],
-    mouse_held: ["button"],
-    mouse_released: ["button"],
-    touch_x: ["index"],
-    touch_y: ["index"],
-    // Input Buffer
-    buffer_input: ["action", "duration"],
-    check_buffer: ["action"],
-    peek_buffer: ["action"],
-    clear_buffer: ["action"],
-    buffer_time: ["action"],
-    // Math
-    deg: ["radians"],
-    rad: ["degrees"],
-    asin: ["x"],
-    acos: ["x"],
-    atan: ["x"],
-    sinh: ["x"],
-    cosh: ["x"],
-    tanh: ["x"],
-    log: ["x"],
-    log10: ["x"],
-    exp: ["x"],
-    // Time
-    time: [],
-    frames: [],
-  };
-
   private evaluateCall(expr: CallExpression): RageValue {
     const callee = this.evaluate(expr.callee);
 
@@ -761,22 +1123,50 @@ export class Interpreter {
       }
     }
 
-    // Built-in function
+    return this.callValue(callee, positionalArgs, keywordArgs, expr.loc);
+  }
+
+  /**
+   * Call a function or enum variant constructor, from a call expression or
+   * from a builtin calling back into the program
+   * @param loc Where it was called, for the call stack
+   */
+  private callValue(
+    callee: RageValue,
+    positionalArgs: RageValue[],
+    keywordArgs: Map<string, RageValue>,
+    loc: SourceLocation
+  ): RageValue {
+    // Built-in function, with its arguments bound and checked by the registry
     if (typeof callee === "function") {
-      // Try to get parameter names for this builtin
-      let builtinName: string | null = null;
-      if (expr.callee.type === "Identifier") {
-        builtinName = (expr.callee as Identifier).name;
+      const spec = this.builtinSpecs.get(callee);
+      const args = spec
+        ? bindArguments(spec, positionalArgs, keywordArgs)
+        : this.resolveArgs(positionalArgs, keywordArgs, null);
+      const outerBuiltinCall = this.builtinCall;
+      this.builtinCall = loc;
+      try {
+        return callee(...args);
+      } finally {
+        this.builtinCall = outerBuiltinCall;
       }
-
-      const params = builtinName ? Interpreter.BUILTIN_PARAMS[builtinName] : null;
-      const args = this.resolveArgs(positionalArgs, keywordArgs, params);
-      return callee(...args);
     }
 
     // User-defined function
     if (isRageFunction(callee)) {
-      return this.callFunction(callee, positionalArgs, keywordArgs);
+      this.callStack.push({
+        functionName: callee.name,
+        line: loc.start.line,
+        column: loc.start.column,
+        block: this.currentBlock,
+      });
+      this.callerEnvs.push(this.currentEnv);
+      try {
+        return this.callFunction(callee, positionalArgs, keywordArgs);
+      } finally {
+        this.callStack.pop();
+        this.callerEnvs.pop();
+      }
     }
 
     // Enum variant constructor
@@ -849,16 +1239,20 @@ export class Interpreter {
     this.currentEnv = fnEnv;
 
     try {
-      this.executeBlock(fn.body as BlockStatement);
+      const body = fn.body as BlockStatement | Expression;
+      if (body.type !== "BlockStatement") {
+        return this.evaluate(body);
+      }
+      this.executeBlock(body);
     } catch (e) {
       if (e instanceof ReturnException) {
-        this.currentEnv = prevEnv;
         return e.value;
       }
       throw e;
+    } finally {
+      this.currentEnv = prevEnv;
     }
 
-    this.currentEnv = prevEnv;
     return null;
   }
 
@@ -1083,12 +1477,106 @@ export class Interpreter {
     return expr.prefix ? newValue : currentValue;
   }
 
-  private isTruthy(value: RageValue): boolean {
-    if (value === null) return false;
-    if (typeof value === "boolean") return value;
-    if (typeof value === "number") return value !== 0;
-    if (typeof value === "string") return value.length > 0;
-    return true;
+  /**
+   * Check if a value counts as true in conditions
+   */
+  isTruthy(value: RageValue): boolean {
+    return isTruthy(value);
+  }
+
+  /**
+   * Get the value of a global variable, or undefined if it isn't defined
+   */
+  getGlobal(name: string): RageValue | undefined {
+    return this.globalEnv.has(name) ? this.globalEnv.get(name) : undefined;
+  }
+
+  // ============ Debugging ============
+
+  /**
+   * Attach a debugger, which is called before every statement (or null to detach)
+   */
+  setDebugHook(hook: DebugHook | null): void {
+    this.debugHook = hook;
+    this.currentStatement = null;
+  }
+
+  /**
+   * Check if the game loop is running
+   */
+  isGameLoopRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get the calls in progress, innermost first, with their variables.
+   * Only available while a debug hook is attached and code is running.
+   */
+  getDebugFrames(): DebugFrame[] {
+    if (!this.currentStatement) return [];
+
+    const blockName = this.currentBlock ?? "program";
+    const frames: DebugFrame[] = [];
+    let position = this.currentStatement.loc.start;
+    let env = this.currentEnv;
+    for (let i = this.callStack.length - 1; i >= -1; i--) {
+      const call = i >= 0 ? this.callStack[i] : null;
+      frames.push({
+        name: call ? call.functionName : blockName,
+        line: position.line,
+        column: position.column,
+        block: call ? call.block : this.currentBlock,
+        scopes: this.debugScopes(env),
+      });
+      if (call) {
+        // The caller is waiting on this call
+        position = call;
+        env = this.callerEnvs[i];
+      }
+    }
+    return frames;
+  }
+
+  /**
+   * Evaluate an expression in the scope of a frame from getDebugFrames(),
+   * like a breakpoint condition
+   */
+  evaluateInFrame(expr: Expression, frameIndex: number = 0): RageValue {
+    const depth = this.callStack.length;
+    if (frameIndex < 0 || frameIndex > depth) {
+      throw new Error(`No frame ${frameIndex}`);
+    }
+
+    const prevEnv = this.currentEnv;
+    this.currentEnv = frameIndex === 0 ? prevEnv : this.callerEnvs[depth - frameIndex];
+    try {
+      return this.evaluate(expr);
+    } finally {
+      this.currentEnv = prevEnv;
+    }
+  }
+
+  private debugScopes(env: Environment): DebugScope[] {
+    // Inner scopes hide variables of the same name in outer ones
+    const locals = new Map<string, RageValue>();
+    for (let scope: Environment | null = env; scope && scope !== this.globalEnv; ) {
+      for (const [name, value] of scope.getValues()) {
+        if (!locals.has(name)) locals.set(name, value);
+      }
+      scope = scope.getParent();
+    }
+
+    // Leave out builtins, unless the program replaced them
+    const globals = new Map<string, RageValue>();
+    for (const [name, value] of this.globalEnv.getValues()) {
+      if (this.builtins.get(name) !== value) globals.set(name, value);
+    }
+
+    const scopes: DebugScope[] = [{ name: "Globals", variables: globals }];
+    if (env !== this.globalEnv) {
+      scopes.unshift({ name: "Locals", variables: locals });
+    }
+    return scopes;
   }
 
   /**
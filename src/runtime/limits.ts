@@ -0,0 +1,30 @@
+/**
+ * Execution limits for Ragelang
+ * Stop runaway programs (like a loop without a reachable break) with an
+ * error, instead of hanging the page.
+ */
+
+export interface ExecutionLimits {
+  /** Most times one loop can repeat before it's stopped (Infinity for no limit) */
+  maxLoopIterations?: number;
+  /** Most statements one frame (its updates and draw) can run */
+  maxStepsPerFrame?: number;
+  /** Most statements a program's top-level code can run */
+  maxStepsPerRun?: number;
+  /** Pause the game when a limit is hit, instead of stopping it with an error */
+  pauseOnExceeded?: boolean;
+}
+
+export const DEFAULT_LIMITS: Required<ExecutionLimits> = {
+  maxLoopIterations: 1_000_000,
+  maxStepsPerFrame: 10_000_000,
+  maxStepsPerRun: 100_000_000,
+  pauseOnExceeded: false,
+};
+
+/**
+ * Format a count for an error message, like 1,000,000
+ */
+export function formatCount(count: number): string {
+  return count.toLocaleString("en-US");
+}
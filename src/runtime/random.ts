@@ -0,0 +1,36 @@
+/**
+ * Seeded random numbers for Ragelang
+ * random() and randomInt() draw from this, so a seeded game makes the same
+ * choices every time it runs.
+ */
+
+export class SeededRandom {
+  private state: number = 0;
+
+  /**
+   * @param seed Starting seed (a random one if not given)
+   */
+  constructor(seed: number = Math.floor(Math.random() * 2 ** 32)) {
+    this.seed(seed);
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  seed(seed: number): void {
+    // Keep 32 bits, so any number (even a fraction) gives a usable state
+    this.state = Math.floor(seed) >>> 0;
+  }
+
+  /**
+   * Get the next number, from 0 (inclusive) to 1 (exclusive)
+   */
+  next(): number {
+    // mulberry32
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { RecordingRenderer } from "../renderer/recording.js";
+import { createBuiltins } from "./builtins.js";
+import {
+  BUILTINS,
+  bindArguments,
+  formatReference,
+  formatSignature,
+  getBuiltinSpec,
+  type BuiltinSpec,
+} from "./registry.js";
+
+function spec(name: string): BuiltinSpec {
+  const found = getBuiltinSpec(name);
+  if (!found) throw new Error(`No builtin ${name}`);
+  return found;
+}
+
+describe("builtin registry", () => {
+  it("should describe exactly the builtins that exist", () => {
+    const implemented = [...createBuiltins(new RecordingRenderer({ width: 0, height: 0 })).keys()];
+
+    expect(implemented.sort()).toEqual(BUILTINS.map((builtin) => builtin.name).sort());
+  });
+
+  it("should fill in defaults around keyword arguments", () => {
+    expect(bindArguments(spec("text"), ["Hi", 10, 20], new Map([["color", "red"]]))).toEqual([
+      "Hi",
+      10,
+      20,
+      16,
+      "red",
+      1,
+    ]);
+    expect(bindArguments(spec("randomInt"), [], new Map([["max", 6]]))).toEqual([0, 6]);
+  });
+
+  it("should check the number of arguments", () => {
+    expect(() => bindArguments(spec("abs"), [1, 2], new Map())).toThrow(
+      "abs() takes at most 1 argument, got 2"
+    );
+    expect(() => bindArguments(spec("rect"), [0, 0, 10], new Map())).toThrow(
+      "rect() is missing argument: height"
+    );
+    expect(() => bindArguments(spec("rect"), [0, 0, 10, 10], new Map([["colour", "red"]]))).toThrow(
+      "Unknown keyword argument: colour for function rect"
+    );
+    expect(() => bindArguments(spec("rect"), [1, 2, 3, 4, "red"], new Map([["x", 9]]))).toThrow(
+      "rect() got multiple values for argument: x"
+    );
+  });
+
+  it("should check argument types", () => {
+    expect(() => bindArguments(spec("circle"), [0, 0, 5, null], new Map())).toThrow(
+      "circle() expects color to be a string, got null"
+    );
+    expect(() => bindArguments(spec("slice"), [5], new Map())).toThrow(
+      "slice() expects arr to be an array or a string, got number"
+    );
+    expect(bindArguments(spec("sprite"), [null, 0, 0], new Map())).toHaveLength(11);
+  });
+
+  it("should pass extra arguments to a rest parameter", () => {
+    expect(bindArguments(spec("print"), [1, "two", null], new Map())).toEqual([1, "two", null]);
+  });
+
+  it("should format signatures with their defaults", () => {
+    expect(formatSignature(spec("line"))).toBe(
+      'line(x1, y1, x2, y2, color = "#ffffff", width = 1, alpha = 1)'
+    );
+    expect(formatSignature(spec("print"))).toBe("print(...values)");
+  });
+
+  it("should generate the builtin reference", async () => {
+    await expect(formatReference()).toMatchFileSnapshot("../../docs/builtins.md");
+  });
+});
@@ -0,0 +1,703 @@
+/**
+ * Builtin registry for Ragelang
+ *
+ * Every builtin's name, parameters (with their types and defaults), category
+ * and documentation, in one place. createBuiltins() implements what's listed
+ * here; the interpreter binds arguments with it, and the language server and
+ * the reference docs (docs/builtins.md) describe builtins from it.
+ */
+
+import type { RageValue } from "./builtins.js";
+import { isEnumVariant, isEnumVariantDef, isPrototype } from "./builtins.js";
+
+export type ValueType = "number" | "string" | "boolean" | "array" | "function" | "null" | "any";
+
+export interface BuiltinParam {
+  name: string;
+  type: ValueType | readonly ValueType[]; // A list accepts any of its types
+  default?: RageValue; // Parameters with a default are optional
+}
+
+export const BUILTIN_CATEGORIES = {
+  drawing: "Drawing",
+  math: "Math",
+  trigonometry: "Trigonometry",
+  constants: "Constants",
+  time: "Time",
+  random: "Random",
+  arrays: "Arrays",
+  color: "Color",
+  audio: "Audio",
+  input: "Input",
+  buffer: "Input Buffer",
+  scenes: "Scenes",
+  utility: "Utility",
+  host: "Host", // Added by the page running the game (see host.ts)
+} as const;
+
+export type BuiltinCategory = keyof typeof BUILTIN_CATEGORIES;
+
+export interface BuiltinSpec {
+  name: string;
+  category: BuiltinCategory;
+  doc: string;
+  params: readonly BuiltinParam[];
+  rest?: BuiltinParam; // Takes any number of these after params
+}
+
+function param(name: string, type: BuiltinParam["type"], defaultValue?: RageValue): BuiltinParam {
+  return defaultValue === undefined ? { name, type } : { name, type, default: defaultValue };
+}
+
+const num = (name: string, defaultValue?: number) => param(name, "number", defaultValue);
+const str = (name: string, defaultValue?: string) => param(name, "string", defaultValue);
+const action = str("action");
+const fn = param("fn", "function");
+const x = num("x");
+
+export const BUILTINS = [
+  // Drawing
+  {
+    name: "text",
+    category: "drawing",
+    doc: "Draw text with its top-left corner at (x, y)",
+    params: [
+      param("text", "any"),
+      num("x"),
+      num("y"),
+      num("size", 16),
+      str("color", "#ffffff"),
+      num("alpha", 1),
+    ],
+  },
+  {
+    name: "sprite",
+    category: "drawing",
+    doc:
+      "Draw an image, or the part of a sprite sheet given by sx, sy, sw and sh. " +
+      "Draws a rectangle of the color while the image loads, or if path is null.",
+    params: [
+      param("path", ["string", "null"]),
+      num("x"),
+      num("y"),
+      num("width", 32),
+      num("height", 32),
+      param("sx", ["number", "null"], null),
+      param("sy", ["number", "null"], null),
+      param("sw", ["number", "null"], null),
+      param("sh", ["number", "null"], null),
+      str("color", "#ffffff"),
+      num("alpha", 1),
+    ],
+  },
+  {
+    name: "clear",
+    category: "drawing",
+    doc: "Fill the whole canvas with a color",
+    params: [str("color", "#000000")],
+  },
+  {
+    name: "rect",
+    category: "drawing",
+    doc: "Draw a filled rectangle",
+    params: [
+      num("x"),
+      num("y"),
+      num("width"),
+      num("height"),
+      str("color", "#ffffff"),
+      num("alpha", 1),
+    ],
+  },
+  {
+    name: "circle",
+    category: "drawing",
+    doc: "Draw a filled circle centered on (x, y)",
+    params: [num("x"), num("y"), num("radius"), str("color", "#ffffff"), num("alpha", 1)],
+  },
+  {
+    name: "line",
+    category: "drawing",
+    doc: "Draw a line from (x1, y1) to (x2, y2)",
+    params: [
+      num("x1"),
+      num("y1"),
+      num("x2"),
+      num("y2"),
+      str("color", "#ffffff"),
+      num("width", 1),
+      num("alpha", 1),
+    ],
+  },
+  { name: "width", category: "drawing", doc: "Width of the canvas in pixels", params: [] },
+  { name: "height", category: "drawing", doc: "Height of the canvas in pixels", params: [] },
+
+  // Math
+  { name: "abs", category: "math", doc: "Absolute value", params: [x] },
+  { name: "floor", category: "math", doc: "Round down to a whole number", params: [x] },
+  { name: "ceil", category: "math", doc: "Round up to a whole number", params: [x] },
+  { name: "round", category: "math", doc: "Round to the nearest whole number", params: [x] },
+  {
+    name: "min",
+    category: "math",
+    doc: "The smaller of two numbers",
+    params: [num("a"), num("b")],
+  },
+  { name: "max", category: "math", doc: "The larger of two numbers", params: [num("a"), num("b")] },
+  { name: "sqrt", category: "math", doc: "Square root", params: [x] },
+  {
+    name: "pow",
+    category: "math",
+    doc: "base raised to the power of exp",
+    params: [num("base"), num("exp")],
+  },
+  { name: "log", category: "math", doc: "Natural logarithm", params: [x] },
+  { name: "log10", category: "math", doc: "Base 10 logarithm", params: [x] },
+  { name: "exp", category: "math", doc: "e raised to the power of x", params: [x] },
+  { name: "sign", category: "math", doc: "-1, 0 or 1, for the direction of x", params: [x] },
+  {
+    name: "lerp",
+    category: "math",
+    doc: "Blend from a to b: a when t is 0, b when t is 1",
+    params: [num("a"), num("b"), num("t")],
+  },
+  {
+    name: "clamp",
+    category: "math",
+    doc: "Keep value between min and max",
+    params: [num("value"), num("min"), num("max")],
+  },
+  {
+    name: "distance",
+    category: "math",
+    doc: "Distance between (x1, y1) and (x2, y2)",
+    params: [num("x1"), num("y1"), num("x2"), num("y2")],
+  },
+  { name: "deg", category: "math", doc: "Convert radians to degrees", params: [num("radians")] },
+  { name: "rad", category: "math", doc: "Convert degrees to radians", params: [num("degrees")] },
+
+  // Trigonometry
+  { name: "sin", category: "trigonometry", doc: "Sine of an angle in radians", params: [x] },
+  { name: "cos", category: "trigonometry", doc: "Cosine of an angle in radians", params: [x] },
+  { name: "tan", category: "trigonometry", doc: "Tangent of an angle in radians", params: [x] },
+  { name: "asin", category: "trigonometry", doc: "Arcsine, in radians", params: [x] },
+  { name: "acos", category: "trigonometry", doc: "Arccosine, in radians", params: [x] },
+  { name: "atan", category: "trigonometry", doc: "Arctangent, in radians", params: [x] },
+  {
+    name: "atan2",
+    category: "trigonometry",
+    doc: "Angle from the origin to (x, y), in radians",
+    params: [num("y"), x],
+  },
+  { name: "sinh", category: "trigonometry", doc: "Hyperbolic sine", params: [x] },
+  { name: "cosh", category: "trigonometry", doc: "Hyperbolic cosine", params: [x] },
+  { name: "tanh", category: "trigonometry", doc: "Hyperbolic tangent", params: [x] },
+
+  // Constants
+  { name: "PI", category: "constants", doc: "Half a circle in radians (3.14159...)", params: [] },
+  { name: "TAU", category: "constants", doc: "A full circle in radians (6.28318...)", params: [] },
+  { name: "E", category: "constants", doc: "Euler's number (2.71828...)", params: [] },
+
+  // Time
+  {
+    name: "time",
+    category: "time",
+    doc: "Seconds since the epoch (simulated time when ticked manually or run at a fixed timestep)",
+    params: [],
+  },
+  {
+    name: "frames",
+    category: "time",
+    doc: "Frames rendered so far (updates, when run at a fixed timestep)",
+    params: [],
+  },
+  {
+    name: "frame_alpha",
+    category: "time",
+    doc:
+      "How far between the last update and the next one the frame is drawn (0-1), " +
+      "for smoothing movement at a fixed timestep: lerp(prev_x, x, frame_alpha())",
+    params: [],
+  },
+
+  // Random
+  { name: "random", category: "random", doc: "Random number from 0 up to 1", params: [] },
+  {
+    name: "randomInt",
+    category: "random",
+    doc: "Random whole number from min to max, including both",
+    params: [num("min", 0), num("max", 1)],
+  },
+  {
+    name: "seed",
+    category: "random",
+    doc: "Restart random numbers from a seed, so they come out the same every run",
+    params: [num("n")],
+  },
+
+  // Arrays
+  {
+    name: "array",
+    category: "arrays",
+    doc: "New array of size nulls",
+    params: [num("size", 0)],
+  },
+  {
+    name: "len",
+    category: "arrays",
+    doc: "Length of an array or string (0 for anything else)",
+    params: [param("arr", "any")],
+  },
+  {
+    name: "push",
+    category: "arrays",
+    doc: "Add a value to the end of an array, returning its new length",
+    params: [param("arr", "array"), param("value", "any")],
+  },
+  {
+    name: "pop",
+    category: "arrays",
+    doc: "Remove and return the last value of an array",
+    params: [param("arr", "array")],
+  },
+  {
+    name: "sort",
+    category: "arrays",
+    doc: "Sort an array in place, returning it",
+    params: [param("arr", "array")],
+  },
+  {
+    name: "sorted",
+    category: "arrays",
+    doc: "Sorted copy of an array",
+    params: [param("arr", "array")],
+  },
+  {
+    name: "reverse",
+    category: "arrays",
+    doc: "Reverse an array in place, returning it",
+    params: [param("arr", "array")],
+  },
+  {
+    name: "reversed",
+    category: "arrays",
+    doc: "Reversed copy of an array",
+    params: [param("arr", "array")],
+  },
+  {
+    name: "slice",
+    category: "arrays",
+    doc: "Part of an array or string, from start up to (not including) end",
+    params: [
+      param("arr", ["array", "string"]),
+      num("start", 0),
+      param("end", ["number", "null"], null),
+    ],
+  },
+  {
+    name: "index",
+    category: "arrays",
+    doc: "Index of a value in an array (or text in a string), or -1 if it isn't there",
+    params: [param("arr", ["array", "string"]), param("value", "any")],
+  },
+  {
+    name: "contains",
+    category: "arrays",
+    doc: "Whether an array (or string) contains a value",
+    params: [param("arr", ["array", "string"]), param("value", "any")],
+  },
+  {
+    name: "insert",
+    category: "arrays",
+    doc: "Insert a value at an index, returning the array's new length",
+    params: [param("arr", "array"), num("index"), param("value", "any")],
+  },
+  {
+    name: "remove",
+    category: "arrays",
+    doc: "Remove the first occurrence of a value, returning whether there was one",
+    params: [param("arr", "array"), param("value", "any")],
+  },
+  {
+    name: "extend",
+    category: "arrays",
+    doc: "Add every value of other to the end of arr, returning its new length",
+    params: [param("arr", "array"), param("other", "array")],
+  },
+  {
+    name: "count",
+    category: "arrays",
+    doc: "How many times a value appears in an array (or text in a string)",
+    params: [param("arr", ["array", "string"]), param("value", "any")],
+  },
+  {
+    name: "join",
+    category: "arrays",
+    doc: "Join the values of an array into a string",
+    params: [param("arr", "array"), str("separator", ",")],
+  },
+  {
+    name: "map",
+    category: "arrays",
+    doc: "New array of fn(value) for each value of an array",
+    params: [param("arr", "array"), fn],
+  },
+  {
+    name: "filter",
+    category: "arrays",
+    doc: "New array of the values fn(value) is truthy for",
+    params: [param("arr", "array"), fn],
+  },
+  {
+    name: "reduce",
+    category: "arrays",
+    doc: "Combine an array's values, starting from initial and calling fn(total, value) for each",
+    params: [param("arr", "array"), fn, param("initial", "any")],
+  },
+  {
+    name: "find",
+    category: "arrays",
+    doc: "First value fn(value) is truthy for, or null if there isn't one",
+    params: [param("arr", "array"), fn],
+  },
+  {
+    name: "any",
+    category: "arrays",
+    doc: "Whether fn(value) is truthy for any value of an array",
+    params: [param("arr", "array"), fn],
+  },
+  {
+    name: "all",
+    category: "arrays",
+    doc: "Whether fn(value) is truthy for every value of an array",
+    params: [param("arr", "array"), fn],
+  },
+  {
+    name: "sort_by",
+    category: "arrays",
+    doc:
+      "Sort an array in place, returning it. compare(a, b) returns a negative number " +
+      "to put a first, a positive one to put b first, or 0 to keep their order.",
+    params: [param("arr", "array"), param("compare", "function")],
+  },
+
+  // Color
+  {
+    name: "rgba",
+    category: "color",
+    doc: "Color from red, green and blue (0-255) and alpha (0-1)",
+    params: [num("r"), num("g"), num("b"), num("a", 1)],
+  },
+  {
+    name: "rgb",
+    category: "color",
+    doc: "Color from red, green and blue (0-255)",
+    params: [num("r"), num("g"), num("b")],
+  },
+  {
+    name: "hsla",
+    category: "color",
+    doc: "Color from hue (0-360), saturation and lightness (0-100) and alpha (0-1)",
+    params: [num("h"), num("s"), num("l"), num("a", 1)],
+  },
+  {
+    name: "hsl",
+    category: "color",
+    doc: "Color from hue (0-360), saturation and lightness (0-100)",
+    params: [num("h"), num("s"), num("l")],
+  },
+
+  // Audio
+  {
+    name: "music",
+    category: "audio",
+    doc: "Play looping background music at a volume from 0 to 10 (null stops it)",
+    params: [param("path", ["string", "null"], null), num("volume", 5)],
+  },
+  { name: "stop_music", category: "audio", doc: "Stop the music", params: [] },
+  {
+    name: "music_volume",
+    category: "audio",
+    doc: "Set the music volume (0-10)",
+    params: [num("volume")],
+  },
+  {
+    name: "sound",
+    category: "audio",
+    doc: "Play a sound effect once, at a volume from 0 to 10",
+    params: [param("path", ["string", "null"]), num("volume", 5)],
+  },
+  { name: "stop_sounds", category: "audio", doc: "Stop every sound that's playing", params: [] },
+  {
+    name: "master_volume",
+    category: "audio",
+    doc: "Set the volume of all audio (0-10)",
+    params: [num("volume")],
+  },
+
+  // Input
+  {
+    name: "pressed",
+    category: "input",
+    doc:
+      'Whether an action started this frame. Actions: "left", "right", "up", "down", ' +
+      '"jump", "action", "a", "b", "start", "select"',
+    params: [action],
+  },
+  { name: "held", category: "input", doc: "Whether an action is held", params: [action] },
+  {
+    name: "released",
+    category: "input",
+    doc: "Whether an action ended this frame",
+    params: [action],
+  },
+  {
+    name: "key_pressed",
+    category: "input",
+    doc: "Whether a key was pressed this frame",
+    params: [str("key")],
+  },
+  { name: "key_held", category: "input", doc: "Whether a key is held", params: [str("key")] },
+  {
+    name: "key_released",
+    category: "input",
+    doc: "Whether a key was released this frame",
+    params: [str("key")],
+  },
+  { name: "mouse_x", category: "input", doc: "X position of the mouse or touch", params: [] },
+  { name: "mouse_y", category: "input", doc: "Y position of the mouse or touch", params: [] },
+  {
+    name: "mouse_pressed",
+    category: "input",
+    doc: "Whether a mouse button was pressed this frame (0 left, 1 middle, 2 right)",
+    params: [num("button", 0)],
+  },
+  {
+    name: "mouse_held",
+    category: "input",
+    doc: "Whether a mouse button is held",
+    params: [num("button", 0)],
+  },
+  {
+    name: "mouse_released",
+    category: "input",
+    doc: "Whether a mouse button was released this frame",
+    params: [num("button", 0)],
+  },
+  { name: "touch_count", category: "input", doc: "Number of active touches", params: [] },
+  {
+    name: "touch_x",
+    category: "input",
+    doc: "X position of a touch (0 if there isn't one)",
+    params: [num("index", 0)],
+  },
+  {
+    name: "touch_y",
+    category: "input",
+    doc: "Y position of a touch (0 if there isn't one)",
+    params: [num("index", 0)],
+  },
+  {
+    name: "window_focused",
+    category: "input",
+    doc: "Whether the game's window has focus, to pause when the player switches away",
+    params: [],
+  },
+
+  // Input buffer
+  {
+    name: "buffer_input",
+    category: "buffer",
+    doc:
+      "Remember an action for duration seconds, so a jump pressed just before " +
+      "landing still happens on landing",
+    params: [action, num("duration", 0.1)],
+  },
+  {
+    name: "check_buffer",
+    category: "buffer",
+    doc: "Whether an action is buffered, using it up",
+    params: [action],
+  },
+  {
+    name: "peek_buffer",
+    category: "buffer",
+    doc: "Whether an action is buffered, without using it up",
+    params: [action],
+  },
+  { name: "clear_buffer", category: "buffer", doc: "Forget a buffered action", params: [action] },
+  {
+    name: "clear_all_buffers",
+    category: "buffer",
+    doc: "Forget every buffered action",
+    params: [],
+  },
+  {
+    name: "buffer_time",
+    category: "buffer",
+    doc: "Seconds left on a buffered action",
+    params: [action],
+  },
+
+  // Scenes
+  {
+    name: "load_scene",
+    category: "scenes",
+    doc: "Replace the running program with another script, relative to the game's assets",
+    params: [str("path")],
+  },
+
+  // Utility
+  {
+    name: "print",
+    category: "utility",
+    doc: "Write values to the console",
+    params: [],
+    rest: param("values", "any"),
+  },
+  {
+    name: "rect_overlap",
+    category: "utility",
+    doc: "Whether two rectangles overlap",
+    params: [
+      num("x1"),
+      num("y1"),
+      num("w1"),
+      num("h1"),
+      num("x2"),
+      num("y2"),
+      num("w2"),
+      num("h2"),
+    ],
+  },
+] as const satisfies readonly BuiltinSpec[];
+
+export type BuiltinName = (typeof BUILTINS)[number]["name"];
+
+const specsByName = new Map<string, BuiltinSpec>(BUILTINS.map((spec) => [spec.name, spec]));
+
+export function getBuiltinSpec(name: string): BuiltinSpec | undefined {
+  return specsByName.get(name);
+}
+
+/**
+ * Get the type of a value, as named in type errors
+ */
+export function typeOfValue(value: RageValue): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "function") return "function";
+  if (typeof value !== "object") return typeof value;
+  if (isPrototype(value)) return "prototype";
+  if (isEnumVariant(value)) return value.enumName;
+  if (isEnumVariantDef(value)) return "enum variant";
+  return value.__type;
+}
+
+function matchesType(value: RageValue, type: ValueType): boolean {
+  // Enum variant constructors can be called like functions
+  if (type === "function" && isEnumVariantDef(value)) return true;
+  return type === "any" || typeOfValue(value) === type;
+}
+
+function describeType(type: BuiltinParam["type"]): string {
+  const types = typeof type === "string" ? [type] : type;
+  return types
+    .map((t) => (t === "array" ? "an array" : t === "null" ? "null" : `a ${t}`))
+    .join(" or ");
+}
+
+function checkType(spec: BuiltinSpec, param: BuiltinParam, value: RageValue): void {
+  const types = typeof param.type === "string" ? [param.type] : param.type;
+  if (!types.some((type) => matchesType(value, type))) {
+    throw new Error(
+      `${spec.name}() expects ${param.name} to be ${describeType(param.type)}, got ${typeOfValue(value)}`
+    );
+  }
+}
+
+/**
+ * Bind a call's arguments to a builtin's parameters: place keyword arguments,
+ * fill in defaults, and check the count and types
+ * @returns The arguments in parameter order
+ */
+export function bindArguments(
+  spec: BuiltinSpec,
+  positional: RageValue[],
+  keyword: Map<string, RageValue>
+): RageValue[] {
+  const { params, rest } = spec;
+  if (positional.length > params.length && !rest) {
+    const most = params.length === 1 ? "1 argument" : `${params.length} arguments`;
+    throw new Error(`${spec.name}() takes at most ${most}, got ${positional.length}`);
+  }
+
+  const args: Array<RageValue | undefined> = [...positional];
+  for (const [name, value] of keyword) {
+    const index = params.findIndex((p) => p.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown keyword argument: ${name} for function ${spec.name}`);
+    }
+    if (index < positional.length) {
+      throw new Error(`${spec.name}() got multiple values for argument: ${name}`);
+    }
+    args[index] = value;
+  }
+
+  params.forEach((param, index) => {
+    if (args[index] === undefined) {
+      if (param.default === undefined) {
+        throw new Error(`${spec.name}() is missing argument: ${param.name}`);
+      }
+      args[index] = param.default;
+    }
+    checkType(spec, param, args[index] as RageValue);
+  });
+  if (rest) {
+    for (const value of positional.slice(params.length)) {
+      checkType(spec, rest, value);
+    }
+  }
+  return args as RageValue[];
+}
+
+/**
+ * Format how a builtin is called: "rect(x, y, width, height, color, alpha = 1)"
+ */
+export function formatSignature(spec: BuiltinSpec): string {
+  const params = spec.params.map((param) =>
+    param.default === undefined ? param.name : `${param.name} = ${JSON.stringify(param.default)}`
+  );
+  if (spec.rest) params.push(`...${spec.rest.name}`);
+  return `${spec.name}(${params.join(", ")})`;
+}
+
+/**
+ * Generate the builtin reference (docs/builtins.md), grouped by category
+ */
+export function formatReference(): string {
+  const lines = [
+    "# Builtin Reference",
+    "",
+    "<!-- Generated from src/runtime/registry.ts by `npm run docs`. Don't edit by hand. -->",
+  ];
+  for (const [category, title] of Object.entries(BUILTIN_CATEGORIES)) {
+    const specs = [...specsByName.values()].filter((spec) => spec.category === category);
+    if (specs.length === 0) continue;
+    lines.push("", `## ${title}`);
+    for (const spec of specs) {
+      lines.push("", `### \`${formatSignature(spec)}\``, "", spec.doc);
+
+      const params: readonly BuiltinParam[] = spec.rest ? [...spec.params, spec.rest] : spec.params;
+      if (params.length === 0) continue;
+      lines.push("", "| Parameter | Type | Default |", "| --- | --- | --- |");
+      for (const param of params) {
+        const type = typeof param.type === "string" ? param.type : param.type.join(" \\| ");
+        const name = param === spec.rest ? `...${param.name}` : param.name;
+        const fallback = param.default === undefined ? "" : `\`${JSON.stringify(param.default)}\``;
+        lines.push(`| ${name} | ${type} | ${fallback} |`);
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
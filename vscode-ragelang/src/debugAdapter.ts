@@ -0,0 +1,568 @@
+/**
+ * Debug adapter for Ragelang
+ *
+ * Speaks the Debug Adapter Protocol inside the extension, and runs the game in
+ * a worker (see debugRunner.ts) so it can block at breakpoints without
+ * blocking the editor. Breakpoints are set on the lines of the original file;
+ * the lexer's source map puts statements back on those lines after falling.
+ */
+
+import * as path from "path";
+import { MessageChannel, Worker, type MessagePort } from "worker_threads";
+import * as vscode from "vscode";
+import { FallingProcessor } from "../../src/falling/processor";
+import { Lexer } from "../../src/lexer/lexer";
+import { Parser } from "../../src/parser/parser";
+import { findStatementLines, type DebugAction } from "../../src/runtime/debugger";
+import type {
+  BreakpointLine,
+  RunMode,
+  RunnerCommand,
+  RunnerEvent,
+  RunnerStackFrame,
+} from "./debugProtocol";
+
+const THREAD_ID = 1;
+
+interface LaunchArguments {
+  program: string;
+  mode?: RunMode;
+  frames?: number;
+  width?: number;
+  height?: number;
+  seed?: number;
+  stopOnEntry?: boolean;
+  noDebug?: boolean;
+}
+
+interface SetBreakpointsArguments {
+  source: { path: string };
+  breakpoints?: Array<{ line: number; condition?: string }>;
+}
+
+interface DebugRequest {
+  seq: number;
+  type: "request";
+  command: string;
+  arguments?: unknown;
+}
+
+// Requests the worker answers, and how their bodies are finished off
+type WorkerRequest = DebugRequest & { finish?: (body: unknown) => unknown };
+
+const STEP_ACTIONS: Record<string, DebugAction> = {
+  continue: "continue",
+  next: "stepOver",
+  stepIn: "stepIn",
+  stepOut: "stepOut",
+};
+
+export class RagelangDebugSession implements vscode.DebugAdapter {
+  private sendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+  readonly onDidSendMessage = this.sendMessage.event;
+
+  private seq: number = 1;
+  private extensionUri: vscode.Uri;
+  private breakpoints: Map<string, BreakpointLine[]> = new Map(); // By file path
+
+  // The running game
+  private program: string | null = null;
+  private worker: Worker | null = null;
+  private commands: MessagePort | null = null;
+  private signal: Int32Array | null = null;
+  private panel: vscode.WebviewPanel | undefined;
+  private configured: boolean = false;
+  private started: boolean = false;
+  private terminated: boolean = false;
+  private pending: Map<number, WorkerRequest> = new Map();
+
+  constructor(extensionUri: vscode.Uri) {
+    this.extensionUri = extensionUri;
+  }
+
+  handleMessage(message: vscode.DebugProtocolMessage): void {
+    const request = message as DebugRequest;
+    this.handleRequest(request).catch((error: Error) =>
+      this.sendResponse(request, undefined, error.message)
+    );
+  }
+
+  dispose(): void {
+    this.shutdown();
+    this.sendMessage.dispose();
+  }
+
+  private async handleRequest(request: DebugRequest): Promise<void> {
+    switch (request.command) {
+      case "initialize":
+        this.sendResponse(request, {
+          supportsConfigurationDoneRequest: true,
+          supportsConditionalBreakpoints: true,
+          supportsEvaluateForHovers: true,
+          supportsTerminateRequest: true,
+        });
+        this.sendEvent("initialized");
+        break;
+      case "launch":
+        await this.launch(request.arguments as LaunchArguments);
+        this.sendResponse(request);
+        break;
+      case "setBreakpoints":
+        this.sendResponse(
+          request,
+          await this.setBreakpoints(request.arguments as SetBreakpointsArguments)
+        );
+        break;
+      case "configurationDone":
+        this.configured = true;
+        this.startIfReady();
+        this.sendResponse(request);
+        break;
+      case "threads":
+        this.sendResponse(request, { threads: [{ id: THREAD_ID, name: "Ragelang" }] });
+        break;
+      case "stackTrace":
+        this.askWorker(request, { type: "stackTrace", seq: request.seq }, (body) =>
+          this.withSource(body as { stackFrames: RunnerStackFrame[] })
+        );
+        break;
+      case "scopes": {
+        const { frameId } = request.arguments as { frameId: number };
+        this.askWorker(request, { type: "scopes", seq: request.seq, frameId });
+        break;
+      }
+      case "variables": {
+        const { variablesReference } = request.arguments as { variablesReference: number };
+        this.askWorker(request, { type: "variables", seq: request.seq, variablesReference });
+        break;
+      }
+      case "evaluate": {
+        const { expression, frameId } = request.arguments as {
+          expression: string;
+          frameId?: number;
+        };
+        this.askWorker(request, { type: "evaluate", seq: request.seq, expression, frameId });
+        break;
+      }
+      case "continue":
+      case "next":
+      case "stepIn":
+      case "stepOut":
+        this.post({ type: "resume", action: STEP_ACTIONS[request.command] });
+        this.sendResponse(request, { allThreadsContinued: true });
+        break;
+      case "pause":
+        this.post({ type: "pause" });
+        this.sendResponse(request);
+        break;
+      case "terminate":
+      case "disconnect":
+        this.shutdown();
+        this.sendResponse(request);
+        break;
+      default:
+        this.sendResponse(request, undefined, `Unsupported request: ${request.command}`);
+    }
+  }
+
+  private async launch(args: LaunchArguments): Promise<void> {
+    if (!args.program) {
+      throw new Error("Set the program to debug in launch.json");
+    }
+    const document = await vscode.workspace.openTextDocument(args.program);
+    const mode = args.mode ?? "webview";
+    const width = args.width ?? 800;
+    const height = args.height ?? 600;
+
+    const channel = new MessageChannel();
+    this.program = document.uri.fsPath;
+    this.commands = channel.port1;
+    this.signal = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+    this.worker = new Worker(path.join(__dirname, "debugRunner.js"), {
+      workerData: {
+        program: this.program,
+        source: document.getText(),
+        mode,
+        // Headless games stop after 10 seconds of frames unless told otherwise
+        frames: args.frames ?? (mode === "headless" ? 600 : 0),
+        width,
+        height,
+        seed: args.seed,
+        stopOnEntry: args.stopOnEntry ?? false,
+        noDebug: args.noDebug ?? false,
+        commands: channel.port2,
+        signal: this.signal,
+      },
+      transferList: [channel.port2],
+    });
+    this.worker.on("message", (event: RunnerEvent) => this.handleRunnerEvent(event));
+    this.worker.on("error", (error) => {
+      this.sendEvent("output", { category: "stderr", output: `${error.message}\n` });
+      this.terminate();
+    });
+    this.worker.on("exit", () => this.terminate());
+
+    if (mode === "webview") {
+      this.showGame(document.uri, width, height);
+    }
+    this.post({ type: "setBreakpoints", breakpoints: this.breakpoints.get(this.program) ?? [] });
+    this.startIfReady();
+  }
+
+  /**
+   * Start the game once it's launched and VS Code has sent every breakpoint
+   */
+  private startIfReady(): void {
+    if (this.worker && this.configured && !this.started) {
+      this.started = true;
+      this.post({ type: "start" });
+    }
+  }
+
+  private async setBreakpoints(args: SetBreakpointsArguments): Promise<{ breakpoints: unknown[] }> {
+    const file = vscode.Uri.file(args.source.path).fsPath;
+    const requested = args.breakpoints ?? [];
+
+    let lines: number[];
+    try {
+      lines = await this.statementLines(file);
+    } catch (error) {
+      // The file doesn't fall or parse, so there's nowhere to stop yet
+      this.breakpoints.delete(file);
+      const message = (error as Error).message;
+      return { breakpoints: requested.map(({ line }) => ({ verified: false, line, message })) };
+    }
+
+    // Breakpoints on lines without a statement move down to the next one
+    const verified: BreakpointLine[] = [];
+    const breakpoints = requested.map(({ line, condition }) => {
+      const target = lines.find((statementLine) => statementLine >= line);
+      if (target === undefined) {
+        return { verified: false, line, message: "There's no code on or after this line" };
+      }
+      verified.push({ line: target, condition: condition || null });
+      return { verified: true, line: target };
+    });
+
+    this.breakpoints.set(file, verified);
+    if (file === this.program) {
+      this.post({ type: "setBreakpoints", breakpoints: verified });
+    }
+    return { breakpoints };
+  }
+
+  private async statementLines(file: string): Promise<number[]> {
+    const document = await vscode.workspace.openTextDocument(file);
+    const processor = new FallingProcessor(document.getText());
+    const lexer = new Lexer(processor.process(), { sourceMap: processor.getSourceMap() });
+    return findStatementLines(new Parser(lexer.tokenize()).parse());
+  }
+
+  private withSource(body: { stackFrames: RunnerStackFrame[] }): unknown {
+    const source = { name: path.basename(this.program ?? ""), path: this.program };
+    return {
+      stackFrames: body.stackFrames.map((frame) => ({ ...frame, source })),
+      totalFrames: body.stackFrames.length,
+    };
+  }
+
+  // ============ Worker ============
+
+  /**
+   * Send a command to the worker, waking it up if it's stopped
+   */
+  private post(command: RunnerCommand): void {
+    if (!this.commands || !this.signal) return;
+    this.commands.postMessage(command);
+    Atomics.store(this.signal, 0, 1);
+    Atomics.notify(this.signal, 0);
+  }
+
+  /**
+   * Pass a request on to the worker, which answers it with the same seq
+   */
+  private askWorker(
+    request: DebugRequest,
+    command: RunnerCommand,
+    finish?: (body: unknown) => unknown
+  ): void {
+    if (!this.worker) {
+      this.sendResponse(request, undefined, "The game isn't running");
+      return;
+    }
+    this.pending.set(request.seq, { ...request, finish });
+    this.post(command);
+  }
+
+  private handleRunnerEvent(event: RunnerEvent): void {
+    switch (event.type) {
+      case "response":
+      case "error": {
+        const request = this.pending.get(event.seq);
+        if (!request) return;
+        this.pending.delete(event.seq);
+        if (event.type === "error") {
+          this.sendResponse(request, undefined, event.message);
+        } else {
+          this.sendResponse(request, request.finish ? request.finish(event.body) : event.body);
+        }
+        break;
+      }
+      case "stopped":
+        this.sendEvent("stopped", {
+          reason: event.reason,
+          description: event.description ?? undefined,
+          threadId: THREAD_ID,
+          allThreadsStopped: true,
+        });
+        break;
+      case "output":
+        this.sendEvent("output", { category: event.category, output: event.text });
+        break;
+      case "frame":
+        this.panel?.webview.postMessage({ type: "frame", commands: event.commands });
+        break;
+      case "exited":
+        this.sendEvent("exited", { exitCode: event.exitCode });
+        this.terminate();
+        break;
+    }
+  }
+
+  /**
+   * Tell VS Code the session is over (once) and stop the game
+   */
+  private terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.sendEvent("terminated");
+    this.shutdown();
+  }
+
+  private shutdown(): void {
+    const worker = this.worker;
+    if (worker) {
+      this.worker = null;
+      worker.removeAllListeners();
+      // Stop the worker even if it's blocked at a breakpoint
+      this.post({ type: "stop" });
+      void worker.terminate();
+    }
+    this.commands?.close();
+    this.commands = null;
+    this.signal = null;
+    for (const request of this.pending.values()) {
+      this.sendResponse(request, undefined, "The game stopped");
+    }
+    this.pending.clear();
+
+    const panel = this.panel;
+    this.panel = undefined;
+    panel?.dispose();
+  }
+
+  // ============ Game View ============
+
+  /**
+   * Show the game's frames in a webview, and send its key presses to the game
+   */
+  private showGame(program: vscode.Uri, width: number, height: number): void {
+    const folder = vscode.Uri.joinPath(program, "..");
+    this.panel = vscode.window.createWebviewPanel(
+      "ragelangGame",
+      `Debug: ${path.basename(program.fsPath)}`,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, localResourceRoots: [folder] }
+    );
+    this.panel.iconPath = vscode.Uri.joinPath(this.extensionUri, "icon.png");
+    this.panel.webview.html = getGameHtml(
+      `${this.panel.webview.asWebviewUri(folder).toString()}/`,
+      width,
+      height
+    );
+    this.panel.webview.onDidReceiveMessage((message: { key: string; down: boolean }) =>
+      this.post({ type: "key", key: message.key, down: message.down })
+    );
+    // Closing the game ends the session
+    this.panel.onDidDispose(() => {
+      if (this.panel) {
+        this.panel = undefined;
+        this.terminate();
+      }
+    });
+  }
+
+  // ============ Protocol ============
+
+  private sendResponse(request: DebugRequest, body?: unknown, error?: string): void {
+    this.send({
+      type: "response",
+      request_seq: request.seq,
+      command: request.command,
+      success: error === undefined,
+      message: error,
+      body: error === undefined ? body : { error: { id: 1, format: error } },
+    });
+  }
+
+  private sendEvent(event: string, body?: unknown): void {
+    this.send({ type: "event", event, body });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.sendMessage.fire({ ...message, seq: this.seq++ });
+  }
+}
+
+/**
+ * Fills in the program for Ragelang launches, so F5 debugs the open file
+ * even without a launch.json
+ */
+export class RagelangConfigurationProvider implements vscode.DebugConfigurationProvider {
+  resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration
+  ): vscode.DebugConfiguration | undefined {
+    if (!config.type && !config.request && !config.name) {
+      const editor = vscode.window.activeTextEditor;
+      if (editor?.document.languageId === "ragelang") {
+        config.type = "ragelang";
+        config.name = "Debug Ragelang Game";
+        config.request = "launch";
+        config.program = "${file}";
+      }
+    }
+    if (!config.program) {
+      vscode.window.showErrorMessage("Ragelang: Set the program to debug in launch.json");
+      return undefined;
+    }
+    return config;
+  }
+}
+
+export class RagelangDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+  constructor(private extensionUri: vscode.Uri) {}
+
+  createDebugAdapterDescriptor(): vscode.DebugAdapterDescriptor {
+    return new vscode.DebugAdapterInlineImplementation(new RagelangDebugSession(this.extensionUri));
+  }
+}
+
+function getGameHtml(baseUri: string, width: number, height: number): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Ragelang Game</title>
+    <style>
+        body {
+            margin: 0;
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            min-height: 100vh;
+            background: var(--vscode-editor-background);
+        }
+        canvas {
+            max-width: 100%;
+            background: #000;
+        }
+    </style>
+</head>
+<body>
+<canvas id="game" width="${width}" height="${height}" tabindex="0"></canvas>
+<script>
+    const vscode = acquireVsCodeApi();
+    const canvas = document.getElementById("game");
+    const ctx = canvas.getContext("2d");
+    const images = new Map();
+
+    function image(path) {
+        let img = images.get(path);
+        if (!img) {
+            img = new Image();
+            img.src = new URL(path, ${JSON.stringify(baseUri)}).toString();
+            images.set(path, img);
+        }
+        return img;
+    }
+
+    function draw(command) {
+        ctx.globalAlpha = command.alpha ?? 1;
+        switch (command.type) {
+            case "clear":
+                ctx.fillStyle = command.color;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+                break;
+            case "text":
+                ctx.fillStyle = command.color;
+                ctx.font = command.size + "px monospace";
+                ctx.fillText(command.text, command.x, command.y);
+                break;
+            case "sprite": {
+                const img = command.path && image(command.path);
+                if (img && img.complete && img.naturalWidth > 0) {
+                    const s = command.source;
+                    if (s) {
+                        ctx.drawImage(img, s.x, s.y, s.width, s.height, command.x, command.y, command.width, command.height);
+                    } else {
+                        ctx.drawImage(img, command.x, command.y, command.width, command.height);
+                    }
+                } else {
+                    ctx.fillStyle = command.color;
+                    ctx.fillRect(command.x, command.y, command.width, command.height);
+                }
+                break;
+            }
+            case "rect":
+                ctx.fillStyle = command.color;
+                ctx.fillRect(command.x, command.y, command.width, command.height);
+                break;
+            case "strokeRect":
+                ctx.strokeStyle = command.color;
+                ctx.lineWidth = command.lineWidth;
+                ctx.strokeRect(command.x, command.y, command.width, command.height);
+                break;
+            case "circle":
+            case "strokeCircle":
+                ctx.beginPath();
+                ctx.arc(command.x, command.y, command.radius, 0, Math.PI * 2);
+                if (command.type === "circle") {
+                    ctx.fillStyle = command.color;
+                    ctx.fill();
+                } else {
+                    ctx.strokeStyle = command.color;
+                    ctx.lineWidth = command.lineWidth;
+                    ctx.stroke();
+                }
+                break;
+            case "line":
+                ctx.strokeStyle = command.color;
+                ctx.lineWidth = command.width;
+                ctx.beginPath();
+                ctx.moveTo(command.x1, command.y1);
+                ctx.lineTo(command.x2, command.y2);
+                ctx.stroke();
+                break;
+        }
+    }
+
+    window.addEventListener("message", (event) => {
+        if (event.data.type === "frame") {
+            event.data.commands.forEach(draw);
+        }
+    });
+
+    for (const type of ["keydown", "keyup"]) {
+        window.addEventListener(type, (event) => {
+            event.preventDefault();
+            if (!event.repeat) {
+                vscode.postMessage({ key: event.code, down: type === "keydown" });
+            }
+        });
+    }
+    canvas.focus();
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Messages between the debug adapter and the worker that runs the game.
+ *
+ * The game runs synchronously in the worker, so while it's stopped at a
+ * breakpoint the worker can't use its event loop. Commands go through a
+ * MessagePort the worker reads with receiveMessageOnPort(), and the adapter
+ * wakes the worker up through a shared signal after posting each one.
+ */
+
+import type { MessagePort } from "worker_threads";
+import type { DebugAction, PauseReason } from "../../src/runtime/debugger";
+import type { DrawCommand } from "../../src/renderer/renderer";
+
+export type RunMode = "headless" | "webview";
+
+export interface RunnerData {
+  program: string; // Path of the .rage file, for messages
+  source: string;
+  mode: RunMode;
+  frames: number; // Frames to run headlessly (0 runs until stopped)
+  width: number;
+  height: number;
+  seed: number | undefined;
+  stopOnEntry: boolean;
+  noDebug: boolean;
+  commands: MessagePort;
+  signal: Int32Array; // Backed by a SharedArrayBuffer; set to 1 after posting a command
+}
+
+export interface BreakpointLine {
+  line: number;
+  condition: string | null;
+}
+
+export type RunnerCommand =
+  | { type: "start" }
+  | { type: "setBreakpoints"; breakpoints: BreakpointLine[] }
+  | { type: "resume"; action: DebugAction }
+  | { type: "pause" }
+  | { type: "stackTrace"; seq: number }
+  | { type: "scopes"; seq: number; frameId: number }
+  | { type: "variables"; seq: number; variablesReference: number }
+  | { type: "evaluate"; seq: number; expression: string; frameId: number | undefined }
+  | { type: "key"; key: string; down: boolean }
+  | { type: "stop" };
+
+export interface RunnerStackFrame {
+  id: number;
+  name: string;
+  line: number;
+  column: number;
+}
+
+export interface RunnerVariable {
+  name: string;
+  value: string;
+  variablesReference: number; // 0 if the value has no children
+}
+
+export type RunnerEvent =
+  | { type: "response"; seq: number; body: unknown }
+  | { type: "error"; seq: number; message: string }
+  | { type: "stopped"; reason: PauseReason | "entry"; description: string | null }
+  | { type: "output"; category: "stdout" | "stderr"; text: string }
+  | { type: "frame"; commands: DrawCommand[] }
+  | { type: "exited"; exitCode: number };
@@ -0,0 +1,285 @@
+/**
+ * Worker that runs a Ragelang game for the debug adapter.
+ *
+ * Draws to a RecordingRenderer and sends each frame's draw commands to the
+ * adapter (which shows them in a webview), and blocks on the shared signal
+ * while stopped at a breakpoint until the adapter says how to carry on.
+ */
+
+import { parentPort, receiveMessageOnPort, workerData } from "worker_threads";
+import { Ragelang } from "../../src/index";
+import { RecordingRenderer } from "../../src/renderer/recording";
+import {
+  describeValue,
+  type DebugAction,
+  type Debugger,
+  type PauseEvent,
+} from "../../src/runtime/debugger";
+import type { DebugFrame } from "../../src/runtime/interpreter";
+import { isEnumVariant, isPrototype, type RageValue } from "../../src/runtime/builtins";
+import { RageRuntimeError } from "../../src/runtime/errors";
+import type {
+  RunnerCommand,
+  RunnerData,
+  RunnerEvent,
+  RunnerStackFrame,
+  RunnerVariable,
+} from "./debugProtocol";
+
+const FRAME_TIME = 1 / 60;
+
+const data = workerData as RunnerData;
+
+function send(event: RunnerEvent): void {
+  parentPort?.postMessage(event);
+}
+
+class DebugRunner {
+  private game: Ragelang;
+  private renderer: RecordingRenderer;
+  private debugger: Debugger | null = null;
+  private started: boolean = false;
+  private frameCount: number = 0;
+
+  // Only set while stopped at a breakpoint
+  private frames: DebugFrame[] = [];
+  private resumeAction: DebugAction | null = null;
+  // Children of expandable variables, by variablesReference - 1 (valid until the game resumes)
+  private handles: Array<() => Array<[string, RageValue]>> = [];
+
+  constructor() {
+    this.renderer = new RecordingRenderer({ width: data.width, height: data.height });
+    this.game = new Ragelang({ renderer: this.renderer, errorOverlay: false, seed: data.seed });
+    if (!data.noDebug) {
+      this.debugger = this.game.debug();
+      this.debugger.onPause((event) => this.stop(event));
+      if (data.stopOnEntry) {
+        this.debugger.pause();
+      }
+    }
+  }
+
+  run(): void {
+    // Wait for the adapter to send the breakpoints
+    while (!this.started) {
+      this.waitForCommands();
+    }
+
+    try {
+      this.game.run(data.source);
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    this.nextFrame();
+  }
+
+  private nextFrame = (): void => {
+    this.handleCommands();
+    if (data.frames > 0 && this.frameCount >= data.frames) {
+      this.exit(0);
+      return;
+    }
+
+    try {
+      this.game.tick(FRAME_TIME);
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    this.frameCount++;
+
+    if (data.mode === "webview") {
+      send({ type: "frame", commands: this.renderer.getFrame() });
+      setTimeout(this.nextFrame, FRAME_TIME * 1000);
+    } else {
+      // Run as fast as possible, but let the event loop run between frames
+      setImmediate(this.nextFrame);
+    }
+    this.renderer.reset();
+  };
+
+  /**
+   * Stop at a breakpoint (or step), answering the adapter until it resumes
+   */
+  private stop(event: PauseEvent): DebugAction {
+    this.frames = event.frames;
+    this.handles = [];
+    this.resumeAction = null;
+    const entry = data.stopOnEntry && this.frameCount === 0 && event.reason === "pause";
+    send({
+      type: "stopped",
+      reason: entry ? "entry" : event.reason,
+      description: event.conditionError
+        ? `Breakpoint condition failed: ${event.conditionError}`
+        : null,
+    });
+
+    while (this.resumeAction === null) {
+      this.waitForCommands();
+    }
+
+    const action: DebugAction = this.resumeAction;
+    this.frames = [];
+    this.handles = [];
+    this.resumeAction = null;
+    return action;
+  }
+
+  /**
+   * Handle any commands that have arrived, or block until one does
+   */
+  private waitForCommands(): void {
+    Atomics.store(data.signal, 0, 0);
+    if (!this.handleCommands()) {
+      Atomics.wait(data.signal, 0, 0);
+    }
+  }
+
+  /**
+   * @returns Whether there were any commands to handle
+   */
+  private handleCommands(): boolean {
+    let handled = false;
+    let message = receiveMessageOnPort(data.commands);
+    while (message) {
+      this.handleCommand(message.message as RunnerCommand);
+      handled = true;
+      message = receiveMessageOnPort(data.commands);
+    }
+    return handled;
+  }
+
+  private handleCommand(command: RunnerCommand): void {
+    switch (command.type) {
+      case "start":
+        this.started = true;
+        break;
+      case "setBreakpoints":
+        this.debugger?.clearBreakpoints();
+        for (const { line, condition } of command.breakpoints) {
+          try {
+            this.debugger?.setBreakpoint(line, condition);
+          } catch (error) {
+            send({
+              type: "output",
+              category: "stderr",
+              text: `Breakpoint on line ${line}: ${(error as Error).message}\n`,
+            });
+          }
+        }
+        break;
+      case "resume":
+        if (this.frames.length > 0) {
+          this.resumeAction = command.action;
+        }
+        break;
+      case "pause":
+        this.debugger?.pause();
+        break;
+      case "stackTrace": {
+        const stackFrames: RunnerStackFrame[] = this.frames.map((frame, id) => ({
+          id,
+          name: frame.name,
+          line: frame.line,
+          column: frame.column,
+        }));
+        send({ type: "response", seq: command.seq, body: { stackFrames } });
+        break;
+      }
+      case "scopes": {
+        const scopes = (this.frames[command.frameId]?.scopes ?? []).map((scope) => ({
+          name: scope.name,
+          variablesReference: this.addHandle(() => [...scope.variables]),
+          expensive: false,
+        }));
+        send({ type: "response", seq: command.seq, body: { scopes } });
+        break;
+      }
+      case "variables": {
+        const entries = this.handles[command.variablesReference - 1]?.() ?? [];
+        const variables: RunnerVariable[] = entries.map(([name, value]) => ({
+          name,
+          value: describeValue(value),
+          variablesReference: this.childrenOf(value),
+        }));
+        send({ type: "response", seq: command.seq, body: { variables } });
+        break;
+      }
+      case "evaluate":
+        try {
+          if (!this.debugger) {
+            throw new Error("Expressions can only be evaluated while debugging");
+          }
+          const value = this.debugger.evaluate(command.expression, command.frameId ?? 0);
+          send({
+            type: "response",
+            seq: command.seq,
+            body: { result: describeValue(value), variablesReference: this.childrenOf(value) },
+          });
+        } catch (error) {
+          send({ type: "error", seq: command.seq, message: (error as Error).message });
+        }
+        break;
+      case "key":
+        if (command.down) {
+          this.game.getInput().press(command.key);
+        } else {
+          this.game.getInput().release(command.key);
+        }
+        break;
+      case "stop":
+        // Ends this worker, even in the middle of a frame
+        process.exit(0);
+    }
+  }
+
+  /**
+   * @returns The variablesReference for a value's children, or 0 if it has none
+   */
+  private childrenOf(value: RageValue): number {
+    if (Array.isArray(value)) {
+      return this.addHandle(() => value.map((item, index) => [String(index), item]));
+    }
+    if (isPrototype(value)) {
+      return this.addHandle(() => Object.entries(value).filter(([key]) => key !== "__type"));
+    }
+    if (isEnumVariant(value) && value.data.size > 0) {
+      return this.addHandle(() => [...value.data]);
+    }
+    return 0;
+  }
+
+  private addHandle(children: () => Array<[string, RageValue]>): number {
+    this.handles.push(children);
+    return this.handles.length;
+  }
+
+  private fail(error: unknown): void {
+    const text =
+      error instanceof RageRuntimeError
+        ? error.formatTrace()
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    send({ type: "output", category: "stderr", text: `${text}\n` });
+    this.exit(1);
+  }
+
+  private exit(exitCode: number): void {
+    send({ type: "exited", exitCode });
+    // Nothing else keeps the worker alive, so it ends once this message is sent
+    data.commands.close();
+  }
+}
+
+// print() and friends show up in the debug console
+const output =
+  (category: "stdout" | "stderr") =>
+  (...args: unknown[]): void =>
+    send({ type: "output", category, text: `${args.map(String).join(" ")}\n` });
+console.log = output("stdout");
+console.warn = output("stderr");
+console.error = output("stderr");
+
+new DebugRunner().run();
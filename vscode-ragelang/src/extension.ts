@@ -1,22 +1,43 @@
 import * as vscode from "vscode";
-import { FallingProcessor } from "./fallingProcessor";
+import { LanguageClient, TransportKind } from "vscode-languageclient/node";
+import { IncrementalFallingProcessor } from "../../src/falling/incremental";
+import { Scaffolder } from "../../src/falling/scaffolder";
+import { RagelangConfigurationProvider, RagelangDebugAdapterFactory } from "./debugAdapter";
+import type { LoadMessage, PreviewEvent } from "./previewProtocol";
 
-// Diagnostic collection for falling characters
-let fallingDiagnostics: vscode.DiagnosticCollection;
+// Language server (src/language/server.ts), for diagnostics, completion, navigation and more
+let client: LanguageClient | undefined;
 
 // Decoration type for falling characters
 let fallingDecorationType: vscode.TextEditorDecorationType;
 
-// Preview panel
+// Falling processors for open documents, kept up to date edit by edit
+interface TrackedProcessor {
+  processor: IncrementalFallingProcessor;
+  version: number; // The document version it has every edit of
+}
+const processors = new Map<string, TrackedProcessor>();
+
+// Preview panel, showing the code after falling or running the game
+type PreviewMode = "falling" | "game";
 let previewPanel: vscode.WebviewPanel | undefined;
 let previewSourceUri: vscode.Uri | undefined;
+let previewMode: PreviewMode = "falling";
+
+// Errors from the game preview, reported on the previewed document
+let runtimeDiagnostics: vscode.DiagnosticCollection;
+
+// Wait for a pause in typing before reloading the game, so it doesn't restart on every keystroke
+const RELOAD_DELAY_MS = 300;
+let reloadTimer: ReturnType<typeof setTimeout> | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("Ragelang extension is now active");
 
-  // Create diagnostic collection
-  fallingDiagnostics = vscode.languages.createDiagnosticCollection("ragelang");
-  context.subscriptions.push(fallingDiagnostics);
+  startLanguageServer(context);
+
+  runtimeDiagnostics = vscode.languages.createDiagnosticCollection("ragelang-runtime");
+  context.subscriptions.push(runtimeDiagnostics);
 
   // Create decoration type for falling characters
   updateDecorationStyle();
@@ -26,35 +47,43 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration("ragelang")) {
         updateDecorationStyle();
-        // Re-analyze all open ragelang documents
+        // Re-highlight all open ragelang documents
         for (const editor of vscode.window.visibleTextEditors) {
           if (editor.document.languageId === "ragelang") {
-            analyzeDocument(editor.document, editor);
+            highlightFalling(editor.document, editor);
           }
         }
       }
     })
   );
 
-  // Analyze document on open
+  // Highlight document on open
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument((document) => {
       if (document.languageId === "ragelang") {
         const editor = vscode.window.activeTextEditor;
         if (editor && editor.document === document) {
-          analyzeDocument(document, editor);
+          highlightFalling(document, editor);
         }
       }
     })
   );
 
-  // Analyze document on change
+  // Forget processors for closed documents
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      processors.delete(document.uri.toString());
+    })
+  );
+
+  // Highlight document on change
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument((event) => {
       if (event.document.languageId === "ragelang") {
+        applyChanges(event);
         const editor = vscode.window.activeTextEditor;
         if (editor && editor.document === event.document) {
-          analyzeDocument(event.document, editor);
+          highlightFalling(event.document, editor);
         }
         // Update preview if this is the source document
         if (
@@ -68,55 +97,46 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Analyze document when editor changes
+  // Highlight document when editor changes
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor((editor) => {
       if (editor && editor.document.languageId === "ragelang") {
-        analyzeDocument(editor.document, editor);
+        highlightFalling(editor.document, editor);
       }
     })
   );
 
-  // Analyze all currently open ragelang documents
+  // Highlight all currently open ragelang documents
   for (const editor of vscode.window.visibleTextEditors) {
     if (editor.document.languageId === "ragelang") {
-      analyzeDocument(editor.document, editor);
+      highlightFalling(editor.document, editor);
     }
   }
 
-  // Register hover provider for falling characters
+  // Register code actions that add support scaffolding
   context.subscriptions.push(
-    vscode.languages.registerHoverProvider("ragelang", {
-      provideHover(document, position) {
-        const processor = new FallingProcessor(document.getText());
-        const unsupported = processor.getUnsupportedPositions();
-
-        // Check if hover position is on an unsupported character
-        const char = unsupported.find(
-          (p) => p.row === position.line && p.col === position.character
-        );
-
-        if (char) {
-          const charAtPos = document.getText(
-            new vscode.Range(
-              position.line,
-              position.character,
-              position.line,
-              position.character + 1
-            )
-          );
-          return new vscode.Hover(
-            new vscode.MarkdownString(
-              `⚠️ **Unsupported Character**\n\n` +
-                `This character \`${charAtPos}\` will fall because it has no support beneath it.\n\n` +
-                `In Ragelang, characters must be supported by characters directly below ` +
-                `or diagonally adjacent below them, all the way down to the foundation (\`#\`).`
-            )
-          );
-        }
+    vscode.languages.registerCodeActionsProvider("ragelang", new ScaffoldingActionProvider(), {
+      providedCodeActionKinds: ScaffoldingActionProvider.providedCodeActionKinds,
+    })
+  );
 
-        return null;
-      },
+  // Register command to add support scaffolding to the whole document
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ragelang.scaffold", async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.languageId !== "ragelang") {
+        vscode.window.showWarningMessage("Open a Ragelang file to add support scaffolding");
+        return;
+      }
+
+      let edit: vscode.WorkspaceEdit;
+      try {
+        edit = createScaffoldEdit(editor.document);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Ragelang: ${(error as Error).message}`);
+        return;
+      }
+      await vscode.workspace.applyEdit(edit);
     })
   );
 
@@ -133,6 +153,19 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Register command to run the game in a preview (reloads on every edit)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ragelang.showGamePreview", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.languageId !== "ragelang") {
+        vscode.window.showWarningMessage("Open a Ragelang file to preview the game");
+        return;
+      }
+
+      showPreviewPanel(context, editor.document, "game");
+    })
+  );
+
   // Register command to toggle preview (like markdown preview toggle)
   context.subscriptions.push(
     vscode.commands.registerCommand("ragelang.togglePreview", () => {
@@ -158,6 +191,18 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Register the debugger, which runs games in a worker
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider(
+      "ragelang",
+      new RagelangConfigurationProvider()
+    ),
+    vscode.debug.registerDebugAdapterDescriptorFactory(
+      "ragelang",
+      new RagelangDebugAdapterFactory(context.extensionUri)
+    )
+  );
+
   // Register command to toggle falling character highlighting
   context.subscriptions.push(
     vscode.commands.registerCommand("ragelang.toggleFallingHighlight", async () => {
@@ -178,14 +223,151 @@ export function activate(context: vscode.ExtensionContext) {
   );
 }
 
-function showPreviewPanel(context: vscode.ExtensionContext, document: vscode.TextDocument) {
+/**
+ * Start the language server bundled with the extension. It reports falling
+ * characters and syntax errors, which the scaffolding quick fix acts on.
+ */
+function startLanguageServer(context: vscode.ExtensionContext) {
+  const module = vscode.Uri.joinPath(context.extensionUri, "out", "server.js").fsPath;
+  client = new LanguageClient(
+    "ragelang",
+    "Ragelang Language Server",
+    { module, transport: TransportKind.ipc },
+    { documentSelector: [{ language: "ragelang" }] }
+  );
+  void client.start();
+}
+
+function getProcessor(document: vscode.TextDocument): IncrementalFallingProcessor {
+  const key = document.uri.toString();
+  let tracked = processors.get(key);
+  if (!tracked) {
+    tracked = { processor: new IncrementalFallingProcessor(document.getText()), version: 0 };
+    processors.set(key, tracked);
+  } else if (tracked.version !== document.version) {
+    tracked.processor.setText(document.getText());
+  }
+  tracked.version = document.version;
+  return tracked.processor;
+}
+
+function applyChanges(event: vscode.TextDocumentChangeEvent) {
+  const tracked = processors.get(event.document.uri.toString());
+  if (!tracked) return;
+
+  // Each change event is one version on; if one was missed, re-check the whole document
+  if (tracked.version !== event.document.version - 1) {
+    tracked.processor.setText(event.document.getText());
+  } else {
+    for (const change of event.contentChanges) {
+      tracked.processor.applyEdit({
+        startRow: change.range.start.line,
+        startCol: change.range.start.character,
+        endRow: change.range.end.line,
+        endCol: change.range.end.character,
+        text: change.text,
+      });
+    }
+  }
+  tracked.version = event.document.version;
+}
+
+/**
+ * Build an edit that replaces the document with its scaffolded version.
+ * Throws if the document can't be scaffolded.
+ */
+function createScaffoldEdit(document: vscode.TextDocument): vscode.WorkspaceEdit {
+  const text = document.getText();
+  const scaffolded = new Scaffolder(text).scaffold();
+
+  const edit = new vscode.WorkspaceEdit();
+  if (scaffolded !== text) {
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    edit.replace(document.uri, fullRange, scaffolded);
+  }
+  return edit;
+}
+
+// A scaffolding action, whose edit is only built when it's chosen
+class ScaffoldAction extends vscode.CodeAction {
+  constructor(
+    title: string,
+    kind: vscode.CodeActionKind,
+    readonly document: vscode.TextDocument
+  ) {
+    super(title, kind);
+  }
+}
+
+class ScaffoldingActionProvider implements vscode.CodeActionProvider<ScaffoldAction> {
+  static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append("ragelang");
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    ScaffoldingActionProvider.fixAllKind,
+  ];
+
+  // Actions are asked for on every cursor move, so this stays cheap and quiet
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): ScaffoldAction[] {
+    const falling = context.diagnostics.filter((d) => d.code === "falling-character");
+    const wantsFixAll =
+      context.only && ScaffoldingActionProvider.fixAllKind.intersects(context.only);
+    if (falling.length === 0 && !wantsFixAll) {
+      return [];
+    }
+
+    // Without a foundation there's nothing to scaffold onto
+    if (getProcessor(document).getFoundationError()) {
+      return [];
+    }
+
+    const actions: ScaffoldAction[] = [];
+    if (falling.length > 0) {
+      const quickFix = new ScaffoldAction(
+        "Add support scaffolding",
+        vscode.CodeActionKind.QuickFix,
+        document
+      );
+      quickFix.diagnostics = falling;
+      quickFix.isPreferred = true;
+      actions.push(quickFix);
+    }
+
+    actions.push(
+      new ScaffoldAction(
+        "Add support scaffolding to fix all falling characters",
+        ScaffoldingActionProvider.fixAllKind,
+        document
+      )
+    );
+    return actions;
+  }
+
+  resolveCodeAction(action: ScaffoldAction): ScaffoldAction {
+    try {
+      action.edit = createScaffoldEdit(action.document);
+    } catch {
+      // Left without an edit; the ragelang.scaffold command says why
+    }
+    return action;
+  }
+}
+
+function showPreviewPanel(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  mode: PreviewMode = "falling"
+) {
   const columnToShowIn = vscode.ViewColumn.Beside;
+  previewMode = mode;
 
   if (previewPanel) {
     // If we already have a panel, show it in the target column
     previewPanel.reveal(columnToShowIn);
     previewSourceUri = document.uri;
-    updatePreview(document);
   } else {
     // Create a new panel
     previewPanel = vscode.window.createWebviewPanel(
@@ -193,7 +375,6 @@ function showPreviewPanel(context: vscode.ExtensionContext, document: vscode.Tex
       "Ragelang Preview",
       columnToShowIn,
       {
-        enableScripts: true,
         retainContextWhenHidden: true,
       }
     );
@@ -203,31 +384,129 @@ function showPreviewPanel(context: vscode.ExtensionContext, document: vscode.Tex
     // Set icon
     previewPanel.iconPath = vscode.Uri.joinPath(context.extensionUri, "icon.png");
 
-    // Update content
-    updatePreview(document);
+    // Handle messages from the game preview
+    previewPanel.webview.onDidReceiveMessage(handlePreviewEvent, null, context.subscriptions);
 
     // Handle panel disposal
     previewPanel.onDidDispose(
       () => {
         previewPanel = undefined;
         previewSourceUri = undefined;
+        clearTimeout(reloadTimer);
+        runtimeDiagnostics.clear();
       },
       null,
       context.subscriptions
     );
   }
+
+  // Update content
+  if (mode === "game") {
+    showGamePreview(context, document);
+  } else {
+    stopGamePreview();
+    updatePreview(document);
+  }
+}
+
+/**
+ * Leave nothing of a game preview behind: no pending reload, runtime errors
+ * or scripts
+ */
+function stopGamePreview() {
+  clearTimeout(reloadTimer);
+  runtimeDiagnostics.clear();
+  if (previewPanel) {
+    previewPanel.webview.options = {};
+  }
 }
 
 function updatePreview(document: vscode.TextDocument) {
   if (!previewPanel) return;
 
-  const processor = new FallingProcessor(document.getText());
-  const processedCode = processor.process();
+  if (previewMode === "game") {
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => loadGame(document), RELOAD_DELAY_MS);
+    return;
+  }
+
+  let processedCode: string;
+  try {
+    processedCode = getProcessor(document).process();
+  } catch (error) {
+    // Missing or ambiguous foundation - show why instead of the processed code
+    processedCode = (error as Error).message;
+  }
 
   previewPanel.title = `Preview: ${getFileName(document.uri)}`;
   previewPanel.webview.html = getPreviewHtml(processedCode);
 }
 
+/**
+ * Run the document in the preview with the bundled runtime. Sprites, sounds
+ * and scenes load relative to the document, through the webview's <base>.
+ */
+function showGamePreview(context: vscode.ExtensionContext, document: vscode.TextDocument) {
+  if (!previewPanel) return;
+
+  const folder = vscode.Uri.joinPath(document.uri, "..");
+  const scripts = vscode.Uri.joinPath(context.extensionUri, "out");
+  const webview = previewPanel.webview;
+  webview.options = { enableScripts: true, localResourceRoots: [folder, scripts] };
+
+  clearTimeout(reloadTimer);
+  runtimeDiagnostics.clear();
+  previewPanel.title = `Game: ${getFileName(document.uri)}`;
+  // The game asks for the code once it's ready (see handlePreviewEvent)
+  webview.html = getGamePreviewHtml(
+    webview.asWebviewUri(folder),
+    webview.asWebviewUri(vscode.Uri.joinPath(scripts, "gamePreview.js"))
+  );
+}
+
+/**
+ * Send the document's code to the game preview, which replaces the running game with it
+ */
+function loadGame(document: vscode.TextDocument) {
+  runtimeDiagnostics.delete(document.uri);
+  const message: LoadMessage = { type: "load", source: document.getText() };
+  previewPanel?.webview.postMessage(message);
+}
+
+function handlePreviewEvent(event: PreviewEvent) {
+  const document = vscode.workspace.textDocuments.find(
+    (candidate) => candidate.uri.toString() === previewSourceUri?.toString()
+  );
+  if (!document || previewMode !== "game") return;
+
+  switch (event.type) {
+    case "ready":
+      loadGame(document);
+      break;
+    case "error": {
+      // Errors without a location (like syntax errors) are already reported by the language server
+      if (!event.location) return;
+      const { line, column, endLine, endColumn } = event.location;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line - 1, column - 1, endLine - 1, endColumn - 1),
+        event.message,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = "ragelang";
+      diagnostic.code = "runtime-error";
+      diagnostic.relatedInformation = event.calls.map(
+        (call) =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(document.uri, new vscode.Position(call.line - 1, call.column - 1)),
+            `${call.functionName} was called here`
+          )
+      );
+      runtimeDiagnostics.set(document.uri, [diagnostic]);
+      break;
+    }
+  }
+}
+
 function getFileName(uri: vscode.Uri): string {
   const parts = uri.path.split("/");
   return parts[parts.length - 1];
@@ -275,6 +554,42 @@ function getPreviewHtml(processed: string): string {
 </html>`;
 }
 
+function getGamePreviewHtml(base: vscode.Uri, script: vscode.Uri): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <base href="${base}/">
+    <title>Ragelang Game</title>
+    <style>
+        body {
+            margin: 0;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            background: var(--vscode-editor-background);
+        }
+        canvas {
+            max-width: 100%;
+            background: #000;
+        }
+        #status {
+            padding: 12px;
+            color: var(--vscode-errorForeground);
+            font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
+            white-space: pre-wrap;
+        }
+    </style>
+</head>
+<body>
+<canvas id="game" width="800" height="600" tabindex="0"></canvas>
+<div id="status"></div>
+<script src="${script}"></script>
+</body>
+</html>`;
+}
+
 function updateDecorationStyle() {
   // Dispose old decoration type if it exists
   if (fallingDecorationType) {
@@ -293,54 +608,33 @@ function updateDecorationStyle() {
   });
 }
 
-function analyzeDocument(document: vscode.TextDocument, editor: vscode.TextEditor) {
+/**
+ * Highlight the characters that will fall (the language server reports them as problems)
+ */
+function highlightFalling(document: vscode.TextDocument, editor: vscode.TextEditor) {
   const config = vscode.workspace.getConfiguration("ragelang");
   const enableHighlight = config.get<boolean>("enableFallingHighlight", true);
 
   if (!enableHighlight) {
-    fallingDiagnostics.clear();
     editor.setDecorations(fallingDecorationType, []);
     return;
   }
 
-  const text = document.getText();
-  const processor = new FallingProcessor(text);
-  const unsupportedPositions = processor.getUnsupportedPositions();
-
-  // Create diagnostics
-  const diagnostics: vscode.Diagnostic[] = [];
-  const decorations: vscode.DecorationOptions[] = [];
-
-  for (const pos of unsupportedPositions) {
-    const range = new vscode.Range(pos.row, pos.col, pos.row, pos.col + 1);
-    const char = document.getText(range);
-
-    // Create diagnostic (warning)
-    const diagnostic = new vscode.Diagnostic(
-      range,
-      `Unsupported character '${char}' will fall`,
-      vscode.DiagnosticSeverity.Warning
-    );
-    diagnostic.source = "ragelang";
-    diagnostic.code = "falling-character";
-    diagnostics.push(diagnostic);
-
-    // Create decoration
-    decorations.push({
-      range,
+  const decorations: vscode.DecorationOptions[] = getProcessor(document)
+    .getUnsupportedPositions()
+    .map((pos) => ({
+      range: new vscode.Range(pos.row, pos.col, pos.row, pos.col + 1),
       hoverMessage: `This character will fall - no support beneath it`,
-    });
-  }
-
-  fallingDiagnostics.set(document.uri, diagnostics);
+    }));
   editor.setDecorations(fallingDecorationType, decorations);
 }
 
-export function deactivate() {
+export function deactivate(): Thenable<void> | undefined {
   if (fallingDecorationType) {
     fallingDecorationType.dispose();
   }
   if (previewPanel) {
     previewPanel.dispose();
   }
+  return client?.stop();
 }
@@ -0,0 +1,60 @@
+/**
+ * Game preview, bundled for the webview.
+ *
+ * Runs the previewed document on a canvas with the full Ragelang runtime, and
+ * reloads it whenever the extension sends new code. The page's <base> is the
+ * document's folder, so sprites, sounds and scenes load relative to it.
+ */
+
+import { Ragelang } from "../../src/index";
+import { RageRuntimeError } from "../../src/runtime/errors";
+import type { LoadMessage, PreviewEvent } from "./previewProtocol";
+
+declare function acquireVsCodeApi(): { postMessage(event: PreviewEvent): void };
+
+const vscode = acquireVsCodeApi();
+const canvas = document.getElementById("game") as HTMLCanvasElement;
+const status = document.getElementById("status") as HTMLElement;
+
+function report(error: Error): void {
+  if (error instanceof RageRuntimeError) {
+    const { start, end } = error.loc;
+    vscode.postMessage({
+      type: "error",
+      message: error.reason,
+      location: {
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+      },
+      calls: error.callStack.map(({ functionName, line, column }) => ({
+        functionName,
+        line,
+        column,
+      })),
+    });
+  } else {
+    vscode.postMessage({ type: "error", message: error.message, location: null, calls: [] });
+  }
+}
+
+// Errors in the game loop also show the error overlay, with R to restart
+const game = new Ragelang({ canvas, width: canvas.width, height: canvas.height, onError: report });
+
+window.addEventListener("message", (event: MessageEvent<LoadMessage>) => {
+  if (event.data.type !== "load") return;
+
+  try {
+    game.load(event.data.source);
+    status.textContent = "";
+  } catch (error) {
+    // Code that doesn't fall or parse never starts, so say why under the canvas
+    const failure = error instanceof Error ? error : new Error(String(error));
+    status.textContent = failure.message;
+    report(failure);
+  }
+});
+
+canvas.focus();
+vscode.postMessage({ type: "ready" });
@@ -0,0 +1,25 @@
+/**
+ * Messages between the extension and the game preview webview (see gamePreview.ts)
+ */
+
+/** From the extension: run this code, replacing whatever is running */
+export interface LoadMessage {
+  type: "load";
+  source: string;
+}
+
+export interface PreviewErrorLocation {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export type PreviewEvent =
+  | { type: "ready" } // The webview can take a LoadMessage
+  | {
+      type: "error";
+      message: string;
+      location: PreviewErrorLocation | null; // Where a runtime error happened, if known
+      calls: Array<{ functionName: string; line: number; column: number }>; // Innermost first
+    };